@@ -0,0 +1,197 @@
+import { CommandArgument, CommandDefinition, CommandFlag, CommandSubcommand, ParsedArgs } from './base.js';
+
+export interface ArgumentToken {
+  value: string;
+  start: number;
+  end: number;
+  quoted: boolean;
+}
+
+// Words, with quoted parts kept together ("a b", --title='a b') and stray quotes kept as typed (it's).
+// A backslash escapes a quote or a space ("say \"hi\"", a\ b); other backslashes stay, so Windows paths work.
+const TOKEN = /(?:"(?:\\.|[^"\\])*"|'[^']*'|\\[\s"']|[^\s"'\\]+|\\|["'])+/g;
+const QUOTED_PART = /"((?:\\.|[^"\\])*)"|'([^']*)'|\\([\s"'])/g;
+
+/**
+ * Split input into tokens, keeping their positions so the raw remainder can be recovered
+ */
+export function tokenize(input: string): ArgumentToken[] {
+  return [...input.matchAll(TOKEN)].map(match => ({
+    value: match[0].replace(QUOTED_PART, (_part, double?: string, single?: string, escaped?: string) =>
+      double !== undefined ? double.replace(/\\(["\\])/g, '$1') : single ?? escaped ?? ''),
+    start: match.index!,
+    end: match.index! + match[0].length,
+    quoted: /^["']/.test(match[0])
+  }));
+}
+
+/**
+ * Split arguments on whitespace, keeping quoted strings together
+ */
+export function splitArguments(input: string): string[] {
+  return tokenize(input).map(token => token.value);
+}
+
+export function findSubcommand(definition: CommandDefinition, name: string): CommandSubcommand | undefined {
+  const lower = name.toLowerCase();
+  return definition.subcommands?.find(subcommand => subcommand.name === lower || subcommand.aliases?.includes(lower));
+}
+
+export function findFlag(flags: CommandFlag[], token: string): CommandFlag | undefined {
+  return flags.find(flag => token === `--${flag.name}` || (flag.alias !== undefined && token === `-${flag.alias}`));
+}
+
+/**
+ * Arguments and flags that apply after the given subcommand (or to the command itself)
+ */
+export function getArgumentSpecs(definition: CommandDefinition, subcommand?: CommandSubcommand): { args: CommandArgument[]; flags: CommandFlag[] } {
+  return {
+    args: subcommand ? subcommand.args || [] : definition.args || [],
+    flags: [...(definition.flags || []), ...(subcommand?.flags || [])]
+  };
+}
+
+/**
+ * Parse the text after a slash command against its declared subcommands, arguments and flags.
+ * Flags are only recognized before a rest argument, and `--` ends flag parsing.
+ */
+export function parseArguments(definition: CommandDefinition, raw: string): ParsedArgs {
+  const tokens = tokenize(raw);
+  let index = 0;
+
+  const subcommand = tokens.length > 0 && !tokens[0].quoted ? findSubcommand(definition, tokens[0].value) : undefined;
+  if (subcommand) {
+    index = 1;
+  }
+
+  const specs = getArgumentSpecs(definition, subcommand);
+  const parsed: ParsedArgs = {
+    raw: raw.trim(),
+    subcommand: subcommand?.name,
+    text: index < tokens.length ? raw.slice(tokens[index].start).trim() : '',
+    positional: [],
+    named: {},
+    flags: {}
+  };
+
+  let flagsEnded = false;
+  for (; index < tokens.length; index++) {
+    const token = tokens[index];
+    const spec = specs.args[parsed.positional.length];
+
+    if (!flagsEnded && !token.quoted && token.value.startsWith('-')) {
+      if (token.value === '--') {
+        flagsEnded = true;
+        continue;
+      }
+      const separator = token.value.indexOf('=');
+      const flag = findFlag(specs.flags, separator > 0 ? token.value.substring(0, separator) : token.value);
+      if (flag) {
+        if (!flag.takesValue) {
+          parsed.flags[flag.name] = true;
+        } else if (separator > 0) {
+          parsed.flags[flag.name] = token.value.substring(separator + 1);
+        } else {
+          parsed.flags[flag.name] = tokens[index + 1]?.value ?? '';
+          index++;
+        }
+        continue;
+      }
+    }
+
+    if (spec?.rest) {
+      const remaining = tokens.slice(index);
+      // A single quoted string loses its quotes, anything else is kept as typed
+      parsed.named[spec.name] = remaining.length === 1 ? token.value : raw.slice(token.start).trim();
+      parsed.positional.push(...remaining.map(rest => rest.value));
+      break;
+    }
+
+    if (spec) {
+      parsed.named[spec.name] = token.value;
+    }
+    parsed.positional.push(token.value);
+  }
+
+  return parsed;
+}
+
+function formatArgument(arg: CommandArgument): string {
+  const name = arg.rest ? `${arg.name}...` : arg.name;
+  return arg.required ? `<${name}>` : `[${name}]`;
+}
+
+function formatFlag(flag: CommandFlag): string {
+  return `[--${flag.name}${flag.takesValue ? ` <${flag.name}>` : ''}]`;
+}
+
+function joinUsage(parts: string[]): string {
+  return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * One-line usage, e.g. "/agent [name]" or "/memory [show|add|edit|reload]"
+ */
+export function formatUsage(definition: CommandDefinition): string {
+  const { args, flags } = getArgumentSpecs(definition);
+  const subcommands = definition.subcommands?.length ? `[${definition.subcommands.map(subcommand => subcommand.name).join('|')}]` : '';
+  return joinUsage([`/${definition.command}`, subcommands, ...flags.map(formatFlag), ...args.map(formatArgument)]);
+}
+
+export function formatSubcommandUsage(definition: CommandDefinition, subcommand: CommandSubcommand): string {
+  const { args, flags } = getArgumentSpecs(definition, subcommand);
+  return joinUsage([`/${definition.command}`, subcommand.name, ...flags.map(formatFlag), ...args.map(formatArgument)]);
+}
+
+/**
+ * Full usage for /help <command>, generated from the declared schema
+ */
+export function formatCommandHelp(definition: CommandDefinition): string {
+  let content = `**${formatUsage(definition)}**\n${definition.description}\n`;
+  if (definition.aliases?.length) {
+    content += `\nAliases: ${definition.aliases.map(alias => `\`/${alias}\``).join(', ')}\n`;
+  }
+
+  if (definition.subcommands?.length) {
+    content += '\n**Subcommands:**\n';
+    for (const subcommand of definition.subcommands) {
+      const aliases = subcommand.aliases?.length ? ` (${subcommand.aliases.join(', ')})` : '';
+      content += `• \`${formatSubcommandUsage(definition, subcommand)}\`${aliases} - ${subcommand.description}\n`;
+    }
+  }
+
+  const args = [...(definition.args || []), ...(definition.subcommands || []).flatMap(subcommand => subcommand.args || [])];
+  const described = args.filter((arg, index) => arg.description && args.findIndex(other => other.name === arg.name) === index);
+  if (described.length > 0) {
+    content += '\n**Arguments:**\n';
+    for (const arg of described) {
+      content += `• \`${arg.name}\` - ${arg.description}\n`;
+    }
+  }
+
+  const flags = [...(definition.flags || []), ...(definition.subcommands || []).flatMap(subcommand => subcommand.flags || [])];
+  if (flags.length > 0) {
+    content += '\n**Flags:**\n';
+    for (const flag of flags) {
+      content += `• \`--${flag.name}\`${flag.alias ? ` (\`-${flag.alias}\`)` : ''}${flag.description ? ` - ${flag.description}` : ''}\n`;
+    }
+  }
+  return content;
+}
+
+/**
+ * Error for input that doesn't fit the schema, or null when the handler can run
+ */
+export function validateArguments(definition: CommandDefinition, parsed: ParsedArgs): string | null {
+  // Commands with subcommands and no arguments of their own take nothing else first
+  if (definition.subcommands?.length && !definition.args?.length && !parsed.subcommand && parsed.positional.length > 0) {
+    return `Unknown subcommand for /${definition.command}: ${parsed.positional[0]}`;
+  }
+
+  const subcommand = parsed.subcommand ? findSubcommand(definition, parsed.subcommand) : undefined;
+  const missing = getArgumentSpecs(definition, subcommand).args.find(arg => arg.required && !parsed.named[arg.name]);
+  if (missing) {
+    return `Missing ${missing.name}`;
+  }
+  return null;
+}
@@ -1,24 +1,75 @@
-import { Agent } from '../core/agent.js';
+import { Agent, ChatRunOptions } from '../core/agent.js';
 
 export interface CommandContext {
   addMessage: (message: any) => void;
   clearHistory: () => void;
   setShowLogin: (show: boolean) => void;
   setShowModelSelector?: (show: boolean) => void;
+  setShowSessionPicker?: (show: boolean) => void;
+  loadConversation?: (history: Array<{ role: 'user' | 'assistant'; content: string }>) => void;
   toggleReasoning?: () => void;
   showReasoning?: boolean;
+  sendMessage?: (message: string, options?: ChatRunOptions) => Promise<void>;
+  // Run something that takes over the terminal, like an editor, with the UI's raw mode off
+  suspendTerminal?: <T>(run: () => T) => T;
   agent?: Agent;
 }
 
+/**
+ * Where argument completions come from, or a fixed list of values
+ */
+export type CompletionSource = 'agents' | 'models' | 'sessions' | 'files' | 'providers' | 'commands' | 'mcpServers' | string[];
+
+export interface CommandArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+  // Takes the rest of the input as typed, spaces included (prompts, titles, notes)
+  rest?: boolean;
+  complete?: CompletionSource;
+}
+
+export interface CommandFlag {
+  name: string;
+  alias?: string;
+  description?: string;
+  // --name <value> or --name=value instead of a boolean switch
+  takesValue?: boolean;
+}
+
+export interface CommandSubcommand {
+  name: string;
+  aliases?: string[];
+  description: string;
+  args?: CommandArgument[];
+  flags?: CommandFlag[];
+}
+
+export interface ParsedArgs {
+  // Everything after the command name
+  raw: string;
+  // Canonical name of the matched subcommand
+  subcommand?: string;
+  // Everything after the command and subcommand, as typed
+  text: string;
+  positional: string[];
+  // Declared arguments by name; a rest argument holds the remaining text
+  named: Record<string, string>;
+  flags: Record<string, string | boolean>;
+}
+
 export interface CommandDefinition {
   command: string;
   aliases?: string[];
   description: string;
-  handler: (context: CommandContext) => void;
+  args?: CommandArgument[];
+  flags?: CommandFlag[];
+  subcommands?: CommandSubcommand[];
+  handler: (context: CommandContext, args: ParsedArgs) => void;
 }
 
 export abstract class BaseCommand implements CommandDefinition {
   abstract command: string;
   abstract description: string;
-  abstract handler(context: CommandContext): void;
-}
\ No newline at end of file
+  abstract handler(context: CommandContext, args: ParsedArgs): void;
+}
@@ -0,0 +1,251 @@
+import fs from 'fs';
+import path from 'path';
+import { CommandDefinition, CompletionSource } from './base.js';
+import { tokenize, findSubcommand, findFlag, getArgumentSpecs, formatUsage, formatSubcommandUsage } from './arguments.js';
+import { getAvailableCommands } from './index.js';
+import { AgentManager } from '../utils/agent-manager.js';
+import { SessionManager } from '../utils/session-manager.js';
+import { ConfigManager } from '../utils/local-settings.js';
+import { getAvailableProviders } from '../providers/index.js';
+import { getWorkspaceRoot } from '../tools/workspace.js';
+import { McpManager } from '../tools/mcp-manager.js';
+import { IgnoreRules } from '../utils/ignore-rules.js';
+import { logger } from '../utils/logger.js';
+
+const MAX_ARGUMENT_SUGGESTIONS = 10;
+
+export interface SlashSuggestion {
+  // Input after accepting the suggestion
+  value: string;
+  label: string;
+  description?: string;
+}
+
+export interface SlashSuggestions {
+  kind: 'command' | 'argument' | 'mention';
+  // Word being completed, empty right after a space
+  partial: string;
+  // Usage of the command or subcommand being typed
+  hint?: string;
+  items: SlashSuggestion[];
+}
+
+interface CompletionItem {
+  value: string;
+  description?: string;
+  // Also matched anywhere, not only as a prefix (model ids, session titles)
+  search?: string;
+}
+
+// Model ids take a network round trip, so they are loaded once in the background
+let modelLoader: (() => Promise<string[]>) | null = null;
+let loadedModels: string[] = [];
+let modelsRequested = false;
+const listeners = new Set<() => void>();
+
+/**
+ * Set how model ids are fetched for /model completions; the list is loaded on first use
+ */
+export function setModelCompletionLoader(loader: () => Promise<string[]>): void {
+  modelLoader = loader;
+  loadedModels = [];
+  modelsRequested = false;
+}
+
+/**
+ * Listen for completions that arrived asynchronously, returns the unsubscribe function
+ */
+export function onCompletionsUpdated(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getModelIds(): string[] {
+  if (modelLoader && !modelsRequested) {
+    modelsRequested = true;
+    modelLoader()
+      .then(models => {
+        loadedModels = models;
+        listeners.forEach(listener => listener());
+      })
+      .catch(error => logger.debug('Failed to load models for completion', error));
+  }
+
+  // Models from the config are known without asking the providers
+  const config = new ConfigManager();
+  const configured = config.getOpenAIEndpoints().flatMap(endpoint => endpoint.models || []);
+  const defaultModel = config.getDefaultModel();
+  return [...new Set([...loadedModels, ...configured, ...(defaultModel ? [defaultModel] : [])])];
+}
+
+function completeFiles(partial: string): CompletionItem[] {
+  const directoryPart = partial.includes('/') ? partial.substring(0, partial.lastIndexOf('/') + 1) : '';
+  const base = partial.substring(directoryPart.length);
+  const directory = path.resolve(getWorkspaceRoot(), directoryPart || '.');
+
+  try {
+    // Ignored files aren't offered, unless the user has already gone into an ignored directory
+    const ignoreRules = new IgnoreRules(directory);
+    const filterIgnored = !ignoreRules.isIgnored(directory, true);
+    return fs.readdirSync(directory, { withFileTypes: true })
+      .filter(entry => entry.name.startsWith(base) && (base.startsWith('.') || !entry.name.startsWith('.')))
+      .filter(entry => !filterIgnored || !ignoreRules.isIgnored(path.join(directory, entry.name), entry.isDirectory()))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(entry => ({ value: `${directoryPart}${entry.name}${entry.isDirectory() ? '/' : ''}` }));
+  } catch {
+    return [];
+  }
+}
+
+function getCompletionItems(source: CompletionSource, partial: string): CompletionItem[] {
+  if (Array.isArray(source)) {
+    return source.map(value => ({ value }));
+  }
+
+  switch (source) {
+    case 'agents':
+      return AgentManager.getInstance().listAgents().map(agent => ({ value: agent.name, description: agent.description }));
+    case 'sessions':
+      return SessionManager.getInstance().listSessions().map(session => ({
+        value: session.id,
+        description: session.title,
+        search: session.title
+      }));
+    case 'providers':
+      return [
+        ...getAvailableProviders().map(provider => ({ value: provider as string })),
+        ...new ConfigManager().getOpenAIEndpoints().map(endpoint => ({ value: endpoint.name, description: endpoint.baseUrl }))
+      ];
+    case 'models':
+      return getModelIds().map(id => ({ value: id, search: id }));
+    case 'commands':
+      return getAvailableCommands().map(command => ({ value: command.command, description: command.description }));
+    case 'files':
+      return completeFiles(partial);
+    case 'mcpServers':
+      return [...McpManager.getInstance().loadServerConfigs()].map(([name, { scope }]) => ({ value: name, description: scope }));
+  }
+}
+
+function matches(item: CompletionItem, partial: string): boolean {
+  const lower = partial.toLowerCase();
+  return item.value.toLowerCase().startsWith(lower) || (item.search?.toLowerCase().includes(lower) ?? false);
+}
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function takesArguments(definition: CommandDefinition): boolean {
+  return Boolean(definition.args?.length || definition.flags?.length || definition.subcommands?.length);
+}
+
+function suggestCommands(input: string): SlashSuggestions {
+  const searchTerm = input.slice(1).toLowerCase();
+  const items = getAvailableCommands()
+    .filter(command => command.command.toLowerCase().includes(searchTerm))
+    .map(command => ({
+      value: `/${command.command}${takesArguments(command) ? ' ' : ''}`,
+      label: `/${command.command}`,
+      description: command.description
+    }));
+  return { kind: 'command', partial: searchTerm, items };
+}
+
+/**
+ * Suggestions for the slash command being typed: command names first, then
+ * subcommands, flags and argument values from the command's declared schema
+ */
+export function getSlashSuggestions(input: string): SlashSuggestions {
+  const spaceIndex = input.search(/\s/);
+  if (spaceIndex === -1) {
+    return suggestCommands(input);
+  }
+
+  const name = input.substring(1, spaceIndex).toLowerCase();
+  const definition = getAvailableCommands().find(command => command.command === name || command.aliases?.includes(name));
+  if (!definition) {
+    return { kind: 'argument', partial: '', items: [] };
+  }
+
+  const raw = input.substring(spaceIndex + 1);
+  const tokens = tokenize(raw);
+  const atNewWord = raw.length === 0 || /\s$/.test(raw);
+  const partialToken = atNewWord ? undefined : tokens[tokens.length - 1];
+  const completed = atNewWord ? tokens : tokens.slice(0, -1);
+  const partial = partialToken?.value ?? '';
+  const prefix = partialToken ? input.substring(0, spaceIndex + 1 + partialToken.start) : input;
+
+  const suggest = (items: CompletionItem[], hint: string, finish: (item: CompletionItem) => string = item => item.value): SlashSuggestions => ({
+    kind: 'argument',
+    partial,
+    hint,
+    items: items
+      .filter(item => matches(item, partial))
+      .slice(0, MAX_ARGUMENT_SUGGESTIONS)
+      .map(item => ({ value: `${prefix}${finish(item)}`, label: item.value, description: item.description }))
+  });
+
+  // First word of a command with subcommands
+  if (definition.subcommands?.length && completed.length === 0 && !partialToken?.quoted) {
+    const subcommands = definition.subcommands.map(subcommand => ({ value: subcommand.name, description: subcommand.description }));
+    return suggest(subcommands, formatUsage(definition), item => {
+      const subcommand = findSubcommand(definition, item.value);
+      return `${item.value}${subcommand?.args?.length || subcommand?.flags?.length ? ' ' : ''}`;
+    });
+  }
+
+  const subcommand = completed.length > 0 && !completed[0].quoted ? findSubcommand(definition, completed[0].value) : undefined;
+  const specs = getArgumentSpecs(definition, subcommand);
+  const hint = subcommand ? formatSubcommandUsage(definition, subcommand) : formatUsage(definition);
+
+  // Count the arguments already typed, skipping flags and their values
+  let position = 0;
+  for (let index = subcommand ? 1 : 0; index < completed.length; index++) {
+    const flag = findFlag(specs.flags, completed[index].value);
+    if (flag) {
+      index += flag.takesValue ? 1 : 0;
+      continue;
+    }
+    if (specs.args[position]?.rest) {
+      return { kind: 'argument', partial, hint, items: [] };
+    }
+    position++;
+  }
+
+  if (partial.startsWith('-')) {
+    const used = new Set(completed.map(token => token.value));
+    const flags = specs.flags
+      .filter(flag => !used.has(`--${flag.name}`))
+      .map(flag => ({ value: `--${flag.name}`, description: flag.description }));
+    return suggest(flags, hint, item => `${item.value} `);
+  }
+
+  const source = specs.args[position]?.complete;
+  if (!source) {
+    return { kind: 'argument', partial, hint, items: [] };
+  }
+  return suggest(getCompletionItems(source, partial), hint, item => item.value.endsWith('/') ? item.value : `${quoteIfNeeded(item.value)} `);
+}
+
+/**
+ * Files for an @mention being typed at the end of a prompt
+ */
+export function getMentionSuggestions(input: string): SlashSuggestions | null {
+  const match = input.match(/(^|\s)@([^\s"]*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const partial = match[2];
+  const prefix = input.substring(0, input.length - partial.length);
+  const items = completeFiles(partial)
+    .slice(0, MAX_ARGUMENT_SUGGESTIONS)
+    .map(item => ({
+      value: item.value.endsWith('/') ? `${prefix}${item.value}` : `${prefix}${/\s/.test(item.value) ? `"${item.value}"` : item.value} `,
+      label: item.value
+    }));
+  return { kind: 'mention', partial, hint: '@path attaches a file or image', items };
+}
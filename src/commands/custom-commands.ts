@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { CommandDefinition, CommandContext, ParsedArgs } from './base.js';
+import { splitArguments } from './arguments.js';
+import { AgentManager } from '../utils/agent-manager.js';
+import { logger } from '../utils/logger.js';
+import { getWorkspaceRoot } from '../tools/workspace.js';
+import type { ChatRunOptions } from '../core/agent.js';
+
+export type CustomCommandScope = 'project' | 'global';
+
+/**
+ * A prompt template loaded from .groq/commands/<name>.md
+ */
+export interface CustomCommand {
+  name: string;
+  scope: CustomCommandScope;
+  filePath: string;
+  description?: string;
+  // Agent profile whose system prompt is used while the command runs
+  agent?: string;
+  model?: string;
+  allowedTools?: string[];
+  template: string;
+}
+
+const COMMAND_NAME = /^[a-z0-9][a-z0-9_-]*$/;
+
+// Parsed files by path, re-read only when the file changes
+const cache = new Map<string, { mtimeMs: number; command: CustomCommand | null }>();
+
+export function getCustomCommandsDir(scope: CustomCommandScope): string {
+  return scope === 'project'
+    ? path.join(getWorkspaceRoot(), '.groq', 'commands')
+    : path.join(os.homedir(), '.groq', 'commands');
+}
+
+/**
+ * Split "---" frontmatter of simple "key: value" lines from the template body
+ */
+function parseFrontmatter(source: string): { attributes: Record<string, string>; body: string } {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { attributes: {}, body: source };
+  }
+
+  const attributes: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      attributes[line.substring(0, separator).trim().toLowerCase()] = line.substring(separator + 1).trim().replace(/^["']|["']$/g, '');
+    }
+  }
+  return { attributes, body: source.substring(match[0].length) };
+}
+
+function parseCommandFile(filePath: string, scope: CustomCommandScope): CustomCommand | null {
+  const name = path.basename(filePath, '.md').toLowerCase();
+  if (!COMMAND_NAME.test(name)) {
+    logger.warn(`Ignoring custom command with invalid name: ${filePath}`);
+    return null;
+  }
+
+  const { attributes, body } = parseFrontmatter(fs.readFileSync(filePath, 'utf8'));
+  const allowedTools = attributes['allowed-tools']
+    ?.replace(/^\[|\]$/g, '')
+    .split(/[\s,]+/)
+    .map(tool => tool.replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+
+  return {
+    name,
+    scope,
+    filePath,
+    description: attributes.description || undefined,
+    agent: attributes.agent || undefined,
+    model: attributes.model || undefined,
+    allowedTools: allowedTools && allowedTools.length > 0 ? allowedTools : undefined,
+    template: body.trim()
+  };
+}
+
+function readCommandsDir(scope: CustomCommandScope): CustomCommand[] {
+  const directory = getCustomCommandsDir(scope);
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(directory).filter(entry => entry.endsWith('.md'));
+  } catch {
+    return [];
+  }
+
+  const commands: CustomCommand[] = [];
+  for (const entry of entries) {
+    const filePath = path.join(directory, entry);
+    try {
+      const { mtimeMs } = fs.statSync(filePath);
+      let cached = cache.get(filePath);
+      if (!cached || cached.mtimeMs !== mtimeMs) {
+        cached = { mtimeMs, command: parseCommandFile(filePath, scope) };
+        cache.set(filePath, cached);
+      }
+      if (cached.command) {
+        commands.push(cached.command);
+      }
+    } catch (error) {
+      logger.warn(`Failed to load custom command ${filePath}`, error);
+    }
+  }
+  return commands;
+}
+
+/**
+ * Fill $ARGUMENTS with the whole argument string and $1, $2... with single arguments.
+ * Templates without placeholders get the arguments appended.
+ */
+export function expandTemplate(template: string, args: string): string {
+  const positional = splitArguments(args);
+  let usedPlaceholder = false;
+  const expanded = template.replace(/\$(ARGUMENTS|\d+)/g, (_match, key: string) => {
+    usedPlaceholder = true;
+    return key === 'ARGUMENTS' ? args : positional[parseInt(key, 10) - 1] ?? '';
+  });
+  return !usedPlaceholder && args ? `${expanded}\n\n${args}` : expanded;
+}
+
+function toCommandDefinition(custom: CustomCommand): CommandDefinition {
+  return {
+    command: custom.name,
+    description: `${custom.description || custom.template.split('\n')[0].substring(0, 60)} (${custom.scope})`,
+    args: [{ name: 'arguments', rest: true, description: 'Text for $ARGUMENTS, $1, $2...' }],
+    handler: async (context: CommandContext, args: ParsedArgs) => {
+      const { addMessage, sendMessage } = context;
+      if (!sendMessage) {
+        addMessage({
+          role: 'system',
+          content: `❌ /${custom.name} can't run here: sending messages to the agent is not available.`,
+        });
+        return;
+      }
+
+      const options: ChatRunOptions = {
+        model: custom.model,
+        allowedTools: custom.allowedTools
+      };
+      if (custom.agent) {
+        const profile = AgentManager.getInstance().loadAgent(custom.agent);
+        if (!profile) {
+          addMessage({
+            role: 'system',
+            content: `❌ /${custom.name} uses agent '${custom.agent}', which doesn't exist.\n\nUse \`/agents\` to see available agents or fix \`${custom.filePath}\`.`,
+          });
+          return;
+        }
+        options.systemPrompt = profile.systemPrompt;
+      }
+
+      await sendMessage(expandTemplate(custom.template, args.raw), options);
+    }
+  };
+}
+
+/**
+ * Commands from ~/.groq/commands and <project>/.groq/commands. Project commands
+ * replace global ones with the same name; neither can replace a built-in command.
+ */
+export function loadCustomCommands(builtIns: CommandDefinition[]): CommandDefinition[] {
+  const reserved = new Set(builtIns.flatMap(command => [command.command, ...(command.aliases || [])]));
+  const byName = new Map<string, CustomCommand>();
+  for (const custom of [...readCommandsDir('global'), ...readCommandsDir('project')]) {
+    if (!reserved.has(custom.name)) {
+      byName.set(custom.name, custom);
+    }
+  }
+  return [...byName.values()]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(toCommandDefinition);
+}
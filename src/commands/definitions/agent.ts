@@ -1,12 +1,30 @@
-import { CommandDefinition, CommandContext } from '../base.js';
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
 import { AgentManager } from '../../utils/agent-manager.js';
+import { describeRoutes } from '../../core/model-router.js';
 
 export const agentCommand: CommandDefinition = {
   command: 'agent',
   description: 'Switch to a different agent or manage agents',
   aliases: ['a'],
-  handler: ({ addMessage }: CommandContext) => {
+  args: [{ name: 'name', description: 'Agent to switch to, lists agents when omitted', complete: 'agents' }],
+  handler: ({ addMessage }: CommandContext, { named }: ParsedArgs) => {
     const agentManager = AgentManager.getInstance();
+    if (named.name) {
+      const agentName = named.name.toLowerCase();
+      if (agentManager.setCurrentAgent(agentName)) {
+        addMessage({
+          role: 'system',
+          content: `🤖 Switched to agent: **${agentName}**\n\nYou are now using the ${agentName} agent profile. Use \`/agents\` to see all available agents.`,
+        });
+      } else {
+        addMessage({
+          role: 'system',
+          content: `❌ Agent '${agentName}' not found.\n\nUse \`/agents\` to see available agents or \`/agent-create ${agentName} "prompt"\` to create it.`,
+        });
+      }
+      return;
+    }
+
     const agents = agentManager.listAgents();
     const current = agentManager.getCurrentAgent();
 
@@ -55,6 +73,9 @@ export const agentsCommand: CommandDefinition = {
       if (agent.temperature !== undefined) {
         agentList += `   Temperature: ${agent.temperature} | Model: ${agent.model || 'default'}\n`;
       }
+      if (describeRoutes(agent.routes).length > 0) {
+        agentList += `   Routes: ${describeRoutes(agent.routes).join(', ')}\n`;
+      }
       if (agent.lastUsed) {
         agentList += `   Last used: ${agent.lastUsed.toLocaleDateString()} at ${agent.lastUsed.toLocaleTimeString()}\n`;
       }
@@ -72,7 +93,27 @@ export const agentCreateCommand: CommandDefinition = {
   command: 'agent-create',
   description: 'Create a new agent with custom system prompt',
   aliases: ['ac'],
-  handler: ({ addMessage }: CommandContext) => {
+  args: [
+    { name: 'name', description: 'Name of the new agent' },
+    { name: 'prompt', rest: true, description: 'System prompt, quoted or as the rest of the line' }
+  ],
+  handler: ({ addMessage }: CommandContext, { named }: ParsedArgs) => {
+    if (named.name && named.prompt) {
+      const agent = AgentManager.getInstance().createAgent(named.name, named.prompt);
+      addMessage({
+        role: 'system',
+        content: `✅ Created agent: **${agent.name}**\n\n${agent.description}\n\nUse \`/agent ${agent.name}\` to switch to this agent.`,
+      });
+      return;
+    }
+    if (named.name) {
+      addMessage({
+        role: 'system',
+        content: `❌ Invalid format. Use: \`/agent-create <name> <prompt>\`\n\nExample: \`/agent-create security "You are a cybersecurity expert..."\``,
+      });
+      return;
+    }
+
     addMessage({
       role: 'system',
       content: `🤖 **Create New Agent**
@@ -102,7 +143,24 @@ export const agentDeleteCommand: CommandDefinition = {
   command: 'agent-delete',
   description: 'Delete a custom agent',
   aliases: ['ad'],
-  handler: ({ addMessage }: CommandContext) => {
+  args: [{ name: 'name', description: 'Custom agent to delete', complete: 'agents' }],
+  handler: ({ addMessage }: CommandContext, { named }: ParsedArgs) => {
+    if (named.name) {
+      const agentName = named.name.toLowerCase();
+      if (AgentManager.getInstance().deleteAgent(agentName)) {
+        addMessage({
+          role: 'system',
+          content: `🗑️ Deleted agent: **${agentName}**\n\nIf you were using this agent, you've been switched back to the default agent.`,
+        });
+      } else {
+        addMessage({
+          role: 'system',
+          content: `❌ Could not delete agent '${agentName}'. It may not exist or be undeletable (like 'default').\n\nUse \`/agents\` to see available agents.`,
+        });
+      }
+      return;
+    }
+
     addMessage({
       role: 'system',
       content: `🗑️ **Delete Agent**
@@ -123,7 +181,20 @@ export const systemCommand: CommandDefinition = {
   command: 'system',
   description: 'Set a temporary system prompt for the current session',
   aliases: ['sys'],
-  handler: ({ addMessage }: CommandContext) => {
+  args: [{ name: 'prompt', rest: true, description: 'System prompt for this session' }],
+  handler: ({ addMessage, clearHistory }: CommandContext, { named }: ParsedArgs) => {
+    if (named.prompt) {
+      AgentManager.getInstance().setTemporarySystemPrompt(named.prompt);
+      addMessage({
+        role: 'system',
+        content: `⚙️ **Temporary system prompt set for this session**\n\n✨ Your custom prompt is now active and will be used for all subsequent interactions.\n\nUse \`/system-reset\` to return to default, or \`/agent-create\` to save this as a permanent agent.`,
+      });
+
+      // Important: Clear history so new prompt takes effect
+      clearHistory();
+      return;
+    }
+
     addMessage({
       role: 'system',
       content: `⚙️ **Temporary System Prompt**
@@ -173,7 +244,33 @@ export const agentExportCommand: CommandDefinition = {
   command: 'agent-export',
   description: 'Export an agent to a file',
   aliases: ['ae'],
-  handler: ({ addMessage }: CommandContext) => {
+  args: [
+    { name: 'name', description: 'Agent to export', complete: 'agents' },
+    { name: 'file', description: 'JSON file to write', complete: 'files' }
+  ],
+  handler: ({ addMessage }: CommandContext, { named }: ParsedArgs) => {
+    if (named.name && named.file) {
+      if (AgentManager.getInstance().exportAgent(named.name, named.file)) {
+        addMessage({
+          role: 'system',
+          content: `📤 **Agent exported successfully**\n\nAgent '${named.name}' has been saved to: \`${named.file}\`\n\nYou can now share this file or import it on another machine using \`/agent-import ${named.file}\`.`,
+        });
+      } else {
+        addMessage({
+          role: 'system',
+          content: `❌ Could not export agent '${named.name}'. Agent may not exist.\n\nUse \`/agents\` to see available agents.`,
+        });
+      }
+      return;
+    }
+    if (named.name) {
+      addMessage({
+        role: 'system',
+        content: `❌ Invalid format. Use: \`/agent-export <agent_name> <file_path>\`\n\nExample: \`/agent-export reviewer ./my-agent.json\``,
+      });
+      return;
+    }
+
     addMessage({
       role: 'system',
       content: `📤 **Export Agent**
@@ -202,7 +299,24 @@ export const agentImportCommand: CommandDefinition = {
   command: 'agent-import',
   description: 'Import an agent from a file',
   aliases: ['ai'],
-  handler: ({ addMessage }: CommandContext) => {
+  args: [{ name: 'file', description: 'Exported agent JSON file', complete: 'files' }],
+  handler: ({ addMessage }: CommandContext, { named }: ParsedArgs) => {
+    if (named.file) {
+      const agent = AgentManager.getInstance().importAgent(named.file);
+      if (agent) {
+        addMessage({
+          role: 'system',
+          content: `📥 **Agent imported successfully**\n\nAgent '${agent.name}' has been imported: ${agent.description}\n\nUse \`/agent ${agent.name}\` to switch to this agent.`,
+        });
+      } else {
+        addMessage({
+          role: 'system',
+          content: `❌ Could not import agent from '${named.file}'. File may not exist or have invalid format.\n\nExpected JSON format with required fields: name, systemPrompt, description.`,
+        });
+      }
+      return;
+    }
+
     addMessage({
       role: 'system',
       content: `📥 **Import Agent**
@@ -0,0 +1,136 @@
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
+import { Agent } from '../../core/agent.js';
+
+const PREVIEW_LENGTH = 60;
+
+function preview(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > PREVIEW_LENGTH ? `${singleLine.substring(0, PREVIEW_LENGTH - 1)}…` : singleLine;
+}
+
+/**
+ * Rewindable turns with the file changes recorded during each
+ */
+function describeCheckpoints(agent: Agent): string {
+  const turns = agent.getTurns();
+  if (turns.length === 0) {
+    return 'No turns yet. File changes made by tools are recorded here as the agent works.';
+  }
+
+  const checkpoints = agent.getCheckpoints();
+  let content = '';
+  for (const { turn, content: prompt } of turns) {
+    content += `**Turn ${turn}**: ${preview(prompt)}\n`;
+    const turnCheckpoints = checkpoints.filter(checkpoint => checkpoint.turn === turn);
+    if (turnCheckpoints.length === 0) {
+      content += '   no file changes\n';
+    }
+    for (const checkpoint of turnCheckpoints) {
+      content += `   • #${checkpoint.id} ${checkpoint.toolName} \`${checkpoint.target}\` (${checkpoint.createdAt.toLocaleTimeString()})\n`;
+    }
+  }
+  return content;
+}
+
+export const checkpointsCommand: CommandDefinition = {
+  command: 'checkpoints',
+  aliases: ['cp'],
+  description: 'List file changes recorded for each turn',
+  handler: ({ addMessage, agent }: CommandContext) => {
+    if (!agent) {
+      addMessage({
+        role: 'system',
+        content: '❌ Agent not available for checkpoints.',
+      });
+      return;
+    }
+
+    addMessage({
+      role: 'system',
+      content: `🕓 **Checkpoints**\n\n${describeCheckpoints(agent)}\n\nUse \`/undo\` to revert the last change or \`/rewind <turn>\` to go back to before a turn.`,
+    });
+  }
+};
+
+export const undoCommand: CommandDefinition = {
+  command: 'undo',
+  description: 'Revert the last file change made by a tool',
+  handler: async ({ addMessage, agent }: CommandContext) => {
+    if (!agent) {
+      addMessage({
+        role: 'system',
+        content: '❌ Agent not available for undo.',
+      });
+      return;
+    }
+
+    try {
+      const checkpoint = await agent.undoLastChange();
+      if (!checkpoint) {
+        addMessage({
+          role: 'system',
+          content: 'Nothing to undo: no file changes have been recorded in this conversation.',
+        });
+        return;
+      }
+
+      const remaining = agent.getCheckpoints().length;
+      addMessage({
+        role: 'system',
+        content: `↩️ Reverted ${checkpoint.toolName} on \`${checkpoint.target}\` (turn ${checkpoint.turn}).${remaining > 0 ? ` ${remaining} earlier change(s) can still be undone.` : ''}`,
+      });
+    } catch (error) {
+      addMessage({
+        role: 'system',
+        content: `❌ Failed to undo: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+};
+
+export const rewindCommand: CommandDefinition = {
+  command: 'rewind',
+  description: 'Restore files and conversation to before a turn',
+  args: [{ name: 'turn', description: 'Turn number from /checkpoints' }],
+  handler: async (context: CommandContext, { named }: ParsedArgs) => {
+    const { addMessage, agent } = context;
+    if (!agent) {
+      addMessage({
+        role: 'system',
+        content: '❌ Agent not available for rewind.',
+      });
+      return;
+    }
+
+    if (!/^\d+$/.test(named.turn || '')) {
+      addMessage({
+        role: 'system',
+        content: `⏪ **Rewind**\n\nUsage: \`/rewind <turn>\` restores the files changed since that turn started and removes it and every later turn from the conversation.\n\n${describeCheckpoints(agent)}`,
+      });
+      return;
+    }
+
+    const turn = parseInt(named.turn, 10);
+    try {
+      const restored = await agent.rewindToTurn(turn);
+      agent.saveCurrentSession();
+
+      // Redraw the chat from the truncated conversation
+      if (context.loadConversation) {
+        context.loadConversation(agent.getDisplayHistory());
+      }
+
+      const files = [...new Set(restored.map(checkpoint => checkpoint.target))];
+      addMessage({
+        role: 'system',
+        content: `⏪ Rewound to before turn ${turn}.` +
+          (files.length > 0 ? `\n\nRestored ${files.length} file(s):\n${files.map(file => `• \`${file}\``).join('\n')}` : '\n\nNo file changes needed restoring.'),
+      });
+    } catch (error) {
+      addMessage({
+        role: 'system',
+        content: `❌ Failed to rewind: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+};
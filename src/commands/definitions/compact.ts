@@ -0,0 +1,55 @@
+import { CommandDefinition, CommandContext } from '../base.js';
+
+export const compactCommand: CommandDefinition = {
+  command: 'compact',
+  description: 'Summarize older conversation turns to free up context',
+  handler: async ({ addMessage, agent }: CommandContext) => {
+    if (!agent) {
+      addMessage({
+        role: 'system',
+        content: '❌ Agent not available for context compaction.',
+      });
+      return;
+    }
+
+    addMessage({
+      role: 'system',
+      content: '🗜️ Compacting conversation...',
+    });
+
+    try {
+      const result = await agent.compactHistory();
+
+      if (result.removedMessages === 0 && result.truncatedOutputs === 0) {
+        addMessage({
+          role: 'system',
+          content: 'Nothing to compact yet: the conversation only contains the latest turn.',
+        });
+        return;
+      }
+
+      let content = `✅ **Context compacted**: ~${result.tokensBefore} → ~${result.tokensAfter} tokens\n`;
+      if (result.removedMessages > 0) {
+        content += `• ${result.removedMessages} older messages ${result.summarized ? 'replaced by a summary' : 'removed (summary unavailable)'}\n`;
+      }
+      if (result.truncatedOutputs > 0) {
+        content += `• ${result.truncatedOutputs} large tool outputs truncated\n`;
+      }
+
+      const usage = agent.getContextUsage();
+      if (usage) {
+        content += `\nContext usage: ${Math.round((usage.usedTokens / usage.contextLength) * 100)}% of ${usage.contextLength} tokens`;
+      }
+
+      addMessage({
+        role: 'system',
+        content,
+      });
+    } catch (error) {
+      addMessage({
+        role: 'system',
+        content: `❌ Failed to compact conversation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+};
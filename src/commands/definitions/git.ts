@@ -0,0 +1,103 @@
+import path from 'path';
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
+import { runGit, getGitError, getRepositoryRoot, getWorkingTreeDiff, truncateGitOutput } from '../../tools/git.js';
+import { leavesDirectory } from '../../tools/workspace.js';
+
+// Tools the agent gets for /commit: reading the changes, then one approved git command
+const COMMIT_TOOLS = ['git_status', 'git_diff', 'git_log', 'read_file', 'execute_command'];
+
+function formatError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export const diffCommand: CommandDefinition = {
+  command: 'diff',
+  description: 'Show the working tree changes made in this session',
+  flags: [
+    { name: 'all', description: 'Show every uncommitted change, not only this session\'s' },
+    { name: 'stat', description: 'Only list changed files with line counts' }
+  ],
+  handler: async ({ addMessage, agent }: CommandContext, { flags }: ParsedArgs) => {
+    const root = await getRepositoryRoot();
+    if (!root) {
+      addMessage({
+        role: 'system',
+        content: '❌ Not inside a git repository.',
+      });
+      return;
+    }
+
+    // Files the agent created, edited or deleted, as recorded for /undo
+    const sessionPaths = [...new Set((agent?.getCheckpoints() || []).map(checkpoint => path.resolve(checkpoint.target)))]
+      .filter(filePath => !leavesDirectory(path.relative(root, filePath)));
+    if (!flags.all && sessionPaths.length === 0) {
+      addMessage({
+        role: 'system',
+        content: '📝 No files changed in this session. Use `/diff --all` to see every uncommitted change.',
+      });
+      return;
+    }
+
+    try {
+      const diff = await getWorkingTreeDiff({ paths: flags.all ? undefined : sessionPaths, stat: Boolean(flags.stat) });
+      const title = flags.all ? 'Uncommitted changes' : `Changes made in this session (${sessionPaths.length} file${sessionPaths.length === 1 ? '' : 's'})`;
+      addMessage({
+        role: 'system',
+        content: diff
+          ? `📝 **${title}**\n\n\`\`\`diff\n${truncateGitOutput(diff)}\n\`\`\``
+          : `📝 **${title}**\n\nNo differences from the last commit.`,
+      });
+    } catch (error) {
+      addMessage({
+        role: 'system',
+        content: `❌ Failed to read the diff: ${formatError(error)}`,
+      });
+    }
+  }
+};
+
+export const commitCommand: CommandDefinition = {
+  command: 'commit',
+  description: 'Have the agent write a commit message from the diff and commit after approval',
+  args: [{ name: 'instructions', description: 'What the message should mention, optional', rest: true }],
+  handler: async ({ addMessage, agent, sendMessage }: CommandContext, { named }: ParsedArgs) => {
+    if (!agent || !sendMessage) {
+      addMessage({
+        role: 'system',
+        content: '❌ Agent not available for /commit.',
+      });
+      return;
+    }
+
+    try {
+      const status = await runGit(['status', '--porcelain']);
+      if (status.exitCode !== 0) {
+        throw new Error(getGitError(status));
+      }
+      if (!status.stdout.trim()) {
+        addMessage({
+          role: 'system',
+          content: '✅ Nothing to commit, working tree clean.',
+        });
+        return;
+      }
+    } catch (error) {
+      addMessage({
+        role: 'system',
+        content: `❌ Cannot commit: ${formatError(error)}`,
+      });
+      return;
+    }
+
+    await sendMessage(
+      'Commit the current changes in this git repository. Check git_status, then read the staged changes with git_diff staged=true; ' +
+      'if nothing is staged, read all changes with git_diff, and new untracked files with read_file, as they will all be committed. Look at git_log for the style of recent commit messages. ' +
+      'Write a message in that style: a summary line under 72 characters and, only if the change needs it, a short body. ' +
+      'Then commit with a single execute_command call, `git commit -m "<summary>"` (plus `-m "<body>"` for a body), ' +
+      'prefixed with `git add -A && ` when nothing was staged. The user approves the command before it runs. ' +
+      'Do not change files, amend earlier commits or push.' +
+      (named.instructions ? `\n\nInstructions from the user for the message: ${named.instructions}` : ''),
+      { allowedTools: COMMIT_TOOLS }
+    );
+  }
+};
@@ -1,28 +1,30 @@
-import { CommandDefinition, CommandContext } from '../base.js';
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
 import { getAvailableCommands } from '../index.js';
+import { formatUsage, formatCommandHelp } from '../arguments.js';
 
 export const helpCommand: CommandDefinition = {
   command: 'help',
-  description: 'Show help and available commands',
-  handler: ({ addMessage }: CommandContext) => {
+  description: 'Show help and available commands, or the usage of one command',
+  args: [{ name: 'command', description: 'Command to show usage for', complete: 'commands' }],
+  handler: ({ addMessage }: CommandContext, { named }: ParsedArgs) => {
     const commands = getAvailableCommands();
+    if (named.command) {
+      const name = named.command.replace(/^\//, '').toLowerCase();
+      const command = commands.find(cmd => cmd.command === name || cmd.aliases?.includes(name));
+      addMessage({
+        role: 'system',
+        content: command ? formatCommandHelp(command) : `❌ Unknown command: /${name}\n\nUse \`/help\` to see available commands.`,
+      });
+      return;
+    }
+
     const commandList = commands.map(cmd => {
       const aliases = cmd.aliases ? ` (aliases: ${cmd.aliases.map(a => `/${a}`).join(', ')})` : '';
-      return `/${cmd.command}${aliases} - ${cmd.description}`;
+      return `${formatUsage(cmd)}${aliases} - ${cmd.description}`;
     }).join('\n');
     
     const agentCommandsHelp = `
 
-🤖 **Agent System Commands:**
-• \`/agent <name>\` - Switch to specific agent
-• \`/agents\` - List all available agents  
-• \`/agent-create <name> <prompt>\` - Create new agent
-• \`/agent-delete <name>\` - Delete custom agent
-• \`/system <prompt>\` - Set temporary system prompt
-• \`/system-reset\` - Reset to default prompt
-• \`/agent-export <name> <file>\` - Export agent to file
-• \`/agent-import <file>\` - Import agent from file
-
 🎯 **Pre-built Agents:**
 • \`reviewer\` - Code review specialist
 • \`architect\` - System design expert
@@ -35,10 +37,13 @@ export const helpCommand: CommandDefinition = {
       content: `Available Commands:
 ${commandList}${agentCommandsHelp}
 
+Use \`/help <command>\` for the subcommands, arguments and flags of a command.
+
 Navigation:
 - Use arrow keys to navigate chat history
 - Type '/' to see available slash commands
 - Use arrow keys to navigate slash command suggestions
+- Press Tab to complete the selected command, subcommand or argument
 - Press Enter to execute the selected command
 
 Keyboard Shortcuts:
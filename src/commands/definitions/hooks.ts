@@ -0,0 +1,69 @@
+import fs from 'fs';
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
+import { HookManager, HookScope, HOOK_EVENTS, MAX_STOP_HOOK_CONTINUATIONS } from '../../utils/hook-manager.js';
+import { trustProjectFile } from '../../utils/project-trust.js';
+
+export const hooksCommand: CommandDefinition = {
+  command: 'hooks',
+  description: 'Show the hooks that run around prompts and tool calls',
+  subcommands: [
+    { name: 'list', aliases: ['ls'], description: 'Show the project and global hooks' },
+    { name: 'trust', description: 'Trust the project\'s .groq/hooks.json as it is now and run its hooks' }
+  ],
+  handler: ({ addMessage }: CommandContext, { subcommand }: ParsedArgs) => {
+    const hookManager = HookManager.getInstance();
+
+    if (subcommand === 'trust') {
+      const hooksPath = hookManager.getHooksPath('project');
+      if (!fs.existsSync(hooksPath)) {
+        addMessage({
+          role: 'system',
+          content: `❌ No project hooks at ${hooksPath}.`,
+        });
+        return;
+      }
+      try {
+        trustProjectFile(hooksPath);
+      } catch (error) {
+        addMessage({
+          role: 'system',
+          content: `❌ Cannot trust ${hooksPath}: ${error instanceof Error ? error.message : error}`,
+        });
+        return;
+      }
+      addMessage({
+        role: 'system',
+        content: `🔓 Trusted ${hooksPath}, its hooks now run until the file changes.`,
+      });
+      return;
+    }
+
+    let content = '🪝 **Hooks**\n\n';
+    for (const scope of ['project', 'global'] as HookScope[]) {
+      const hooks = hookManager.getHooks(scope, true);
+      const untrusted = scope === 'project' && hookManager.hasUntrustedProjectHooks();
+      content += `**${scope === 'project' ? 'Project' : 'Global'}** (\`${hookManager.getHooksPath(scope)}\`)${untrusted ? ' 🔒 not trusted, these don\'t run until `/hooks trust`' : ''}\n`;
+      const events = HOOK_EVENTS.filter(event => hooks[event]?.length);
+      if (events.length === 0) {
+        content += '• No hooks\n';
+      }
+      for (const event of events) {
+        for (const hook of hooks[event]!) {
+          content += `• ${event}: ${hookManager.describeHook(hook)}\n`;
+        }
+      }
+      content += '\n';
+    }
+
+    content += '**Format:** `{"hooks": {"PostToolUse": [{"matcher": "edit_file|create_file", "command": "npx prettier --write \\"$GROQ_FILE_PATH\\""}]}}`\n';
+    content += `• Events: ${HOOK_EVENTS.map(event => `\`${event}\``).join(', ')}; \`matcher\` selects tools by name for tool events\n`;
+    content += '• Hooks get the event as JSON on stdin; exit code 2 blocks with stderr as the reason\n';
+    content += '• Print `{"decision": "block", "reason": "..."}` to block, `{"feedback": "..."}` to tell the model something, or `{"toolInput": {...}}` in PreToolUse to change the arguments\n';
+    content += `• Project hooks run only after \`/hooks trust\`, and again after the file changes; Stop hooks can send the agent back to work at most ${MAX_STOP_HOOK_CONTINUATIONS} times per prompt`;
+
+    addMessage({
+      role: 'system',
+      content,
+    });
+  }
+};
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
+import { McpManager, McpServerState, getMcpToolName } from '../../tools/mcp-manager.js';
+import { trustProjectFile } from '../../utils/project-trust.js';
+
+const STATUS_ICONS: Record<McpServerState['status'], string> = {
+  connecting: '⏳',
+  connected: '🟢',
+  failed: '🔴',
+  disabled: '⚪',
+  untrusted: '🔒'
+};
+
+function describeServer(server: McpServerState): string {
+  const target = server.config.url
+    ? `${server.config.url} (${server.config.transport === 'sse' ? 'SSE' : 'HTTP'})`
+    : [server.config.command, ...(server.config.args || [])].join(' ');
+  const info = server.serverInfo ? ` - ${server.serverInfo.name}${server.serverInfo.version ? ` ${server.serverInfo.version}` : ''}` : '';
+
+  let content = `${STATUS_ICONS[server.status]} **${server.name}** (${server.scope}, ${server.status})${info}\n`;
+  content += `  \`${target}\`\n`;
+  if (server.error) {
+    content += `  ❌ ${server.error}\n`;
+  }
+  if (server.status === 'untrusted') {
+    content += '  Not started: the project config runs commands on this machine, check it and use `/mcp trust`\n';
+  }
+  for (const tool of server.tools) {
+    const hint = tool.annotations?.readOnlyHint ? ' (read-only)' : tool.annotations?.destructiveHint ? ' (destructive)' : '';
+    content += `  • \`${getMcpToolName(server.name, tool.name)}\`${hint}${tool.description ? ` - ${tool.description.split('\n')[0]}` : ''}\n`;
+  }
+  return content;
+}
+
+function describeServers(): string {
+  const mcpManager = McpManager.getInstance();
+  const servers = mcpManager.getServers();
+
+  let content = '🔌 **MCP Servers**\n\n';
+  if (servers.length === 0) {
+    content += 'No MCP servers configured.\n\n';
+  }
+  for (const server of servers) {
+    content += `${describeServer(server)}\n`;
+  }
+
+  content += `**Configure** in \`${mcpManager.getProjectConfigPath()}\` or under \`mcpServers\` in ~/.groq/config.json:\n`;
+  content += '`{"mcpServers": {"github": {"command": "npx", "args": ["-y", "@modelcontextprotocol/server-github"], "env": {"GITHUB_TOKEN": "..."}}, "docs": {"url": "http://localhost:3000/mcp"}}}`\n';
+  content += '• Servers from the project config start only after `/mcp trust`, and again after the file changes\n';
+  content += '• Destructive tools always ask, the others ask unless auto-approved for the session\n';
+  content += '• Allow a whole server with a permission rule such as `{"tool": "mcp__github__*", "action": "allow"}`\n';
+  content += '• Use `/mcp reconnect [server]` after changing the config';
+  return content;
+}
+
+export const mcpCommand: CommandDefinition = {
+  command: 'mcp',
+  description: 'Show MCP servers, their status and tools',
+  subcommands: [
+    { name: 'list', aliases: ['ls'], description: 'Show servers, their status and tools' },
+    {
+      name: 'reconnect',
+      aliases: ['restart'],
+      description: 'Reload the config and reconnect all servers, or only one',
+      args: [{ name: 'server', complete: 'mcpServers' }]
+    },
+    { name: 'trust', description: 'Trust the project\'s .groq/mcp.json as it is now and start its servers' }
+  ],
+  handler: async ({ addMessage }: CommandContext, { subcommand, named }: ParsedArgs) => {
+    const mcpManager = McpManager.getInstance();
+
+    if (subcommand === 'trust') {
+      const configPath = mcpManager.getProjectConfigPath();
+      if (!fs.existsSync(configPath)) {
+        addMessage({
+          role: 'system',
+          content: `❌ No project MCP config at ${configPath}.`,
+        });
+        return;
+      }
+      try {
+        trustProjectFile(configPath);
+      } catch (error) {
+        addMessage({
+          role: 'system',
+          content: `❌ Cannot trust ${configPath}: ${error instanceof Error ? error.message : error}`,
+        });
+        return;
+      }
+      addMessage({
+        role: 'system',
+        content: `🔓 Trusted ${configPath}, starting its servers...`,
+      });
+      await mcpManager.restart();
+    } else if (subcommand === 'reconnect') {
+      addMessage({
+        role: 'system',
+        content: `🔌 Reconnecting ${named.server ? `MCP server '${named.server}'` : 'MCP servers'}...`,
+      });
+      try {
+        await mcpManager.restart(named.server);
+      } catch (error) {
+        addMessage({
+          role: 'system',
+          content: `❌ ${error instanceof Error ? error.message : 'Failed to reconnect'}`,
+        });
+        return;
+      }
+    } else {
+      // Servers may still be starting in the background
+      await mcpManager.start();
+    }
+
+    addMessage({
+      role: 'system',
+      content: describeServers(),
+    });
+  }
+};
@@ -0,0 +1,155 @@
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
+import { splitArguments } from '../arguments.js';
+import {
+  MEMORY_FILE,
+  MemoryScope,
+  loadMemoryFiles,
+  appendMemoryNote,
+  getProjectMemoryPath,
+  getUserMemoryPath
+} from '../../utils/project-memory.js';
+
+const PREVIEW_LENGTH = 1500;
+
+function describeMemory(): string {
+  const files = loadMemoryFiles();
+  if (files.length === 0) {
+    return `No memory files found. Create \`${MEMORY_FILE}\` with \`/init\` or \`/memory add <note>\`.\n`;
+  }
+
+  let content = '';
+  for (const file of files) {
+    const preview = file.content.length > PREVIEW_LENGTH ? `${file.content.substring(0, PREVIEW_LENGTH)}\n…` : file.content;
+    content += `**${file.scope === 'user' ? 'User' : 'Project'}** \`${file.path}\`${file.truncated ? ' (truncated in the prompt)' : ''}\n\`\`\`markdown\n${preview}\n\`\`\`\n`;
+  }
+  return content;
+}
+
+/**
+ * Open a memory file in $VISUAL/$EDITOR, blocking until the editor exits. The editor
+ * may come with arguments ("code --wait") but runs without a shell, so the path is
+ * passed as is.
+ */
+function editMemoryFile(filePath: string, scope: MemoryScope, suspendTerminal: NonNullable<CommandContext['suspendTerminal']>): string | null {
+  if (!fs.existsSync(filePath)) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `# ${scope === 'user' ? 'User' : 'Project'} memory\n`);
+  }
+
+  const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+  const [command, ...args] = splitArguments(editor);
+  if (!command) {
+    return 'no editor set in $VISUAL or $EDITOR';
+  }
+  const result = suspendTerminal(() => spawnSync(command, [...args, filePath], { stdio: 'inherit' }));
+  if (result.error || result.status !== 0) {
+    return result.error?.message || `${editor} exited with code ${result.status}`;
+  }
+  return null;
+}
+
+export const memoryCommand: CommandDefinition = {
+  command: 'memory',
+  aliases: ['mem'],
+  description: 'View or edit GROQ.md memory',
+  subcommands: [
+    { name: 'show', description: 'Show the memory files loaded into the system prompt' },
+    {
+      name: 'add',
+      description: 'Append a note to the project memory',
+      flags: [{ name: 'user', description: `Write to ${MEMORY_FILE} in ~/.groq instead` }],
+      args: [{ name: 'note', required: true, rest: true }]
+    },
+    {
+      name: 'edit',
+      description: 'Open the project memory in $VISUAL/$EDITOR',
+      flags: [{ name: 'user', description: `Write to ${MEMORY_FILE} in ~/.groq instead` }],
+      args: [{ name: 'scope', complete: ['user'] }]
+    },
+    { name: 'reload', description: 'Reload memory files into the system prompt' }
+  ],
+  handler: ({ addMessage, agent, suspendTerminal }: CommandContext, { subcommand, named, flags }: ParsedArgs) => {
+    switch (subcommand) {
+      case undefined:
+      case 'show':
+        addMessage({
+          role: 'system',
+          content: `🧠 **Memory**\n\n${describeMemory()}\nUse \`/memory add <note>\` to append a note, \`/memory edit\` to open the project file in your editor, or add \`--user\` / \`user\` for \`${getUserMemoryPath()}\`.`,
+        });
+        return;
+
+      case 'add': {
+        const scope: MemoryScope = flags.user ? 'user' : 'project';
+        const note = named.note;
+        try {
+          const filePath = appendMemoryNote(scope, note);
+          agent?.reloadSystemMessage();
+          addMessage({
+            role: 'system',
+            content: `🧠 Added to \`${filePath}\`: ${note}`,
+          });
+        } catch (error) {
+          addMessage({
+            role: 'system',
+            content: `❌ Failed to update memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          });
+        }
+        return;
+      }
+
+      case 'edit': {
+        const scope: MemoryScope = flags.user || named.scope === 'user' ? 'user' : 'project';
+        const filePath = scope === 'user' ? getUserMemoryPath() : getProjectMemoryPath();
+        if (!suspendTerminal) {
+          addMessage({
+            role: 'system',
+            content: `❌ No terminal to open an editor in. Edit \`${filePath}\` directly, then use \`/memory reload\`.`,
+          });
+          return;
+        }
+        const error = editMemoryFile(filePath, scope, suspendTerminal);
+        agent?.reloadSystemMessage();
+        addMessage({
+          role: 'system',
+          content: error ? `❌ Failed to edit \`${filePath}\`: ${error}` : `🧠 Saved \`${filePath}\`, memory reloaded.`,
+        });
+        return;
+      }
+
+      case 'reload':
+        agent?.reloadSystemMessage();
+        addMessage({
+          role: 'system',
+          content: `🧠 Memory reloaded: ${loadMemoryFiles().length} file(s) in the system prompt.`,
+        });
+        return;
+    }
+  }
+};
+
+export const initCommand: CommandDefinition = {
+  command: 'init',
+  description: 'Have the agent explore the project and draft GROQ.md',
+  handler: async ({ addMessage, agent, sendMessage }: CommandContext) => {
+    if (!agent || !sendMessage) {
+      addMessage({
+        role: 'system',
+        content: '❌ Agent not available for /init.',
+      });
+      return;
+    }
+
+    const filePath = getProjectMemoryPath();
+    const exists = fs.existsSync(filePath);
+    await sendMessage(
+      `Explore this project and ${exists ? `improve the existing ${MEMORY_FILE} at ${filePath} (read it first and keep what is still accurate)` : `create ${MEMORY_FILE} at ${filePath}`}. ` +
+      'It is loaded into your system prompt in future sessions, so write concise instructions for working on this codebase: ' +
+      'what the project does, how the code is organized, the commands to install, build, test and lint, and the conventions to follow. ' +
+      'Base it on what you find in the files, not on assumptions, and keep it short.'
+    );
+    agent.reloadSystemMessage();
+  }
+};
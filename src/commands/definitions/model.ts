@@ -1,4 +1,4 @@
-import { CommandDefinition, CommandContext } from '../base.js';
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
 import { Agent } from '../../core/agent.js';
 
 // Helper to get agent from context 
@@ -12,7 +12,8 @@ let isProcessingModelCommand = false;
 export const modelCommand: CommandDefinition = {
   command: 'model',
   description: 'Switch to a specific model or show model selector',
-  handler: async (context: CommandContext & { agent?: Agent }) => {
+  args: [{ name: 'model', description: 'Model id, or part of one', complete: 'models' }],
+  handler: async (context: CommandContext & { agent?: Agent }, { named }: ParsedArgs) => {
     // Prevent multiple simultaneous executions
     if (isProcessingModelCommand) {
       return;
@@ -29,10 +30,7 @@ export const modelCommand: CommandDefinition = {
       return;
     }
 
-    // Extract model name from the original command if provided
-    const fullMessage = (context as any).lastCommand || '';
-    const match = fullMessage.match(/\/model\s+(.+)/i);
-    const modelName = match ? match[1].trim() : '';
+    const modelName = named.model || '';
 
     if (modelName) {
       // Direct model switch
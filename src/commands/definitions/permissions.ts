@@ -0,0 +1,68 @@
+import fs from 'fs';
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
+import { PermissionManager, PermissionScope } from '../../utils/permission-manager.js';
+import { trustProjectFile } from '../../utils/project-trust.js';
+
+export const permissionsCommand: CommandDefinition = {
+  command: 'permissions',
+  aliases: ['perms'],
+  description: 'Show tool permission rules for this project and globally',
+  subcommands: [
+    { name: 'list', aliases: ['ls'], description: 'Show the project and global rules' },
+    { name: 'trust', description: 'Trust the project\'s .groq/permissions.json as it is now and apply its allow rules' }
+  ],
+  handler: ({ addMessage }: CommandContext, { subcommand }: ParsedArgs) => {
+    const permissionManager = PermissionManager.getInstance();
+
+    if (subcommand === 'trust') {
+      const rulesPath = permissionManager.getRulesPath('project');
+      if (!fs.existsSync(rulesPath)) {
+        addMessage({
+          role: 'system',
+          content: `❌ No project permission rules at ${rulesPath}.`,
+        });
+        return;
+      }
+      try {
+        trustProjectFile(rulesPath);
+      } catch (error) {
+        addMessage({
+          role: 'system',
+          content: `❌ Cannot trust ${rulesPath}: ${error instanceof Error ? error.message : error}`,
+        });
+        return;
+      }
+      addMessage({
+        role: 'system',
+        content: `🔓 Trusted ${rulesPath}, its allow rules now apply until the file changes.`,
+      });
+      return;
+    }
+
+    let content = '🔐 **Tool Permission Rules**\n\n';
+    for (const scope of ['project', 'global'] as PermissionScope[]) {
+      const rules = permissionManager.getRules(scope, true);
+      const untrusted = scope === 'project' && permissionManager.hasUntrustedProjectRules();
+      content += `**${scope === 'project' ? 'Project' : 'Global'}** (\`${permissionManager.getRulesPath(scope)}\`)${untrusted ? ' 🔒 not trusted, allow rules don\'t apply until `/permissions trust`' : ''}\n`;
+      if (rules.length === 0) {
+        content += '• No rules\n';
+      }
+      for (const rule of rules) {
+        content += `• ${permissionManager.describeRule(rule)}\n`;
+      }
+      content += '\n';
+    }
+
+    content += '**Rule format:** `{"rules": [{"tool": "execute_command", "pattern": "npm test*", "action": "allow"}]}`\n';
+    content += '• `action`: `allow` runs without asking, `ask` always asks, `deny` blocks the call\n';
+    content += '• `tool`: tool name or `*`; `pattern` matches the command, or the path relative to the project\n';
+    content += '• Path patterns support `*` and `**`, patterns without `/` match file names, `!` inverts (e.g. `!src/**`)\n';
+    content += '• When several rules match, deny wins over ask, and ask wins over allow\n';
+    content += '• Allow rules of the project file apply only after `/permissions trust`, and again after the file changes; "always allow" keeps a trusted file trusted';
+
+    addMessage({
+      role: 'system',
+      content,
+    });
+  }
+};
@@ -1,5 +1,6 @@
-import { CommandDefinition, CommandContext } from '../base.js';
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
 import { Agent } from '../../core/agent.js';
+import { isValidProvider } from '../../providers/index.js';
 
 // Helper to get agent from context 
 const getAgent = (context: any): Agent | null => {
@@ -94,8 +95,9 @@ export const providersCommand: CommandDefinition = {
 export const switchCommand: CommandDefinition = {
   command: 'switch',
   aliases: ['sw', 'provider'],
-  description: 'Switch to a specific LLM provider (groq, ollama, lmstudio)',
-  handler: async (context: CommandContext & { agent?: Agent }, args?: string) => {
+  description: 'Switch to a specific LLM provider (groq, ollama, lmstudio or a configured endpoint)',
+  args: [{ name: 'provider', description: 'groq, ollama, lmstudio or a configured endpoint name', complete: 'providers' }],
+  handler: async (context: CommandContext & { agent?: Agent }, { named }: ParsedArgs) => {
     const agent = getAgent(context);
     if (!agent) {
       context.addMessage({
@@ -105,11 +107,9 @@ export const switchCommand: CommandDefinition = {
       return;
     }
 
-    // Extract provider name from the original command if not passed as args
-    // This is a bit of a workaround since we don't get args directly
-    const fullMessage = (context as any).lastCommand || '';
-    const match = fullMessage.match(/\/(?:switch|sw|provider)\s+(\w+)/i);
-    const providerName = match ? match[1].toLowerCase() : '';
+    // Built-in names are case-insensitive, configured endpoint names are used as written
+    const requested = named.provider || '';
+    const providerName = isValidProvider(requested.toLowerCase()) ? requested.toLowerCase() : requested;
 
     if (!providerName) {
       const detection = await agent.detectProviders();
@@ -159,7 +159,8 @@ export const modelsCommand: CommandDefinition = {
   command: 'models',
   aliases: ['m', 'model-list'],
   description: 'List all available models from all providers, or search with /models <query>',
-  handler: async (context: CommandContext & { agent?: Agent }) => {
+  args: [{ name: 'query', rest: true, description: 'Search model ids, names and providers' }],
+  handler: async (context: CommandContext & { agent?: Agent }, { named }: ParsedArgs) => {
     const agent = getAgent(context);
     if (!agent) {
       context.addMessage({
@@ -174,10 +175,7 @@ export const modelsCommand: CommandDefinition = {
       const providerManager = await agent.getProviderManager();
       const activeProvider = providerManager.getActiveProvider();
 
-      // Extract search query if provided
-      const fullMessage = (context as any).lastCommand || '';
-      const match = fullMessage.match(/\/(?:models|m|model-list)\s+(.+)/i);
-      const query = match ? match[1].trim() : '';
+      const query = named.query || '';
 
       let models;
       let content = '';
@@ -335,7 +333,10 @@ export const providerHelpCommand: CommandDefinition = {
       content += '**Quick Setup:**\n';
       content += '• **Groq**: Set `GROQ_API_KEY` environment variable\n';
       content += '• **Ollama**: Install from https://ollama.ai and run `ollama serve`\n';
-      content += '• **LM Studio**: Install from https://lmstudio.ai and enable local server\n\n';
+      content += '• **LM Studio**: Install from https://lmstudio.ai and enable local server\n';
+      content += '• **OpenAI-compatible** (vLLM, llama.cpp, LiteLLM): add an entry to `openaiEndpoints` in `~/.groq/config.json`:\n';
+      content += '  `{"name": "vllm", "baseUrl": "http://localhost:8000/v1", "apiKey": "...", "headers": {}, "models": ["my-model"]}`\n';
+      content += '  then use `/switch vllm`\n\n';
       content += 'Use `/providers` to check status after setup.';
 
       context.addMessage({
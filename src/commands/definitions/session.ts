@@ -1,17 +1,36 @@
-import { CommandDefinition, CommandContext } from '../base.js';
-import { Agent } from '../../core/agent.js';
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
+import { formatCommandHelp } from '../arguments.js';
+import { SessionManager, SessionRecord } from '../../utils/session-manager.js';
 
-// Helper to get agent from context 
-const getAgent = (context: any): Agent | null => {
-  return context.agent || null;
-};
+const AUTO_SAVE_NOTE = '\n**Auto-save:** each conversation is saved to ~/.groq/sessions after every interaction, ' +
+  '`/clear` starts a new session, and the most recent one is restored on startup if used in the last 24 hours.';
 
 export const sessionCommand: CommandDefinition = {
   command: 'session',
   aliases: ['sess'],
-  description: 'Manage session persistence (save, restore, clear, status)',
-  handler: async (context: CommandContext & { agent?: Agent }) => {
-    const agent = getAgent(context);
+  description: 'Manage saved sessions',
+  subcommands: [
+    { name: 'list', aliases: ['ls'], description: 'List saved sessions' },
+    {
+      name: 'open',
+      aliases: ['load'],
+      description: 'Continue a saved session (without id: pick from a list)',
+      args: [{ name: 'id', description: 'Session id, unique id prefix or number from /session list', complete: 'sessions' }]
+    },
+    {
+      name: 'rename',
+      description: 'Rename a session (current one by default)',
+      args: [{ name: 'id', complete: 'sessions' }, { name: 'title', rest: true }]
+    },
+    { name: 'delete', aliases: ['rm'], description: 'Delete a saved session', args: [{ name: 'id', required: true, complete: 'sessions' }] },
+    { name: 'fork', description: 'Continue a copy of a session (current one by default)', args: [{ name: 'id', complete: 'sessions' }] },
+    { name: 'save', description: 'Manually save current session' },
+    { name: 'restore', description: 'Restore the most recent session' },
+    { name: 'clear', description: 'Delete the current session' },
+    { name: 'status', aliases: ['info'], description: 'Show session information' }
+  ],
+  handler: async (context: CommandContext, { subcommand, named, text }: ParsedArgs) => {
+    const { agent } = context;
     if (!agent) {
       context.addMessage({
         role: 'system',
@@ -20,22 +39,165 @@ export const sessionCommand: CommandDefinition = {
       return;
     }
 
-    // Extract subcommand from the original command
-    const fullMessage = (context as any).lastCommand || '';
-    const match = fullMessage.match(/\/(?:session|sess)\s+(\w+)/i);
-    const subcommand = match ? match[1].toLowerCase() : '';
+    const sessionManager = SessionManager.getInstance();
+
+    // Show the opened conversation in the chat view
+    const showSession = (session: SessionRecord, verb: string) => {
+      if (context.loadConversation) {
+        context.loadConversation(agent.getDisplayHistory());
+      }
+      context.addMessage({
+        role: 'system',
+        content: `${verb} **${session.title}** (\`${session.id}\`)\n\n**Provider**: ${session.provider}\n**Model**: ${session.model}\n**Agent**: ${session.agent}\n**Directory**: ${session.cwd}\n**Messages**: ${session.messages.length}`,
+      });
+    };
 
     switch (subcommand) {
+      case undefined:
+        if (context.setShowSessionPicker && sessionManager.listSessions().length > 0) {
+          context.setShowSessionPicker(true);
+          return;
+        }
+        context.addMessage({
+          role: 'system',
+          content: `🔄 ${formatCommandHelp(sessionCommand)}${AUTO_SAVE_NOTE}`,
+        });
+        break;
+
+      case 'list': {
+        const sessions = sessionManager.listSessions();
+        if (sessions.length === 0) {
+          context.addMessage({
+            role: 'system',
+            content: '📂 **No saved sessions**\n\nSessions are saved automatically after each interaction.',
+          });
+          break;
+        }
+
+        const currentId = agent.getSessionId();
+        let content = `📚 **Saved Sessions** (${sessions.length})\n\n`;
+        sessions.forEach((session, index) => {
+          const marker = session.id === currentId ? '🎯' : '•';
+          content += `${marker} **${index + 1}.** ${session.title} \`${session.id}\`\n`;
+          content += `   ${new Date(session.updatedAt).toLocaleString()} · ${session.messageCount} messages · ${session.provider}/${session.model} · ${session.cwd}\n`;
+        });
+        content += '\nUse `/session open <id|number>` to continue a session.';
+
+        context.addMessage({
+          role: 'system',
+          content,
+        });
+        break;
+      }
+
+      case 'open': {
+        if (!named.id) {
+          if (context.setShowSessionPicker) {
+            context.setShowSessionPicker(true);
+          } else {
+            context.addMessage({
+              role: 'system',
+              content: '❌ Usage: `/session open <id|number>`',
+            });
+          }
+          break;
+        }
+
+        const id = sessionManager.resolveId(named.id);
+        const session = id ? await agent.openSession(id) : null;
+        if (!session) {
+          context.addMessage({
+            role: 'system',
+            content: `❌ Session '${named.id}' not found.\n\nUse \`/session list\` to see saved sessions.`,
+          });
+          break;
+        }
+        showSession(session, '📂 Opened session');
+        break;
+      }
+
+      case 'rename': {
+        // Either "/session rename <id> <title>" or "/session rename <title>" for the current session
+        const targetId = named.title ? sessionManager.resolveId(named.id) : null;
+        const sessionId = targetId || agent.getSessionId();
+        const title = (targetId ? named.title : text).replace(/^["']|["']$/g, '').trim();
+
+        if (!title) {
+          context.addMessage({
+            role: 'system',
+            content: '❌ Usage: `/session rename [id] <title>`',
+          });
+          break;
+        }
+        if (!sessionId || !sessionManager.renameSession(sessionId, title)) {
+          context.addMessage({
+            role: 'system',
+            content: '❌ No session to rename. The current conversation is saved after its first message.',
+          });
+          break;
+        }
+        context.addMessage({
+          role: 'system',
+          content: `✏️ Session \`${sessionId}\` renamed to **${title}**`,
+        });
+        break;
+      }
+
+      case 'delete': {
+        const id = sessionManager.resolveId(named.id);
+        if (!id) {
+          context.addMessage({
+            role: 'system',
+            content: `❌ Session '${named.id}' not found.`,
+          });
+          break;
+        }
+        if (id === agent.getSessionId()) {
+          agent.clearSavedSession();
+        } else {
+          sessionManager.deleteSession(id);
+        }
+        context.addMessage({
+          role: 'system',
+          content: `🗑️ Session \`${id}\` deleted.`,
+        });
+        break;
+      }
+
+      case 'fork': {
+        const id = named.id ? sessionManager.resolveId(named.id) : undefined;
+        if (named.id && !id) {
+          context.addMessage({
+            role: 'system',
+            content: `❌ Session '${named.id}' not found.`,
+          });
+          break;
+        }
+        const fork = await agent.forkSession(id || undefined);
+        if (!fork) {
+          context.addMessage({
+            role: 'system',
+            content: '❌ Nothing to fork yet. Send a message first or pass a session id.',
+          });
+          break;
+        }
+        showSession(fork, '🍴 Forked into');
+        break;
+      }
+
       case 'save':
         try {
           agent.saveCurrentSession();
           const activeProvider = await agent.getProviderManager().then(pm => pm.getActiveProvider());
           const providerName = activeProvider?.displayName || 'Unknown';
           const model = agent.getCurrentModel();
+          const sessionId = agent.getSessionId();
           
           context.addMessage({
             role: 'system',
-            content: `💾 **Session saved successfully**\n\n**Provider**: ${providerName}\n**Model**: ${model}\n**Timestamp**: ${new Date().toLocaleString()}\n\nYour conversation will be restored automatically when you restart the CLI.`,
+            content: sessionId
+              ? `💾 **Session saved successfully**\n\n**Session**: \`${sessionId}\`\n**Provider**: ${providerName}\n**Model**: ${model}\n**Timestamp**: ${new Date().toLocaleString()}\n\nUse \`/session open ${sessionId}\` to come back to this conversation.`
+              : '💾 Nothing to save yet. Sessions are created after the first message.',
           });
         } catch (error) {
           context.addMessage({
@@ -53,17 +215,17 @@ export const sessionCommand: CommandDefinition = {
             const providerName = activeProvider?.displayName || 'Unknown';
             const model = agent.getCurrentModel();
             
+            if (context.loadConversation) {
+              context.loadConversation(agent.getDisplayHistory());
+            }
             context.addMessage({
               role: 'system',
               content: `♻️ **Session restored successfully**\n\n**Provider**: ${providerName}\n**Model**: ${model}\n\nYour previous conversation has been restored.`,
             });
-            
-            // Clear current history to show only restored content
-            context.clearHistory();
           } else {
             context.addMessage({
               role: 'system',
-              content: '📂 **No recent session found**\n\nThere is no recent session to restore (sessions expire after 24 hours).',
+              content: '📂 **No recent session found**\n\nThere is no recent session to restore (sessions are restored automatically for 24 hours, use `/session list` for older ones).',
             });
           }
         } catch (error) {
@@ -79,7 +241,7 @@ export const sessionCommand: CommandDefinition = {
           agent.clearSavedSession();
           context.addMessage({
             role: 'system',
-            content: '🗑️ **Session cleared**\n\nSaved session has been deleted. Future CLI restarts will start fresh.',
+            content: '🗑️ **Session cleared**\n\nThe current session has been deleted from ~/.groq/sessions. Other saved sessions are kept.',
           });
         } catch (error) {
           context.addMessage({
@@ -90,25 +252,22 @@ export const sessionCommand: CommandDefinition = {
         break;
 
       case 'status':
-      case 'info':
         try {
-          const configManager = new (await import('../../utils/local-settings.js')).ConfigManager();
-          const lastSession = configManager.getLastSession();
+          const sessionId = agent.getSessionId();
+          const session = sessionId ? sessionManager.loadSession(sessionId) : null;
           
-          if (lastSession) {
-            const sessionTime = new Date(lastSession.timestamp);
-            const now = new Date();
-            const hoursDiff = Math.round((now.getTime() - sessionTime.getTime()) / (1000 * 60 * 60));
-            const willRestore = hoursDiff < 24;
+          if (session) {
+            const sessionTime = new Date(session.updatedAt);
+            const hoursDiff = Math.round((Date.now() - sessionTime.getTime()) / (1000 * 60 * 60));
             
             context.addMessage({
               role: 'system',
-              content: `📊 **Session Status**\n\n**Last saved**: ${sessionTime.toLocaleString()}\n**Time ago**: ${hoursDiff} hours\n**Provider**: ${lastSession.provider}\n**Model**: ${lastSession.model}\n**Messages**: ${lastSession.conversationHistory?.length || 0} saved\n**Auto-restore**: ${willRestore ? '✅ Yes' : '❌ No (expired)'}\n\n${willRestore ? 'This session will be restored automatically on next CLI start.' : 'This session is too old and won\'t be restored automatically.'}`,
+              content: `📊 **Session Status**\n\n**Session**: ${session.title} (\`${session.id}\`)\n**Created**: ${new Date(session.createdAt).toLocaleString()}\n**Last saved**: ${sessionTime.toLocaleString()} (${hoursDiff} hours ago)\n**Provider**: ${session.provider}\n**Model**: ${session.model}\n**Agent**: ${session.agent}\n**Directory**: ${session.cwd}\n**Messages**: ${session.messages.length} saved\n\nThe most recent session is restored automatically if you restart the CLI within 24 hours.`,
             });
           } else {
             context.addMessage({
               role: 'system',
-              content: '📊 **Session Status**\n\n**Status**: No saved session\n**Auto-restore**: Not available\n\nNo session has been saved yet. Sessions are automatically saved after each interaction.',
+              content: `📊 **Session Status**\n\n**Status**: Current conversation not saved yet\n**Saved sessions**: ${sessionManager.listSessions().length}\n\nSessions are saved automatically after each interaction.`,
             });
           }
         } catch (error) {
@@ -118,12 +277,6 @@ export const sessionCommand: CommandDefinition = {
           });
         }
         break;
-
-      default:
-        context.addMessage({
-          role: 'system',
-          content: `🔄 **Session Management**\n\nUsage: \`/session <command>\`\n\n**Available commands:**\n• \`save\` - Manually save current session\n• \`restore\` - Restore last saved session\n• \`clear\` - Delete saved session\n• \`status\` - Show session information\n\n**Auto-save behavior:**\n• Sessions are saved automatically after each interaction\n• Sessions are restored automatically on CLI startup\n• Sessions expire after 24 hours\n• Only last 20 messages are saved to avoid huge files\n\n**Examples:**\n\`/session save\` - Save current state\n\`/session status\` - Check what's saved\n\`/session clear\` - Delete saved data`,
-        });
     }
   }
 };
@@ -0,0 +1,110 @@
+import { CommandDefinition, CommandContext, ParsedArgs } from '../base.js';
+import { ConfigManager } from '../../utils/local-settings.js';
+import { SessionManager } from '../../utils/session-manager.js';
+import { formatCost } from '../../utils/pricing.js';
+import {
+  UsageLedger,
+  UsageGrouping,
+  USAGE_GROUPINGS,
+  BudgetSettings,
+  groupUsage,
+  sumUsage,
+  formatTotals
+} from '../../utils/usage-ledger.js';
+
+const PERIODS = ['today', 'week', 'month', 'all'];
+const MAX_ROWS = 15;
+
+/**
+ * First day of a period, or undefined for all recorded usage
+ */
+function getPeriodStart(period: string): Date | undefined {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  switch (period) {
+    case 'today':
+      return start;
+    case 'week':
+      start.setDate(start.getDate() - 6);
+      return start;
+    case 'month':
+      start.setDate(start.getDate() - 29);
+      return start;
+    default:
+      return undefined;
+  }
+}
+
+function describeBudgets(budgets: BudgetSettings, sessionId: string | null): string {
+  const ledger = UsageLedger.getInstance();
+  const lines: string[] = [];
+  const describe = (label: string, used: number, limit: number | undefined, format: (value: number) => string) => {
+    if (typeof limit === 'number') {
+      lines.push(`• ${label}: ${format(used)} of ${format(limit)}${used >= limit ? ' ⚠️' : ''}`);
+    }
+  };
+
+  const today = ledger.getDayTotals();
+  describe('Daily', today.cost, budgets.daily, formatCost);
+  describe('Daily tokens', today.promptTokens + today.completionTokens, budgets.dailyTokens, String);
+  if (sessionId) {
+    const session = ledger.getSessionTotals(sessionId);
+    describe('Session', session.cost, budgets.session, formatCost);
+    describe('Session tokens', session.promptTokens + session.completionTokens, budgets.sessionTokens, String);
+  }
+  if (lines.length === 0) {
+    return '**Budgets:** none set\n';
+  }
+  return `**Budgets** (${budgets.action === 'stop' ? 'stop' : 'warn'} when exceeded)\n${lines.join('\n')}\n`;
+}
+
+export const usageCommand: CommandDefinition = {
+  command: 'usage',
+  description: 'Show token usage and estimated cost',
+  args: [{ name: 'period', description: 'today, week, month or all (default today)', complete: PERIODS }],
+  flags: [{ name: 'by', description: `Group by ${USAGE_GROUPINGS.join(', ')} (default model)`, takesValue: true }],
+  handler: ({ addMessage, agent }: CommandContext, { named, flags }: ParsedArgs) => {
+    const period = (named.period || 'today').toLowerCase();
+    const by = (typeof flags.by === 'string' ? flags.by : 'model').toLowerCase() as UsageGrouping;
+    if (!PERIODS.includes(period) || !USAGE_GROUPINGS.includes(by)) {
+      addMessage({
+        role: 'system',
+        content: `❌ Usage: \`/usage [${PERIODS.join('|')}] [--by ${USAGE_GROUPINGS.join('|')}]\``,
+      });
+      return;
+    }
+
+    const ledger = UsageLedger.getInstance();
+    const records = ledger.getRecords(getPeriodStart(period));
+    const periodLabel = period === 'all' ? 'All time' : period === 'today' ? 'Today' : `Last ${period === 'week' ? '7' : '30'} days`;
+
+    let content = `📊 **Usage: ${periodLabel}**\n\n`;
+    if (records.length === 0) {
+      content += 'No requests recorded.\n';
+    } else {
+      content += `**Total:** ${formatTotals(sumUsage(records))}\n\n`;
+      content += `**By ${by}**\n`;
+      const groups = groupUsage(records, by);
+      const sessionManager = SessionManager.getInstance();
+      for (const { key, totals } of groups.slice(0, MAX_ROWS)) {
+        const label = by === 'session' ? sessionManager.loadSession(key)?.title || key : key;
+        content += `• ${label}: ${formatTotals(totals)}\n`;
+      }
+      if (groups.length > MAX_ROWS) {
+        content += `• … ${groups.length - MAX_ROWS} more\n`;
+      }
+    }
+
+    const sessionId = agent?.getSessionId() || null;
+    if (sessionId) {
+      content += `\n**This session:** ${formatTotals(ledger.getSessionTotals(sessionId))}\n`;
+    }
+    content += `\n${describeBudgets(new ConfigManager().getBudgets(), sessionId)}`;
+    content += `\nCosts are estimates from Groq's prices and "pricing" in ~/.groq/config.json. Usage is kept in \`${ledger.getUsageDir()}\`.`;
+
+    addMessage({
+      role: 'system',
+      content,
+    });
+  }
+};
@@ -1,11 +1,23 @@
 import Groq from 'groq-sdk';
 import { executeTool } from '../tools/tools.js';
 import { validateReadBeforeEdit, getReadBeforeEditError } from '../tools/validators.js';
-import { ALL_TOOL_SCHEMAS, DANGEROUS_TOOLS, APPROVAL_REQUIRED_TOOLS } from '../tools/tool-schemas.js';
+import { validateWorkspacePath } from '../tools/workspace.js';
+import { ALL_TOOL_SCHEMAS, DANGEROUS_TOOLS, APPROVAL_REQUIRED_TOOLS, PARALLEL_TOOLS } from '../tools/tool-schemas.js';
 import { ConfigManager } from '../utils/local-settings.js';
 import { AgentManager } from '../utils/agent-manager.js';
+import { buildMemoryPrompt } from '../utils/project-memory.js';
+import { SessionManager, SessionRecord } from '../utils/session-manager.js';
+import { PermissionManager, PermissionRule } from '../utils/permission-manager.js';
+import { HookManager, MAX_STOP_HOOK_CONTINUATIONS, shouldContinueAfterStop } from '../utils/hook-manager.js';
+import { McpManager } from '../tools/mcp-manager.js';
 import { ProviderManager } from './provider-manager.js';
-import { LLMProvider, ChatOptions } from '../providers/index.js';
+import { ContextManager, ContextUsage, CompactionResult } from './context-manager.js';
+import { CheckpointManager, Checkpoint, CHECKPOINT_TOOLS } from './checkpoint-manager.js';
+import { FailureKind, RetryNotice, FailoverNotice, classifyFailure, getRetryDelay, getMaxRetries, waitForRetry } from './retry-policy.js';
+import { ModelRouter, RouteTask, RouteInfo } from './model-router.js';
+import { LLMProvider, ChatOptions, ChatStreamChunk, MessageContent, ProviderError, ProviderUtils, chatWithTools } from '../providers/index.js';
+import { buildPromptContent, getPromptText } from '../utils/attachments.js';
+import { UsageLedger, BudgetStatus, formatBudget, getDayKey } from '../utils/usage-ledger.js';
 import { logger } from '../utils/logger.js';
 import fs from 'fs';
 import path from 'path';
@@ -13,7 +25,7 @@ import path from 'path';
 // Define ChatMessage interface locally since it's not exported from providers
 interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  content: MessageContent;
 }
 
 interface Message extends ChatMessage {
@@ -21,6 +33,30 @@ interface Message extends ChatMessage {
   tool_call_id?: string;
 }
 
+export interface ToolApprovalResult {
+  approved: boolean;
+  autoApproveSession?: boolean;
+  // Saved as a project permission rule so matching calls run without asking
+  alwaysAllowRule?: PermissionRule;
+}
+
+export type ToolApprovalHandler = (
+  toolName: string,
+  toolArgs: Record<string, any>,
+  suggestedRule: PermissionRule | null
+) => Promise<ToolApprovalResult>;
+
+/**
+ * Overrides for a single chat() call, e.g. from a custom slash command
+ */
+export interface ChatRunOptions {
+  model?: string;
+  // Only these tools are offered to the model and allowed to run
+  allowedTools?: string[];
+  // Replaces the agent profile's system prompt; GROQ.md memory is still added
+  systemPrompt?: string;
+}
+
 export class Agent {
   private providerManager: ProviderManager;
   private messages: Message[] = [];
@@ -29,16 +65,40 @@ export class Agent {
   private sessionAutoApprove: boolean = false;
   private systemMessage: string;
   private configManager: ConfigManager;
-  private onToolStart?: (name: string, args: Record<string, any>) => void;
-  private onToolEnd?: (name: string, result: any) => void;
-  private onToolApproval?: (toolName: string, toolArgs: Record<string, any>) => Promise<{ approved: boolean; autoApproveSession?: boolean }>;
+  private onToolStart?: (name: string, args: Record<string, any>, toolCallId: string) => void;
+  private onToolEnd?: (name: string, result: any, toolCallId: string) => void;
+  private onToolOutput?: (name: string, chunk: string) => void;
+  private onToolApproval?: ToolApprovalHandler;
   private onThinkingText?: (content: string, reasoning?: string) => void;
+  private onStreamingText?: (content: string, reasoning?: string) => void;
   private onFinalMessage?: (content: string, reasoning?: string) => void;
   private onMaxIterations?: (maxIterations: number) => Promise<boolean>;
   private onApiUsage?: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void;
+  private onContextUsage?: (usage: ContextUsage) => void;
+  private onCompaction?: (result: CompactionResult) => void;
+  private onRetry?: (notice: RetryNotice) => void;
+  private onFailover?: (notice: FailoverNotice) => void;
+  private onRoute?: (route: RouteInfo) => void;
+  private onBudget?: (status: BudgetStatus) => void;
+  private modelRouter: ModelRouter;
+  private contextManager = new ContextManager();
+  private contextLength: number | null = null;
+  private checkpointManager = new CheckpointManager();
+  // User message that started each turn, turn N is at index N - 1
+  private turns: Message[] = [];
+  private sessionId: string | null = null;
+  // Exceeded budgets already reported, so each one warns once per day or session
+  private reportedBudgets = new Set<string>();
   private requestCount: number = 0;
   private currentAbortController: AbortController | null = null;
+  // Aborted on interrupt to stop the tool that is currently running
+  private toolAbortController: AbortController | null = null;
+  // Approval prompts waiting their turn; parallel calls can still need one after a hook rewrote them
+  private approvalQueue: Promise<unknown> = Promise.resolve();
   private isInterrupted: boolean = false;
+  private runOptions: ChatRunOptions = {};
+  // How the current session began, SessionStart hooks run before its first prompt
+  private pendingSessionStart: 'startup' | 'resume' | 'clear' | null = 'startup';
 
   private constructor(
     model: string,
@@ -50,6 +110,7 @@ export class Agent {
     this.temperature = temperature;
     this.configManager = new ConfigManager();
     this.providerManager = new ProviderManager();
+    this.modelRouter = new ModelRouter(this.providerManager, this.configManager);
     
     // Set debug mode
     debugEnabled = debug || false;
@@ -82,10 +143,21 @@ export class Agent {
       systemMessage,
       debug
     );
+    // MCP servers start in the background, the first message waits for them
+    McpManager.getInstance().start();
     return agent;
   }
 
+  /**
+   * Agent profile or built-in prompt, followed by the GROQ.md memory files
+   */
   private buildDefaultSystemMessage(): string {
+    const baseMessage = this.buildBaseSystemMessage();
+    const memoryPrompt = buildMemoryPrompt();
+    return memoryPrompt ? `${baseMessage}\n\n${memoryPrompt}` : baseMessage;
+  }
+
+  private buildBaseSystemMessage(): string {
     // Check if AgentManager has a custom system prompt
     try {
       const agentManager = AgentManager.getInstance();
@@ -110,14 +182,15 @@ USER CONTROL AWARENESS:
 - The user can interrupt you at ANY TIME using ESC key during processing
 - If you detect you might be thinking too long or in a loop, be concise and actionable
 - The user has full control and can stop your response if it's not what they need
-- Tool executions CANNOT be interrupted once started, so ensure tools are necessary
+- The user can also stop a running tool; an interrupted tool returns "interrupted": true and its work may be incomplete
 - Keep responses focused - the user prefers action over lengthy explanations
 
 Use tools to:
 - Read and understand files (read_file, list_files, search_files)
 - Create, edit, and manage files (create_file, edit_file, list_files, read_file, delete_file)
-- Execute commands (execute_command)
+- Execute commands (execute_command) and run servers or watchers in the background (start_background_command, read_background_output, stop_background_command)
 - Search for information (search_files)
+- Inspect the git repository (git_status, git_diff, git_log, git_blame) without needing approval
 - Help you understand the codebase before answering the user's question
 
 IMPLEMENTATION TASK RULES:
@@ -143,11 +216,12 @@ IMPORTANT TOOL USAGE RULES:
   - NEVER prefix tool names with "repo_browser."
 
 COMMAND EXECUTION SAFETY:
-  - Only use execute_command for commands that COMPLETE QUICKLY (tests, builds, short scripts)
-  - NEVER run commands that start long-running processes (servers, daemons, web apps)
-  - Examples of AVOIDED commands: "flask app.py", "npm start", "python -m http.server"
-  - Examples of SAFE commands: "python test_script.py", "npm test", "ls -la", "git status"
-  - If a long-running command is needed to complete the task, provide it to the user at the end of the response, not as a tool call, with a description of what it's for.
+  - Only use execute_command for commands that COMPLETE (tests, builds, short scripts); it returns the exit code and output even when the command fails
+  - NEVER run long-running processes (servers, daemons, watchers) with execute_command, they are killed at the timeout
+  - Start long-running processes with start_background_command, e.g. "flask run", "npm run dev", "python -m http.server"
+  - Check a background job with read_background_output and stop it with stop_background_command once it is no longer needed
+  - Examples of execute_command commands: "python test_script.py", "npm test", "ls -la"
+  - Use the git tools rather than execute_command to read git status, diffs, history and blame
 
 RESPONSE QUALITY GUIDELINES:
 - Be direct and efficient - avoid unnecessary elaboration
@@ -169,21 +243,37 @@ When asked about your identity, you should identify yourself as a coding assista
 
 
   public setToolCallbacks(callbacks: {
-    onToolStart?: (name: string, args: Record<string, any>) => void;
-    onToolEnd?: (name: string, result: any) => void;
-    onToolApproval?: (toolName: string, toolArgs: Record<string, any>) => Promise<{ approved: boolean; autoApproveSession?: boolean }>;
-    onThinkingText?: (content: string) => void;
-    onFinalMessage?: (content: string) => void;
+    onToolStart?: (name: string, args: Record<string, any>, toolCallId: string) => void;
+    onToolEnd?: (name: string, result: any, toolCallId: string) => void;
+    onToolOutput?: (name: string, chunk: string) => void;
+    onToolApproval?: ToolApprovalHandler;
+    onThinkingText?: (content: string, reasoning?: string) => void;
+    onStreamingText?: (content: string, reasoning?: string) => void;
+    onFinalMessage?: (content: string, reasoning?: string) => void;
     onMaxIterations?: (maxIterations: number) => Promise<boolean>;
     onApiUsage?: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void;
+    onContextUsage?: (usage: ContextUsage) => void;
+    onCompaction?: (result: CompactionResult) => void;
+    onRetry?: (notice: RetryNotice) => void;
+    onFailover?: (notice: FailoverNotice) => void;
+    onRoute?: (route: RouteInfo) => void;
+    onBudget?: (status: BudgetStatus) => void;
   }) {
     this.onToolStart = callbacks.onToolStart;
     this.onToolEnd = callbacks.onToolEnd;
+    this.onToolOutput = callbacks.onToolOutput;
     this.onToolApproval = callbacks.onToolApproval;
     this.onThinkingText = callbacks.onThinkingText;
+    this.onStreamingText = callbacks.onStreamingText;
     this.onFinalMessage = callbacks.onFinalMessage;
     this.onMaxIterations = callbacks.onMaxIterations;
     this.onApiUsage = callbacks.onApiUsage;
+    this.onContextUsage = callbacks.onContextUsage;
+    this.onCompaction = callbacks.onCompaction;
+    this.onRetry = callbacks.onRetry;
+    this.onFailover = callbacks.onFailover;
+    this.onRoute = callbacks.onRoute;
+    this.onBudget = callbacks.onBudget;
   }
 
   public async setApiKey(apiKey: string): Promise<void> {
@@ -216,6 +306,165 @@ When asked about your identity, you should identify yourself as a coding assista
   public clearHistory(): void {
     // Reset messages to only contain system messages
     this.messages = this.messages.filter(msg => msg.role === 'system');
+    // The next save starts a new session instead of overwriting this one
+    this.sessionId = null;
+    this.pendingSessionStart = 'clear';
+    this.resetTurns();
+    this.reportContextUsage();
+  }
+
+  /**
+   * File changes recorded before each create/edit/delete, oldest first
+   */
+  public getCheckpoints(): Checkpoint[] {
+    return this.checkpointManager.list();
+  }
+
+  /**
+   * Turns of the conversation that can be rewound to
+   */
+  public getTurns(): Array<{ turn: number; content: string }> {
+    return this.turns
+      .map((message, index) => ({ turn: index + 1, content: getPromptText(message.content) }))
+      .filter(({ turn }) => this.messages.includes(this.turns[turn - 1]));
+  }
+
+  /**
+   * Revert the most recent file change made by a tool, used by /undo
+   */
+  public async undoLastChange(): Promise<Checkpoint | null> {
+    const checkpoint = await this.checkpointManager.undoLast();
+    if (checkpoint) {
+      // Let the model know its change is gone before it builds on it
+      this.messages.push({
+        role: 'system',
+        content: `The user undid the ${checkpoint.toolName} change to ${checkpoint.target}. The file is back to its previous state.`
+      });
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Restore files and the conversation to how they were before the given turn, used by /rewind
+   */
+  public async rewindToTurn(turn: number): Promise<Checkpoint[]> {
+    const turnMessage = this.turns[turn - 1];
+    const messageIndex = turnMessage ? this.messages.indexOf(turnMessage) : -1;
+    if (messageIndex < 0) {
+      throw new Error(turnMessage
+        ? `Turn ${turn} was compacted and can no longer be rewound to`
+        : `No turn ${turn} in this conversation`);
+    }
+
+    const restored = await this.checkpointManager.rewindTo(turn);
+    this.messages = this.messages.slice(0, messageIndex);
+    this.turns = this.turns.slice(0, turn - 1);
+    this.reportContextUsage();
+    return restored;
+  }
+
+  /**
+   * Start turn numbering over for a new or loaded conversation
+   */
+  private resetTurns(): void {
+    this.turns = this.messages.filter(msg => msg.role === 'user');
+    this.checkpointManager.clear();
+  }
+
+  /**
+   * Summarize older turns to free up context, used by /compact
+   */
+  public async compactHistory(): Promise<CompactionResult> {
+    await this.providerManager.loadConfig();
+    const activeProvider = this.providerManager.getActiveProvider();
+
+    if (!activeProvider) {
+      // Without a provider old turns can only be dropped
+      return this.applyCompaction(await this.contextManager.compact(this.messages, this.contextLength || 8192, {
+        tools: this.getRunToolSchemas(),
+        force: true
+      }));
+    }
+
+    const contextLength = await this.contextManager.getContextLength(activeProvider, this.model);
+    this.contextLength = contextLength;
+    return this.compactMessages(activeProvider, contextLength, true);
+  }
+
+  /**
+   * Current context window usage, or null until the model's context length is known
+   */
+  public getContextUsage(): ContextUsage | null {
+    if (!this.contextLength) {
+      return null;
+    }
+    return {
+      usedTokens: this.contextManager.estimateTokens(this.messages, this.getRunToolSchemas()),
+      contextLength: this.contextLength
+    };
+  }
+
+  private async compactMessages(provider: LLMProvider, contextLength: number, force: boolean): Promise<CompactionResult> {
+    const result = await this.contextManager.compact(this.messages, contextLength, {
+      tools: this.getRunToolSchemas(),
+      force,
+      summarize: older => this.summarizeConversation(provider, older, contextLength)
+    });
+    // Manual compactions are reported by the caller
+    return this.applyCompaction(result, !force);
+  }
+
+  private applyCompaction(result: CompactionResult, notify: boolean = false): CompactionResult {
+    this.messages = result.messages;
+    debugLog('Context compacted:', {
+      tokensBefore: result.tokensBefore,
+      tokensAfter: result.tokensAfter,
+      removedMessages: result.removedMessages,
+      truncatedOutputs: result.truncatedOutputs
+    });
+
+    if (notify && this.onCompaction) {
+      this.onCompaction(result);
+    }
+    this.reportContextUsage();
+    return result;
+  }
+
+  private async summarizeConversation(provider: LLMProvider, messages: Message[], contextLength: number): Promise<string> {
+    // Summaries can be routed to a smaller model, whose window then limits the transcript
+    const route = this.modelRouter.resolve('summarize', { provider, model: this.model });
+    if (route.routed) {
+      contextLength = Math.min(contextLength, await this.contextManager.getContextLength(route.provider, route.model));
+    }
+    const transcript = this.contextManager.renderTranscript(messages, Math.floor(contextLength / 2));
+    const response = await route.provider.chat({
+      model: route.model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You summarize conversations between a user and a coding assistant. Keep file paths, decisions, code changes made, errors found and unfinished tasks. Be concise and factual.'
+        },
+        {
+          role: 'user',
+          content: `Summarize this conversation so the summary can replace it:\n\n${transcript}`
+        }
+      ],
+      temperature: 0.2,
+      max_tokens: Math.min(1024, this.contextManager.getMaxOutputTokens(contextLength))
+    }, this.currentAbortController?.signal);
+    this.recordUsage('summarize', route.provider, route.model, response.usage);
+
+    return response.choices[0]?.message.content || '';
+  }
+
+  private reportContextUsage(usedTokens?: number): void {
+    if (!this.onContextUsage || !this.contextLength) {
+      return;
+    }
+    this.onContextUsage({
+      usedTokens: usedTokens ?? this.contextManager.estimateTokens(this.messages, this.getRunToolSchemas()),
+      contextLength: this.contextLength
+    });
   }
 
   public setModel(model: string): void {
@@ -223,13 +472,21 @@ When asked about your identity, you should identify yourself as a coding assista
     // Save as default model
     this.configManager.setDefaultModel(model);
     // Update system message to reflect new model
-    const newSystemMessage = this.buildDefaultSystemMessage();
-    this.systemMessage = newSystemMessage;
+    this.reloadSystemMessage();
+  }
+
+  /**
+   * Rebuild the system message, e.g. after GROQ.md files changed
+   */
+  public reloadSystemMessage(): void {
+    const previousMessage = this.systemMessage;
+    this.systemMessage = this.buildDefaultSystemMessage();
     // Update the system message in the conversation
-    const systemMsgIndex = this.messages.findIndex(msg => msg.role === 'system' && msg.content.includes('coding assistant'));
+    const systemMsgIndex = this.messages.findIndex(msg => msg.role === 'system' && msg.content === previousMessage);
     if (systemMsgIndex >= 0) {
-      this.messages[systemMsgIndex].content = newSystemMessage;
+      this.messages[systemMsgIndex].content = this.systemMessage;
     }
+    this.reportContextUsage();
   }
 
   public getCurrentModel(): string {
@@ -241,29 +498,93 @@ When asked about your identity, you should identify yourself as a coding assista
   }
 
   /**
-   * Save current session state
+   * Save the conversation to its session file, creating the session on first save
    */
   public saveCurrentSession(): void {
     try {
+      const messages = this.getConversationMessages();
+      if (!messages.some(msg => msg.role === 'user')) {
+        return; // Nothing worth keeping yet
+      }
+
+      const sessionManager = SessionManager.getInstance();
+      const existing = this.sessionId ? sessionManager.loadSession(this.sessionId) : null;
       const activeProvider = this.providerManager.getActiveProvider();
-      const providerName = activeProvider?.name || 'groq';
-      
-      // Filter out system messages for saving to avoid huge configs
-      const conversationHistory = this.messages.filter(msg => 
-        msg.role !== 'system' || !msg.content.includes('coding assistant')
-      );
-      
-      this.configManager.saveSession(providerName, this.model, conversationHistory);
+      const now = new Date().toISOString();
+
+      const saved = sessionManager.saveSession({
+        id: existing?.id || this.sessionId || sessionManager.createId(),
+        title: existing?.title || sessionManager.deriveTitle(messages),
+        provider: activeProvider?.name || 'groq',
+        model: this.model,
+        agent: AgentManager.getInstance().getCurrentAgent().name,
+        cwd: existing?.cwd || process.cwd(),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        messages
+      });
+      this.sessionId = saved.id;
+      if (!existing) {
+        this.generateSessionTitle(saved.id, messages);
+      }
     } catch (error) {
       debugLog('Failed to save session:', error);
     }
   }
 
   /**
-   * Restore last session if available and recent
+   * Replace the title taken from the first prompt with one written by the model of
+   * the title route. Sessions keep their first-prompt title without a title route.
+   */
+  private async generateSessionTitle(sessionId: string, messages: Message[]): Promise<void> {
+    const activeProvider = this.providerManager.getActiveProvider();
+    const prompt = getPromptText(messages.find(msg => msg.role === 'user')?.content);
+    if (!activeProvider || !prompt) {
+      return;
+    }
+    const route = this.modelRouter.resolve('title', { provider: activeProvider, model: this.model });
+    if (!route.routed) {
+      return;
+    }
+
+    try {
+      const response = await route.provider.chat({
+        model: route.model,
+        messages: [
+          {
+            role: 'system',
+            content: 'You write titles for conversations between a user and a coding assistant. Reply with the title only, at most six words.'
+          },
+          { role: 'user', content: prompt.substring(0, 2000) }
+        ],
+        temperature: 0.2,
+        max_tokens: 30
+      });
+      this.recordUsage('title', route.provider, route.model, response.usage, sessionId);
+      const title = (response.choices[0]?.message.content || '').trim().split('\n')[0].replace(/^["'#*\s]+|["'.*\s]+$/g, '');
+      if (title) {
+        SessionManager.getInstance().renameSession(sessionId, title.substring(0, 80));
+      }
+    } catch (error) {
+      debugLog('Failed to generate session title:', error);
+    }
+  }
+
+  /**
+   * Restore the most recent session if it was updated in the last 24 hours
    */
   public async restoreLastSession(): Promise<boolean> {
     try {
+      const latest = SessionManager.getInstance().getLatestSession();
+      if (latest) {
+        const hoursDiff = (Date.now() - new Date(latest.updatedAt).getTime()) / (1000 * 60 * 60);
+        if (hoursDiff >= 24) {
+          return false;
+        }
+        return (await this.openSession(latest.id)) !== null;
+      }
+
+      // Fall back to the single session blob kept in config.json by older versions
       if (!this.configManager.shouldRestoreSession()) {
         return false;
       }
@@ -273,32 +594,13 @@ When asked about your identity, you should identify yourself as a coding assista
         return false;
       }
       
-      debugLog('Restoring session:', {
+      debugLog('Restoring legacy session:', {
         provider: lastSession.provider,
         model: lastSession.model,
         messagesCount: lastSession.conversationHistory?.length || 0
       });
       
-      // Restore provider
-      try {
-        await this.providerManager.setActiveProvider(lastSession.provider as any);
-      } catch (error) {
-        debugLog('Failed to restore provider, using default');
-      }
-      
-      // Restore model
-      this.setModel(lastSession.model);
-      
-      // Restore conversation history
-      if (lastSession.conversationHistory && lastSession.conversationHistory.length > 0) {
-        // Keep system message but add restored history
-        const systemMessages = this.messages.filter(msg => msg.role === 'system');
-        this.messages = [
-          ...systemMessages,
-          ...lastSession.conversationHistory
-        ];
-      }
-      
+      await this.restoreSessionState(lastSession.provider, lastSession.model, lastSession.conversationHistory || []);
       return true;
     } catch (error) {
       debugLog('Failed to restore session:', error);
@@ -307,9 +609,96 @@ When asked about your identity, you should identify yourself as a coding assista
   }
 
   /**
-   * Clear saved session
+   * Load a stored session into the agent, replacing the current conversation
+   */
+  public async openSession(id: string): Promise<SessionRecord | null> {
+    const session = SessionManager.getInstance().loadSession(id);
+    if (!session) {
+      return null;
+    }
+
+    // Keep the current conversation before switching away from it
+    if (this.sessionId !== session.id) {
+      this.saveCurrentSession();
+    }
+
+    debugLog('Opening session:', { id: session.id, provider: session.provider, model: session.model, messagesCount: session.messages.length });
+
+    // Restore the agent profile the session was using
+    const agentManager = AgentManager.getInstance();
+    if (session.agent && session.agent !== agentManager.getCurrentAgent().name && agentManager.setCurrentAgent(session.agent)) {
+      this.systemMessage = this.buildDefaultSystemMessage();
+    }
+
+    await this.restoreSessionState(session.provider, session.model, session.messages);
+    this.sessionId = session.id;
+    return session;
+  }
+
+  /**
+   * Copy a session (the current one by default) and continue in the copy
+   */
+  public async forkSession(id?: string): Promise<SessionRecord | null> {
+    this.saveCurrentSession();
+    const sourceId = id || this.sessionId;
+    if (!sourceId) {
+      return null;
+    }
+
+    const fork = SessionManager.getInstance().forkSession(sourceId);
+    if (!fork) {
+      return null;
+    }
+    return this.openSession(fork.id);
+  }
+
+  public getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  /**
+   * User and assistant text of the conversation, for redrawing the chat view
+   */
+  public getDisplayHistory(): Array<{ role: 'user' | 'assistant'; content: string }> {
+    return this.messages
+      .map(msg => ({ role: msg.role, content: getPromptText(msg.content) }))
+      .filter((msg): msg is { role: 'user' | 'assistant'; content: string } => (msg.role === 'user' || msg.role === 'assistant') && msg.content.trim() !== '');
+  }
+
+  /**
+   * Conversation without the system prompt
+   */
+  public getConversationMessages(): Message[] {
+    return this.messages[0]?.role === 'system' ? this.messages.slice(1) : [...this.messages];
+  }
+
+  private async restoreSessionState(provider: string, model: string, history: Message[]): Promise<void> {
+    try {
+      await this.providerManager.loadConfig();
+      await this.providerManager.setActiveProvider(provider);
+    } catch (error) {
+      debugLog('Failed to restore provider, using default');
+    }
+    
+    this.setModel(model);
+    
+    this.messages = [
+      { role: 'system', content: this.systemMessage },
+      ...history
+    ];
+    this.pendingSessionStart = 'resume';
+    this.resetTurns();
+    this.reportContextUsage();
+  }
+
+  /**
+   * Delete the current session and the legacy saved session
    */
   public clearSavedSession(): void {
+    if (this.sessionId) {
+      SessionManager.getInstance().deleteSession(this.sessionId);
+      this.sessionId = null;
+    }
     this.configManager.clearSession();
   }
 
@@ -366,6 +755,14 @@ When asked about your identity, you should identify yourself as a coding assista
       debugLog('Aborting current API request');
       this.currentAbortController.abort();
     }
+
+    // A running tool is stopped and the chat loop adds the note after its result,
+    // so the note doesn't land between the tool call and its result
+    if (this.toolAbortController) {
+      debugLog('Aborting current tool execution');
+      this.toolAbortController.abort();
+      return;
+    }
     
     // Add interruption message to conversation
     this.messages.push({
@@ -374,9 +771,15 @@ When asked about your identity, you should identify yourself as a coding assista
     });
   }
 
-  async chat(userInput: string): Promise<void> {
+  async chat(userInput: string, options: ChatRunOptions = {}): Promise<void> {
     // Reset interrupt flag at the start of a new chat
     this.isInterrupted = false;
+    this.runOptions = options;
+    // Usage is recorded against the session from its first request, before it's saved
+    this.sessionId ??= SessionManager.getInstance().createId();
+
+    // Hooks can add context or refuse the prompt before anything is sent
+    const hookContext = await this.runPromptHooks(userInput);
     
     // Load provider manager config and ensure we have an active provider
     await this.providerManager.loadConfig();
@@ -406,11 +809,41 @@ When asked about your identity, you should identify yourself as a coding assista
       }
     }
 
+    // Tools of MCP servers that are still starting up aren't offered yet
+    await McpManager.getInstance().start();
+
+    // Files mentioned with @path are inlined, images need a model that can see them
+    const prompt = buildPromptContent(userInput);
+    const model = this.runOptions.model || this.model;
+    const provider = this.providerManager.getActiveProvider();
+    if (provider && ProviderUtils.getImageParts(prompt.content).length > 0 && !(await provider.supportsVisionForModel(model))) {
+      throw new Error(`${model} on ${provider.displayName} doesn't accept images. Switch to a vision model with /model or remove the image from the prompt.`);
+    }
+    for (const attachment of prompt.attachments) {
+      debugLog(`Attached ${attachment.kind} ${attachment.path}${attachment.note ? ` (${attachment.note})` : ''}`);
+    }
+
     // Add user message
-    this.messages.push({ role: 'user', content: userInput });
+    const userMessage: Message = { role: 'user', content: prompt.content };
+    this.messages.push(userMessage);
+    this.turns.push(userMessage);
+    if (hookContext.length > 0) {
+      this.messages.push({
+        role: 'system',
+        content: `Context from hooks:\n${hookContext.join('\n\n')}`
+      });
+    }
 
     const maxIterations = 50;
     let iteration = 0;
+    // Times a Stop hook has sent the agent back to work; hooks see whether it happened
+    // so they can avoid loops, and after the limit the agent stops anyway
+    let stopHookContinuations = 0;
+    // Retries of the current request, and providers given up on during this prompt
+    let retryAttempt = 0;
+    const failedProviders: string[] = [];
+    // The first request plans, the ones answering tool results carry out the work
+    let phase: RouteTask = 'plan';
 
     while (true) { // Outer loop for iteration reset
       while (iteration < maxIterations) {
@@ -421,6 +854,10 @@ When asked about your identity, you should identify yourself as a coding assista
           return;
         }
         
+        // Budgets are checked before each request; with "stop" an exceeded one ends the turn
+        this.checkBudgets();
+
+        let requestProvider: LLMProvider | null = null;
         try {
           // Get the active provider
           const activeProvider = this.providerManager.getActiveProvider();
@@ -428,27 +865,59 @@ When asked about your identity, you should identify yourself as a coding assista
             throw new Error('No active provider available');
           }
 
-          debugLog('Making API call with provider:', activeProvider.name);
-          debugLog('Using model:', this.model);
+          // Routing rules pick the model for this phase; a custom command's model takes precedence
+          const route = this.runOptions.model
+            ? { task: phase, provider: activeProvider, model: this.runOptions.model }
+            : this.modelRouter.resolve(phase, { provider: activeProvider, model: this.model }, failedProviders);
+          const { provider, model } = route;
+          requestProvider = provider;
+          if (this.onRoute && this.modelRouter.hasRoutes()) {
+            this.onRoute({ task: route.task, provider: provider.displayName, model });
+          }
+          const tools = this.getRunToolSchemas();
+          debugLog('Making API call with provider:', provider.name);
+          debugLog('Using model:', model);
           debugLog('Messages count:', this.messages.length);
           debugLog('Last few messages:', this.messages.slice(-3));
           
           // Create AbortController for this request
           this.currentAbortController = new AbortController();
+
+          // Keep the conversation within the model's context window
+          const contextLength = await this.contextManager.getContextLength(provider, model);
+          this.contextLength = contextLength;
+          if (this.contextManager.needsCompaction(this.messages, contextLength, tools)) {
+            debugLog('Conversation is close to the context limit, compacting');
+            await this.compactMessages(provider, contextLength, false);
+          }
           
           // Prepare chat options
           const chatOptions: ChatOptions = {
-            model: this.model,
-            messages: this.messages,
-            tools: ALL_TOOL_SCHEMAS,
+            model,
+            messages: this.getRunMessages(),
+            tools,
             temperature: this.temperature,
-            max_tokens: 8000
+            max_tokens: this.contextManager.getMaxOutputTokens(contextLength)
           };
           
           this.requestCount++;
           debugLog('Calling provider chat method with options:', chatOptions);
           
-          const response = await activeProvider.chat(chatOptions, this.currentAbortController.signal);
+          // Stream partial text to the UI when a listener is registered
+          let streamedContent = '';
+          let streamedReasoning = '';
+          const onChunk = this.onStreamingText ? (chunk: ChatStreamChunk) => {
+            if (!chunk.content && !chunk.reasoning) {
+              return;
+            }
+            streamedContent += chunk.content || '';
+            streamedReasoning += chunk.reasoning || '';
+            this.onStreamingText!(streamedContent, streamedReasoning || undefined);
+          } : undefined;
+
+          // Models without native function calling get tools through the prompt
+          const response = await chatWithTools(provider, chatOptions, this.currentAbortController.signal, onChunk);
+          retryAttempt = 0;
 
           debugLog('Full API response received:', response);
           debugLog('Response usage:', response.usage);
@@ -458,8 +927,10 @@ When asked about your identity, you should identify yourself as a coding assista
           const message = response.choices[0].message;
           
           // Extract reasoning if present
-          const reasoning = (message as any).reasoning;
+          const reasoning = message.reasoning;
           
+          this.recordUsage(route.task, provider, model, response.usage);
+
           // Pass usage data to callback if available
           if (response.usage && this.onApiUsage) {
             this.onApiUsage({
@@ -468,6 +939,14 @@ When asked about your identity, you should identify yourself as a coding assista
               total_tokens: response.usage.total_tokens
             });
           }
+
+          // Real prompt sizes keep the token estimates honest
+          if (response.usage?.prompt_tokens) {
+            this.contextManager.calibrate(chatOptions.messages, chatOptions.tools, response.usage.prompt_tokens);
+            this.reportContextUsage(response.usage.prompt_tokens + response.usage.completion_tokens);
+          } else {
+            this.reportContextUsage();
+          }
           debugLog('Message content length:', message.content?.length || 0);
           debugLog('Message has tool_calls:', !!message.tool_calls);
           debugLog('Message tool_calls count:', message.tool_calls?.length || 0);
@@ -478,6 +957,7 @@ When asked about your identity, you should identify yourself as a coding assista
 
           // Handle tool calls if present
           if (message.tool_calls) {
+            phase = 'edit';
             // Show thinking text or reasoning if present
             if (message.content || reasoning) {
               if (this.onThinkingText) {
@@ -490,33 +970,73 @@ When asked about your identity, you should identify yourself as a coding assista
               role: 'assistant',
               content: message.content || ''
             };
-            assistantMsg.tool_calls = message.tool_calls;
+            // parseError is only for executeToolCall, providers reject unknown fields in the history
+            assistantMsg.tool_calls = message.tool_calls.map(({ parseError, ...toolCall }: any) => toolCall);
             this.messages.push(assistantMsg);
 
-            // Execute tool calls
-            for (const toolCall of message.tool_calls) {
+            // Execute tool calls, running consecutive read-only calls together
+            const toolCalls = message.tool_calls;
+            let index = 0;
+            while (index < toolCalls.length) {
               // Check for interruption before each tool execution
               if (this.isInterrupted) {
                 debugLog('Tool execution interrupted by user');
                 this.currentAbortController = null;
                 return;
               }
-              
-              const result = await this.executeToolCall(toolCall);
-
-              // Add tool result to conversation (including rejected ones)
-              this.messages.push({
-                role: 'tool',
-                tool_call_id: toolCall.id,
-                content: JSON.stringify(result)
+
+              const batch = [toolCalls[index]];
+              if (this.canRunInParallel(toolCalls[index])) {
+                while (index + batch.length < toolCalls.length && this.canRunInParallel(toolCalls[index + batch.length])) {
+                  batch.push(toolCalls[index + batch.length]);
+                }
+              }
+              if (batch.length > 1) {
+                debugLog(`Running ${batch.length} read-only tool calls in parallel`);
+              }
+
+              this.toolAbortController = new AbortController();
+              let results: Record<string, any>[];
+              try {
+                results = await Promise.all(batch.map(toolCall => this.executeToolCall(toolCall)));
+              } finally {
+                this.toolAbortController = null;
+              }
+              index += batch.length;
+
+              // Add tool results to conversation in call order (including rejected ones)
+              batch.forEach((toolCall, i) => {
+                this.messages.push({
+                  role: 'tool',
+                  tool_call_id: toolCall.id,
+                  content: JSON.stringify(results[i])
+                });
               });
 
+              // Stopped mid-batch: answer the remaining calls so the history stays valid, then stop
+              if (this.isInterrupted) {
+                for (const skipped of toolCalls.slice(index)) {
+                  this.messages.push({
+                    role: 'tool',
+                    tool_call_id: skipped.id,
+                    content: JSON.stringify({ success: false, interrupted: true, error: 'Tool execution skipped, user interrupted the request' })
+                  });
+                }
+                this.messages.push({
+                  role: 'system',
+                  content: 'User has interrupted the request.'
+                });
+                this.currentAbortController = null;
+                return;
+              }
+
               // Check if user rejected the tool, if so, stop processing
-              if (result.userRejected) {
+              const rejected = batch.find((_toolCall, i) => results[i].userRejected);
+              if (rejected) {
                 // Add a note to the conversation that the user rejected the tool
                 this.messages.push({
                   role: 'system',
-                  content: `The user rejected the ${toolCall.function.name} tool execution. The response has been terminated. Please wait for the user's next instruction.`
+                  content: `The user rejected the ${rejected.function.name} tool execution. The response has been terminated. Please wait for the user's next instruction.`
                 });
                 return;
               }
@@ -546,15 +1066,35 @@ When asked about your identity, you should identify yourself as a coding assista
             content: content
           });
 
-          debugLog('Final response added to conversation history, exiting chat loop');
           this.currentAbortController = null; // Clear abort controller
+
+          // Stop hooks can send the agent back to work, e.g. while tests still fail
+          const stopHooks = await HookManager.getInstance().run(
+            'Stop',
+            { last_message: content, stop_hook_active: stopHookContinuations > 0 },
+            { sessionId: this.sessionId }
+          );
+          if (stopHooks.blocked && !this.isInterrupted && !shouldContinueAfterStop(stopHooks, stopHookContinuations)) {
+            debugLog(`Stop hook asked the agent to continue again, stopping after ${MAX_STOP_HOOK_CONTINUATIONS} continuations:`, stopHooks.reason);
+          } else if (stopHooks.blocked && !this.isInterrupted) {
+            debugLog('Stop hook asked the agent to continue:', stopHooks.reason);
+            stopHookContinuations++;
+            this.messages.push({
+              role: 'system',
+              content: `A Stop hook asked you to continue instead of finishing: ${stopHooks.reason}`
+            });
+            iteration++;
+            continue;
+          }
+
+          debugLog('Final response added to conversation history, exiting chat loop');
           return; // Successfully completed, exit both loops
 
         } catch (error) {
           this.currentAbortController = null; // Clear abort controller
           
           // Check if this is an abort error due to user interruption
-          if (error instanceof Error && (
+          if (this.isInterrupted && error instanceof Error && (
             error.message.includes('Request was aborted') ||
             error.message.includes('The operation was aborted') ||
             error.name === 'AbortError'
@@ -563,6 +1103,17 @@ When asked about your identity, you should identify yourself as a coding assista
             // Don't add error message if it's an interruption - the interrupt message was already added
             return;
           }
+
+          // Rate limits, server errors, timeouts and dropped connections are retried or failed over
+          const failure = classifyFailure(error);
+          const recovery = failure === 'fatal' ? null : await this.recoverFromFailure(error, failure, retryAttempt, requestProvider, failedProviders);
+          if (recovery) {
+            retryAttempt = recovery === 'retry' ? retryAttempt + 1 : 0;
+            continue;
+          }
+          if (this.isInterrupted) {
+            return;
+          }
           
           debugLog('Error occurred during API call:', error);
           debugLog('Error details:', {
@@ -595,9 +1146,14 @@ When asked about your identity, you should identify yourself as a coding assista
           }
           
           // For 401 errors (invalid API key), don't retry - terminate immediately
-          if (is401Error) {
+          if (is401Error || (error instanceof ProviderError && error.statusCode === 401)) {
             throw new Error(`${errorMessage}. Please check your API key and use /login to set a valid key.`);
           }
+
+          // Retries ran out; the model can't do anything about an unavailable provider
+          if (failure !== 'fatal') {
+            throw error;
+          }
           
           // Add error context to conversation for model to see and potentially recover
           this.messages.push({
@@ -627,13 +1183,200 @@ When asked about your identity, you should identify yourself as a coding assista
     }
   }
 
+  /**
+   * Add a request's tokens to the usage ledger
+   */
+  private recordUsage(
+    task: RouteTask,
+    provider: LLMProvider,
+    model: string,
+    usage: { prompt_tokens: number; completion_tokens: number } | undefined,
+    sessionId: string | null = this.sessionId
+  ): void {
+    if (!usage) {
+      return;
+    }
+    UsageLedger.getInstance().record({
+      provider: provider.name,
+      model,
+      session: sessionId,
+      agent: AgentManager.getInstance().getCurrentAgent().name,
+      task,
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0
+    });
+  }
+
+  /**
+   * Report budgets that have been used up, each once per day or session, and
+   * throw when the budgets are set to stop the agent
+   */
+  private checkBudgets(): void {
+    const budgets = this.configManager.getBudgets();
+    const exceeded = UsageLedger.getInstance().getExceededBudgets(this.sessionId, budgets);
+    if (exceeded.length === 0) {
+      return;
+    }
+    if (budgets.action === 'stop') {
+      const reset = exceeded[0].scope === 'daily' ? 'wait until tomorrow' : 'start a new session with /clear';
+      throw new Error(`${formatBudget(exceeded[0])}. Raise "budgets" in ~/.groq/config.json or ${reset}, see /usage.`);
+    }
+
+    for (const status of exceeded) {
+      const key = `${status.scope}:${status.unit}:${status.scope === 'daily' ? getDayKey() : this.sessionId}`;
+      if (this.reportedBudgets.has(key)) {
+        continue;
+      }
+      this.reportedBudgets.add(key);
+      if (this.onBudget) {
+        this.onBudget(status);
+      }
+    }
+  }
+
+  /**
+   * Handle a request that failed with a retryable error: wait and send it again, or
+   * once retries run out (or the provider is down) switch to another provider. A
+   * routed provider falls back to the session's provider, which fails over to the
+   * next one when failover is enabled. The conversation is kept, only the provider
+   * and model change. Returns null when the request should fail.
+   */
+  private async recoverFromFailure(
+    error: unknown,
+    kind: FailureKind,
+    attempt: number,
+    requestProvider: LLMProvider | null,
+    failedProviders: string[]
+  ): Promise<'retry' | 'failover' | null> {
+    const activeProvider = this.providerManager.getActiveProvider();
+    const provider = requestProvider || activeProvider;
+    if (!provider || !activeProvider) {
+      return null;
+    }
+    const routed = provider !== activeProvider;
+    const retrySettings = this.configManager.getRetrySettings();
+    const failover = this.configManager.getFailoverSettings();
+    const message = error instanceof Error ? error.message : String(error);
+
+    // Don't wait for a provider that stopped answering when another one can take over
+    const providerDown = kind === 'connection' && (routed || failover.enabled) && !(await this.providerManager.healthCheck(provider));
+    const delay = providerDown ? null : getRetryDelay(error, attempt, retrySettings);
+    if (delay !== null) {
+      debugLog(`Request to ${provider.name} failed (${kind}), retry ${attempt + 1} in ${delay}ms`);
+      if (this.onRetry) {
+        this.onRetry({ kind, provider: provider.displayName, attempt: attempt + 1, maxRetries: getMaxRetries(retrySettings), delayMs: delay, error: message });
+      }
+      // Interrupting ends the wait
+      this.currentAbortController = new AbortController();
+      await waitForRetry(delay, this.currentAbortController.signal);
+      this.currentAbortController = null;
+      return this.isInterrupted ? null : 'retry';
+    }
+
+    if (routed) {
+      failedProviders.push(provider.name);
+      debugLog(`Routed provider ${provider.name} failed, falling back to ${activeProvider.name}`);
+      if (this.onFailover) {
+        this.onFailover({ from: provider.displayName, to: activeProvider.displayName, model: this.runOptions.model || this.model, error: message });
+      }
+      return 'failover';
+    }
+
+    if (!failover.enabled) {
+      return null;
+    }
+    failedProviders.push(provider.name);
+    const next = await this.providerManager.failover(this.runOptions.model || this.model, failover, failedProviders);
+    if (!next || this.isInterrupted) {
+      return null;
+    }
+
+    debugLog(`Failed over from ${provider.name} to ${next.provider.name} with ${next.model}`);
+    if (this.runOptions.model) {
+      this.runOptions.model = next.model;
+    } else {
+      this.model = next.model;
+      this.reloadSystemMessage();
+    }
+    if (this.onFailover) {
+      this.onFailover({ from: provider.displayName, to: next.provider.displayName, model: next.model, error: message });
+    }
+    return 'failover';
+  }
+
+  /**
+   * SessionStart hooks for the first prompt of a session, then UserPromptSubmit hooks.
+   * Returns the context they printed; throws if a hook blocks the prompt.
+   */
+  private async runPromptHooks(userInput: string): Promise<string[]> {
+    const hookManager = HookManager.getInstance();
+    const context: string[] = [];
+
+    if (this.pendingSessionStart) {
+      const source = this.pendingSessionStart;
+      this.pendingSessionStart = null;
+      const sessionStart = await hookManager.run('SessionStart', { source }, { sessionId: this.sessionId });
+      context.push(...sessionStart.feedback);
+    }
+
+    const promptHooks = await hookManager.run('UserPromptSubmit', { prompt: userInput }, { sessionId: this.sessionId });
+    if (promptHooks.blocked) {
+      throw new Error(`Prompt blocked by UserPromptSubmit hook: ${promptHooks.reason}`);
+    }
+    context.push(...promptHooks.feedback);
+    return context;
+  }
+
+  private getRunToolSchemas() {
+    const { allowedTools } = this.runOptions;
+    const schemas = [...ALL_TOOL_SCHEMAS, ...McpManager.getInstance().getToolSchemas()];
+    return allowedTools ? schemas.filter(schema => allowedTools.includes(schema.function.name)) : schemas;
+  }
+
+  /**
+   * Conversation as sent to the provider, with the system prompt override of this run applied
+   */
+  private getRunMessages(): Message[] {
+    const { systemPrompt } = this.runOptions;
+    if (!systemPrompt) {
+      return this.messages;
+    }
+    const memoryPrompt = buildMemoryPrompt();
+    const content = memoryPrompt ? `${systemPrompt}\n\n${memoryPrompt}` : systemPrompt;
+    return this.messages.map(msg => msg.role === 'system' && msg.content === this.systemMessage ? { ...msg, content } : msg);
+  }
+
+  /**
+   * Read-only calls that won't prompt for approval, so they can run alongside each other.
+   * PreToolUse hooks may still rewrite them into calls that do, see approvalQueue.
+   */
+  private canRunInParallel(toolCall: any): boolean {
+    const toolName = toolCall.function.name.replace(/^repo_browser\./, '');
+    if (!PARALLEL_TOOLS.includes(toolName)) {
+      return false;
+    }
+    try {
+      const toolArgs = JSON.parse(toolCall.function.arguments);
+      return PermissionManager.getInstance().evaluate(toolName, toolArgs)?.action !== 'ask';
+    } catch {
+      return false;
+    }
+  }
+
   private async executeToolCall(toolCall: any): Promise<Record<string, any>> {
+    // Strip 'repo_browser.' prefix if present (some models hallucinate this)
+    let toolName = toolCall.function.name;
+    if (toolName.startsWith('repo_browser.')) {
+      toolName = toolName.substring('repo_browser.'.length);
+    }
+    let started = false;
+
+    // A prompt-based tool call whose JSON didn't parse
+    if (toolCall.parseError) {
+      return { error: toolCall.parseError, success: false };
+    }
+
     try {
-      // Strip 'repo_browser.' prefix if present (some models hallucinate this)
-      let toolName = toolCall.function.name;
-      if (toolName.startsWith('repo_browser.')) {
-        toolName = toolName.substring('repo_browser.'.length);
-      }
 
       // Handle truncated tool calls
       let toolArgs: any;
@@ -647,9 +1390,37 @@ When asked about your identity, you should identify yourself as a coding assista
       }
 
       // Notify UI about tool start
+      started = true;
       if (this.onToolStart) {
-        this.onToolStart(toolName, toolArgs);
+        this.onToolStart(toolName, toolArgs, toolCall.id);
+      }
+
+      // Custom commands can limit which tools the model may use
+      const { allowedTools } = this.runOptions;
+      if (allowedTools && !allowedTools.includes(toolName)) {
+        const result = { error: `Tool ${toolName} is not allowed for this command. Allowed tools: ${allowedTools.join(', ')}`, success: false };
+        if (this.onToolEnd) {
+          this.onToolEnd(toolName, result, toolCall.id);
+        }
+        return result;
+      }
+
+      // PreToolUse hooks can block the call or rewrite its arguments
+      const hookManager = HookManager.getInstance();
+      const hookOptions = { sessionId: this.sessionId, signal: this.toolAbortController?.signal };
+      const preHooks = await hookManager.run('PreToolUse', { tool_name: toolName, tool_input: toolArgs }, hookOptions);
+      if (preHooks.blocked) {
+        const result = { error: `Tool call blocked by PreToolUse hook: ${preHooks.reason}`, success: false };
+        if (this.onToolEnd) {
+          this.onToolEnd(toolName, result, toolCall.id);
+        }
+        return result;
+      }
+      if (preHooks.toolInput) {
+        debugLog('PreToolUse hook replaced the tool arguments:', preHooks.toolInput);
+        toolArgs = preHooks.toolInput;
       }
+      const hookFeedback = [...preHooks.feedback];
 
       // Check read-before-edit for edit tools
       if (toolName === 'edit_file' && toolArgs.file_path) {
@@ -657,40 +1428,65 @@ When asked about your identity, you should identify yourself as a coding assista
           const errorMessage = getReadBeforeEditError(toolArgs.file_path);
           const result = { error: errorMessage, success: false };
           if (this.onToolEnd) {
-            this.onToolEnd(toolName, result);
+            this.onToolEnd(toolName, result, toolCall.id);
           }
           return result;
         }
       }
 
+      // Project and global permission rules take precedence over the built-in tool lists
+      const permissionManager = PermissionManager.getInstance();
+      const decision = permissionManager.evaluate(toolName, toolArgs);
+      if (decision?.action === 'deny') {
+        const result = {
+          error: `Tool call blocked by ${decision.scope} permission rule: ${permissionManager.describeRule(decision.rule)}`,
+          success: false
+        };
+        if (this.onToolEnd) {
+          this.onToolEnd(toolName, result, toolCall.id);
+        }
+        return result;
+      }
+
       // Check if tool needs approval (only after validation passes)
-      const isDangerous = DANGEROUS_TOOLS.includes(toolName);
-      const requiresApproval = APPROVAL_REQUIRED_TOOLS.includes(toolName);
-      const needsApproval = isDangerous || requiresApproval;
+      const mcpApproval = McpManager.getInstance().getApprovalLevel(toolName);
+      const isDangerous = DANGEROUS_TOOLS.includes(toolName) || mcpApproval === 'dangerous';
+      const requiresApproval = APPROVAL_REQUIRED_TOOLS.includes(toolName) || mcpApproval === 'approval';
+      const mustAsk = decision?.action === 'ask';
+      // Dangerous tools are only let through by allow rules that name them, not by wildcards
+      const allowed = decision?.action === 'allow' && (!isDangerous || decision.rule.tool === toolName);
+      const needsApproval = mustAsk || (!allowed && (isDangerous || requiresApproval));
       
       // For APPROVAL_REQUIRED_TOOLS, check if session auto-approval is enabled
-      const canAutoApprove = requiresApproval && !isDangerous && this.sessionAutoApprove;
+      const canAutoApprove = !mustAsk && requiresApproval && !isDangerous && this.sessionAutoApprove;
             
       if (needsApproval && !canAutoApprove) {
-        let approvalResult: { approved: boolean; autoApproveSession?: boolean };
+        let approvalResult: ToolApprovalResult;
         
         if (this.onToolApproval) {
           // Check for interruption before waiting for approval
           if (this.isInterrupted) {
             const result = { error: 'Tool execution interrupted by user', success: false, userRejected: true };
             if (this.onToolEnd) {
-              this.onToolEnd(toolName, result);
+              this.onToolEnd(toolName, result, toolCall.id);
             }
             return result;
           }
           
-          approvalResult = await this.onToolApproval(toolName, toolArgs);
+          // An allow rule could not override an ask rule, nor take effect in an untrusted project file
+          const suggestedRule = mustAsk || permissionManager.hasUntrustedProjectRules() ? null : permissionManager.suggestRule(toolName, toolArgs);
+          // The UI shows one prompt at a time, so each waits for the one before it
+          const onToolApproval = this.onToolApproval;
+          const approval = this.approvalQueue.then(() =>
+            this.isInterrupted ? { approved: false } : onToolApproval(toolName, toolArgs, suggestedRule));
+          this.approvalQueue = approval.catch(() => undefined);
+          approvalResult = await approval;
           
           // Check for interruption after approval process
           if (this.isInterrupted) {
             const result = { error: 'Tool execution interrupted by user', success: false, userRejected: true };
             if (this.onToolEnd) {
-              this.onToolEnd(toolName, result);
+              this.onToolEnd(toolName, result, toolCall.id);
             }
             return result;
           }
@@ -703,29 +1499,76 @@ When asked about your identity, you should identify yourself as a coding assista
         if (approvalResult.autoApproveSession && requiresApproval && !isDangerous) {
           this.sessionAutoApprove = true;
         }
+
+        if (approvalResult.approved && approvalResult.alwaysAllowRule) {
+          try {
+            permissionManager.addRule(approvalResult.alwaysAllowRule, 'project');
+          } catch (error) {
+            debugLog('Failed to save permission rule:', error);
+          }
+        }
         
         if (!approvalResult.approved) {
           const result = { error: 'Tool execution canceled by user', success: false, userRejected: true };
           if (this.onToolEnd) {
-            this.onToolEnd(toolName, result);
+            this.onToolEnd(toolName, result, toolCall.id);
           }
           return result;
         }
       }
     
-      // Execute tool
-      const result = await executeTool(toolName, toolArgs);
+      // Record the prior state of files this tool may change
+      let checkpoint: Checkpoint | null = null;
+      if (CHECKPOINT_TOOLS.includes(toolName) && typeof toolArgs.file_path === 'string' && !validateWorkspacePath(toolArgs.file_path)) {
+        try {
+          checkpoint = await this.checkpointManager.capture(toolName, toolArgs.file_path, this.turns.length);
+        } catch (error) {
+          debugLog('Failed to record checkpoint:', error);
+        }
+      }
+
+      // Execute tool, streaming command output to the UI as it arrives
+      const result = await executeTool(toolName, toolArgs, {
+        onOutput: (chunk: string) => {
+          if (this.onToolOutput) {
+            this.onToolOutput(toolName, chunk);
+          }
+        },
+        signal: this.toolAbortController?.signal
+      });
+
+      // Nothing changed, nothing to undo (an interrupted tool may still have changed files)
+      if (checkpoint && !result.success && !result.interrupted) {
+        this.checkpointManager.discard(checkpoint);
+      }
+
+      // PostToolUse hooks see the result and can report problems back to the model
+      if (!result.interrupted) {
+        const postHooks = await hookManager.run('PostToolUse', { tool_name: toolName, tool_input: toolArgs, tool_result: result }, hookOptions);
+        hookFeedback.push(...postHooks.feedback);
+        if (postHooks.blocked && postHooks.reason) {
+          hookFeedback.push(postHooks.reason);
+        }
+      }
+      if (hookFeedback.length > 0) {
+        result.hookFeedback = hookFeedback.join('\n\n');
+      }
 
       // Notify UI about tool completion
       if (this.onToolEnd) {
-        this.onToolEnd(toolName, result);
+        this.onToolEnd(toolName, result, toolCall.id);
       }
 
       return result;
 
     } catch (error) {
       const errorMsg = `Tool execution error: ${error}`;
-      return { error: errorMsg, success: false };
+      const result = { error: errorMsg, success: false };
+      // The UI shows the tool as running until it hears it ended
+      if (started && this.onToolEnd) {
+        this.onToolEnd(toolName, result, toolCall.id);
+      }
+      return result;
     }
   }
 }
@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+
+// Tools whose changes are recorded so they can be undone
+export const CHECKPOINT_TOOLS = ['create_file', 'edit_file', 'delete_file'];
+
+// Larger changes (e.g. deleting a build directory) are not kept in memory
+const MAX_CHECKPOINT_BYTES = 50 * 1024 * 1024;
+
+interface FileSnapshot {
+  path: string;
+  kind: 'missing' | 'file' | 'directory' | 'symlink';
+  content?: Buffer;
+  mode?: number;
+  linkTarget?: string;
+}
+
+export interface Checkpoint {
+  id: number;
+  turn: number;
+  toolName: string;
+  target: string;
+  createdAt: Date;
+  // Target first, then its contents for directories
+  snapshots: FileSnapshot[];
+}
+
+/**
+ * Keeps the state files had before each mutating tool call, in memory, so
+ * agent changes can be undone one by one or rewound to an earlier turn
+ */
+export class CheckpointManager {
+  private checkpoints: Checkpoint[] = [];
+  private nextId = 1;
+
+  /**
+   * Snapshot a path before a tool changes it
+   */
+  async capture(toolName: string, targetPath: string, turn: number): Promise<Checkpoint> {
+    const checkpoint: Checkpoint = {
+      id: this.nextId++,
+      turn,
+      toolName,
+      target: targetPath,
+      createdAt: new Date(),
+      snapshots: await this.snapshot(path.resolve(targetPath), { bytes: 0 })
+    };
+    this.checkpoints.push(checkpoint);
+    return checkpoint;
+  }
+
+  /**
+   * Forget a checkpoint whose tool call didn't change anything
+   */
+  discard(checkpoint: Checkpoint): void {
+    this.checkpoints = this.checkpoints.filter(existing => existing !== checkpoint);
+  }
+
+  list(): Checkpoint[] {
+    return [...this.checkpoints];
+  }
+
+  clear(): void {
+    this.checkpoints = [];
+  }
+
+  /**
+   * Restore the files changed by the most recent checkpoint
+   */
+  async undoLast(): Promise<Checkpoint | null> {
+    const checkpoint = this.checkpoints[this.checkpoints.length - 1];
+    if (!checkpoint) {
+      return null;
+    }
+    await this.restore(checkpoint);
+    this.checkpoints.pop();
+    return checkpoint;
+  }
+
+  /**
+   * Restore files changed during the given turn and every later one, newest first
+   */
+  async rewindTo(turn: number): Promise<Checkpoint[]> {
+    const restored: Checkpoint[] = [];
+    while (this.checkpoints.length > 0 && this.checkpoints[this.checkpoints.length - 1].turn >= turn) {
+      const checkpoint = this.checkpoints[this.checkpoints.length - 1];
+      await this.restore(checkpoint);
+      this.checkpoints.pop();
+      restored.push(checkpoint);
+    }
+    return restored;
+  }
+
+  private async snapshot(targetPath: string, total: { bytes: number }): Promise<FileSnapshot[]> {
+    const stats = await fs.promises.lstat(targetPath).catch(() => null);
+    if (!stats) {
+      return [{ path: targetPath, kind: 'missing' }];
+    }
+
+    if (stats.isSymbolicLink()) {
+      return [{ path: targetPath, kind: 'symlink', linkTarget: await fs.promises.readlink(targetPath) }];
+    }
+
+    if (stats.isDirectory()) {
+      const snapshots: FileSnapshot[] = [{ path: targetPath, kind: 'directory', mode: stats.mode }];
+      for (const entry of await fs.promises.readdir(targetPath)) {
+        snapshots.push(...await this.snapshot(path.join(targetPath, entry), total));
+      }
+      return snapshots;
+    }
+
+    total.bytes += stats.size;
+    if (total.bytes > MAX_CHECKPOINT_BYTES) {
+      throw new Error(`Checkpoint for ${targetPath} would exceed ${MAX_CHECKPOINT_BYTES / (1024 * 1024)}MB`);
+    }
+    return [{ path: targetPath, kind: 'file', content: await fs.promises.readFile(targetPath), mode: stats.mode }];
+  }
+
+  private async restore(checkpoint: Checkpoint): Promise<void> {
+    const [root] = checkpoint.snapshots;
+
+    // Whatever is there now is replaced by the snapshot, or removed if the path didn't exist
+    const current = await fs.promises.lstat(root.path).catch(() => null);
+    if (current && !(root.kind === 'directory' && current.isDirectory())) {
+      await fs.promises.rm(root.path, { recursive: true, force: true });
+    }
+
+    for (const snapshot of checkpoint.snapshots) {
+      switch (snapshot.kind) {
+        case 'directory':
+          await fs.promises.mkdir(snapshot.path, { recursive: true, mode: snapshot.mode });
+          break;
+        case 'file':
+          await fs.promises.mkdir(path.dirname(snapshot.path), { recursive: true });
+          await fs.promises.writeFile(snapshot.path, snapshot.content!, { mode: snapshot.mode });
+          break;
+        case 'symlink':
+          await fs.promises.rm(snapshot.path, { force: true });
+          await fs.promises.symlink(snapshot.linkTarget!, snapshot.path);
+          break;
+      }
+    }
+  }
+}
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
 import chalk from 'chalk';
+import fs from 'fs';
 import { render } from 'ink';
 import React from 'react';
 import { Agent } from './agent.js';
@@ -8,9 +9,31 @@ import App from '../ui/App.js';
 import { logger, LogLevel } from '../utils/logger.js';
 import { getCurrentVersion, performBackgroundVersionCheck, VersionInfo } from '../utils/version.js';
 import { initializeInterruptHandler, onInterrupt } from '../utils/interrupt-handler.js';
+import { ConfigManager } from '../utils/local-settings.js';
+import { setWorkspaceRoot, setAllowedDirectories, getWorkspaceRoot } from '../tools/workspace.js';
+import { runHeadless, readStdin, HeadlessOutputFormat, HEADLESS_EXIT_CODES, HEADLESS_USAGE_EXIT_CODE } from './headless.js';
 
 const program = new Command();
 
+/**
+ * Confine file tools to the workspace root plus configured and --add-dir directories
+ */
+function configureWorkspace(workspace: string | undefined, addDirs: string[]): string | null {
+  const root = workspace || process.cwd();
+  for (const dir of [root, ...addDirs]) {
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      return `Directory not found: ${dir}`;
+    }
+  }
+
+  // Resolved before changing directory, they may be relative to where groq was started
+  setWorkspaceRoot(root);
+  setAllowedDirectories([...new ConfigManager().getAllowedDirectories(), ...addDirs]);
+  // Relative tool paths, commands and git then all work from the workspace
+  process.chdir(getWorkspaceRoot());
+  return null;
+}
+
 async function startChat(
   temperature: number,
   system: string | null,
@@ -94,6 +117,41 @@ async function startChat(
   }
 }
 
+async function runPrompt(
+  prompt: string | undefined,
+  options: { temperature: number; system: string | null; debug?: boolean; output: string; allowEdits?: boolean; allowDangerous?: boolean }
+): Promise<number> {
+  // stdout carries only the answer, keep informational logs out of it
+  logger.setLevel(LogLevel.WARN);
+
+  if (options.output !== 'text' && options.output !== 'json') {
+    console.error(chalk.red(`Invalid output format: ${options.output}. Use 'text' or 'json'.`));
+    return HEADLESS_USAGE_EXIT_CODE;
+  }
+
+  // Piped input is the prompt itself, or extra context after the -p prompt
+  const stdinText = process.stdin.isTTY ? '' : (await readStdin()).trim();
+  const promptText = prompt && prompt !== '-' ? prompt.trim() : '';
+  const fullPrompt = [promptText, stdinText].filter(Boolean).join('\n\n');
+
+  if (!fullPrompt) {
+    console.error(chalk.red('No prompt given. Pass one with -p "<prompt>" or pipe it through stdin.'));
+    return HEADLESS_USAGE_EXIT_CODE;
+  }
+
+  try {
+    const agent = await Agent.create('moonshotai/kimi-k2-instruct', options.temperature, options.system, options.debug);
+    return await runHeadless(agent, fullPrompt, {
+      output: options.output as HeadlessOutputFormat,
+      allowEdits: options.allowEdits || false,
+      allowDangerous: options.allowDangerous || false
+    });
+  } catch (error) {
+    console.error(chalk.red(`Error initializing agent: ${error instanceof Error ? error.message : error}`));
+    return HEADLESS_EXIT_CODES.error;
+  }
+}
+
 program
   .name('groq')
   .description('Groq Code CLI')
@@ -101,7 +159,34 @@ program
   .option('-t, --temperature <temperature>', 'Temperature for generation', parseFloat, 1.0)
   .option('-s, --system <message>', 'Custom system message')
   .option('-d, --debug', 'Enable debug logging to debug-agent.log in current directory')
+  .option('-p, --prompt <prompt>', 'Run a single prompt without the interactive UI and print the answer ("-" reads it from stdin)')
+  .option('-o, --output <format>', 'Output format for headless mode: text or json', 'text')
+  .option('--allow-edits', 'Headless mode: create and edit files without approval')
+  .option('--allow-dangerous', 'Headless mode: delete files and run commands without approval')
+  .option('-w, --workspace <dir>', 'Directory to work in, file tools are confined to it (default: current directory)')
+  .option('--add-dir <dir>', 'Also allow file tools to access this directory (repeatable)', (dir: string, dirs: string[]) => [...dirs, dir], [] as string[])
+  .addHelpText('after', `
+Runs headless whenever stdin is not a terminal, even without -p.
+Headless exit codes: ${HEADLESS_EXIT_CODES.success} success, ${HEADLESS_EXIT_CODES.error} error, ${HEADLESS_USAGE_EXIT_CODE} invalid arguments or empty prompt,
+${HEADLESS_EXIT_CODES.tool_denied} tool denied, ${HEADLESS_EXIT_CODES.max_iterations} iteration limit reached, ${HEADLESS_EXIT_CODES.interrupted} interrupted`)
   .action(async (options) => {
+    const workspaceError = configureWorkspace(options.workspace, options.addDir);
+    if (workspaceError) {
+      console.error(chalk.red(workspaceError));
+      process.exit(1);
+    }
+
+    // Headless when a prompt is given or input is piped, since the TUI needs a terminal
+    if (options.prompt !== undefined || !process.stdin.isTTY) {
+      const exitCode = await runPrompt(options.prompt, {
+        ...options,
+        system: options.system || null
+      });
+      // Output to a pipe can still be queued (e.g. on macOS), exiting before it's flushed would cut it off
+      await Promise.all([process.stdout, process.stderr].map(stream => new Promise(resolve => stream.write('', resolve))));
+      process.exit(exitCode);
+    }
+
     await startChat(
       options.temperature,
       options.system || null,
@@ -0,0 +1,251 @@
+import { LLMProvider, ChatMessage, ProviderUtils } from '../providers/index.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_CONTEXT_LENGTH = 8192;
+const MAX_OUTPUT_TOKENS = 8000;
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Rough cost of one attached image, providers scale images to a bounded size
+const IMAGE_TOKENS = 1000;
+
+// Compact when the prompt reaches this share of the input budget, and aim for this share afterwards
+const COMPACTION_THRESHOLD = 0.8;
+const COMPACTION_TARGET = 0.5;
+
+// Conversation turns (starting at a user message) that are never summarized
+const KEEP_RECENT_TURNS = 2;
+const MAX_TOOL_OUTPUT_CHARS = 4000;
+const MIN_TOOL_OUTPUT_CHARS = 500;
+
+export interface ContextUsage {
+  usedTokens: number;
+  contextLength: number;
+}
+
+export interface CompactionResult {
+  messages: ChatMessage[];
+  tokensBefore: number;
+  tokensAfter: number;
+  removedMessages: number;
+  truncatedOutputs: number;
+  summarized: boolean;
+}
+
+export type ConversationSummarizer = (messages: ChatMessage[]) => Promise<string>;
+
+/**
+ * Tracks how much of the model's context window the conversation uses and
+ * shrinks the history when it gets close to the limit
+ */
+export class ContextManager {
+  private contextLengths = new Map<string, number>();
+  // Ratio between real prompt tokens reported by the API and our estimate
+  private calibration = 1;
+
+  /**
+   * Context window of a model, looked up once from the provider's model list
+   */
+  async getContextLength(provider: LLMProvider, model: string): Promise<number> {
+    const key = `${provider.name}:${model}`;
+    const cached = this.contextLengths.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    let contextLength = DEFAULT_CONTEXT_LENGTH;
+    try {
+      const models = await provider.listModels();
+      const match = models.find(m => m.id === model || m.name === model);
+      if (match?.contextLength) {
+        contextLength = match.contextLength;
+      }
+    } catch (error) {
+      logger.debug(`Could not determine context length for ${key}, using ${DEFAULT_CONTEXT_LENGTH}:`, error);
+    }
+
+    this.contextLengths.set(key, contextLength);
+    return contextLength;
+  }
+
+  /**
+   * Output tokens to request, leaving the rest of the window for the prompt
+   */
+  getMaxOutputTokens(contextLength: number): number {
+    return Math.min(MAX_OUTPUT_TOKENS, Math.floor(contextLength / 4));
+  }
+
+  /**
+   * Tokens available for messages once the output reservation and tool schemas are accounted for
+   */
+  getInputBudget(contextLength: number, tools?: any[]): number {
+    const toolTokens = tools?.length ? this.estimateTextTokens(JSON.stringify(tools)) : 0;
+    return Math.max(0, contextLength - this.getMaxOutputTokens(contextLength) - toolTokens);
+  }
+
+  estimateTextTokens(text: string): number {
+    return Math.ceil((text.length / CHARS_PER_TOKEN) * this.calibration);
+  }
+
+  estimateMessageTokens(message: ChatMessage): number {
+    let tokens = MESSAGE_OVERHEAD_TOKENS + this.estimateTextTokens(ProviderUtils.getTextContent(message.content));
+    tokens += ProviderUtils.getImageParts(message.content).length * IMAGE_TOKENS;
+    if (message.tool_calls?.length) {
+      tokens += this.estimateTextTokens(JSON.stringify(message.tool_calls));
+    }
+    return tokens;
+  }
+
+  estimateTokens(messages: ChatMessage[], tools?: any[]): number {
+    const messageTokens = messages.reduce((total, message) => total + this.estimateMessageTokens(message), 0);
+    return messageTokens + (tools?.length ? this.estimateTextTokens(JSON.stringify(tools)) : 0);
+  }
+
+  /**
+   * Adjust estimates using the prompt token count reported by the provider
+   */
+  calibrate(messages: ChatMessage[], tools: any[] | undefined, actualPromptTokens: number): void {
+    if (!actualPromptTokens) {
+      return;
+    }
+    const uncalibrated = this.estimateTokens(messages, tools) / this.calibration;
+    if (uncalibrated > 0) {
+      this.calibration = Math.min(3, Math.max(0.5, actualPromptTokens / uncalibrated));
+    }
+  }
+
+  /**
+   * Whether the conversation is close enough to the input budget to need compaction
+   */
+  needsCompaction(messages: ChatMessage[], contextLength: number, tools?: any[]): boolean {
+    const budget = this.getInputBudget(contextLength, tools);
+    return this.estimateTokens(messages) > budget * COMPACTION_THRESHOLD;
+  }
+
+  /**
+   * Shrink the conversation: truncate old tool outputs first, then replace old
+   * turns with a summary (or drop them when no summarizer is available).
+   * With force, old turns are summarized even if the conversation already fits.
+   */
+  async compact(
+    messages: ChatMessage[],
+    contextLength: number,
+    options: { tools?: any[]; summarize?: ConversationSummarizer; force?: boolean } = {}
+  ): Promise<CompactionResult> {
+    const target = this.getInputBudget(contextLength, options.tools) * COMPACTION_TARGET;
+    const tokensBefore = this.estimateTokens(messages);
+
+    const { prefix, older, recent } = this.splitConversation(messages, options.force ? 1 : KEEP_RECENT_TURNS);
+
+    // Stage 1: truncate large tool outputs outside the recent turns
+    let truncatedOutputs = 0;
+    const truncatedOlder = older.map(message => {
+      const truncated = this.truncateToolOutput(message, MAX_TOOL_OUTPUT_CHARS);
+      if (truncated !== message) truncatedOutputs++;
+      return truncated;
+    });
+
+    let result = [...prefix, ...truncatedOlder, ...recent];
+    let removedMessages = 0;
+    let summarized = false;
+
+    // Stage 2: replace older turns with a summary
+    if (older.length > 0 && (options.force || this.estimateTokens(result) > target)) {
+      let summary: string | null = null;
+      if (options.summarize) {
+        try {
+          summary = (await options.summarize(truncatedOlder)).trim() || null;
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') {
+            throw error;
+          }
+          logger.warn('Conversation summary failed, dropping old turns instead:', error);
+        }
+      }
+
+      const note: ChatMessage = {
+        role: 'system',
+        content: summary
+          ? `Summary of the earlier conversation (${older.length} messages compacted):\n${summary}`
+          : `${older.length} earlier messages were removed to fit the context window.`
+      };
+      result = [...prefix, note, ...recent];
+      removedMessages = older.length;
+      summarized = summary !== null;
+      truncatedOutputs = 0;
+    }
+
+    // Stage 3: the recent turns alone are too large, shorten their tool outputs too
+    if (this.estimateTokens(result) > target) {
+      const maxChars = Math.max(MIN_TOOL_OUTPUT_CHARS, Math.floor(target * CHARS_PER_TOKEN / Math.max(1, recent.length)));
+      result = result.map(message => {
+        if (!recent.includes(message)) {
+          return message;
+        }
+        const truncated = this.truncateToolOutput(message, maxChars);
+        if (truncated !== message) truncatedOutputs++;
+        return truncated;
+      });
+    }
+
+    return {
+      messages: result,
+      tokensBefore,
+      tokensAfter: this.estimateTokens(result),
+      removedMessages,
+      truncatedOutputs,
+      summarized
+    };
+  }
+
+  /**
+   * Render messages as a plain transcript for summarization, capped to a token budget
+   */
+  renderTranscript(messages: ChatMessage[], maxTokens: number): string {
+    const lines = messages.map(message => {
+      const toolCalls = message.tool_calls?.length
+        ? `\n[tool calls: ${message.tool_calls.map(call => `${call.function?.name}(${call.function?.arguments})`).join(', ')}]`
+        : '';
+      const images = ProviderUtils.getImageParts(message.content).length;
+      return `${message.role.toUpperCase()}: ${ProviderUtils.getTextContent(message.content)}${images ? `\n[${images} image(s)]` : ''}${toolCalls}`;
+    });
+
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    const transcript = lines.join('\n\n');
+    // Keep the most recent part when the transcript is too long
+    return transcript.length > maxChars ? transcript.slice(transcript.length - maxChars) : transcript;
+  }
+
+  /**
+   * Split into the system prompt, older turns and the recent turns to keep.
+   * Earlier summaries belong to the older turns so they get folded into the next one.
+   * Cuts only happen at user messages so tool calls stay paired with their results.
+   */
+  private splitConversation(messages: ChatMessage[], keepTurns: number): { prefix: ChatMessage[]; older: ChatMessage[]; recent: ChatMessage[] } {
+    const prefixEnd = messages[0]?.role === 'system' ? 1 : 0;
+
+    const userIndexes = messages
+      .map((message, index) => (message.role === 'user' && index >= prefixEnd ? index : -1))
+      .filter(index => index >= 0);
+
+    const recentStart = userIndexes.length > keepTurns
+      ? userIndexes[userIndexes.length - keepTurns]
+      : prefixEnd;
+
+    return {
+      prefix: messages.slice(0, prefixEnd),
+      older: messages.slice(prefixEnd, recentStart),
+      recent: messages.slice(recentStart)
+    };
+  }
+
+  private truncateToolOutput(message: ChatMessage, maxChars: number): ChatMessage {
+    if (message.role !== 'tool' || typeof message.content !== 'string' || message.content.length <= maxChars) {
+      return message;
+    }
+    const removed = message.content.length - maxChars;
+    return {
+      ...message,
+      content: `${message.content.slice(0, maxChars)}\n[... ${removed} characters truncated to save context ...]`
+    };
+  }
+}
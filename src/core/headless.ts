@@ -0,0 +1,195 @@
+import chalk from 'chalk';
+import { Agent } from './agent.js';
+import { formatRetryNotice, formatFailoverNotice } from './retry-policy.js';
+import { formatBudget } from '../utils/usage-ledger.js';
+import { DANGEROUS_TOOLS, APPROVAL_REQUIRED_TOOLS } from '../tools/tool-schemas.js';
+import { McpManager } from '../tools/mcp-manager.js';
+
+export type HeadlessOutputFormat = 'text' | 'json';
+
+export interface HeadlessOptions {
+  output: HeadlessOutputFormat;
+  // Approve APPROVAL_REQUIRED_TOOLS (create/edit files) without asking
+  allowEdits: boolean;
+  // Approve DANGEROUS_TOOLS (delete files, run commands) without asking
+  allowDangerous: boolean;
+}
+
+export type HeadlessStatus = 'success' | 'error' | 'tool_denied' | 'max_iterations' | 'interrupted';
+
+export const HEADLESS_EXIT_CODES: Record<HeadlessStatus, number> = {
+  success: 0,
+  error: 1,
+  tool_denied: 3,
+  max_iterations: 4,
+  interrupted: 130
+};
+
+// Invalid flags or an empty prompt
+export const HEADLESS_USAGE_EXIT_CODE = 2;
+
+/**
+ * Why a tool the headless policy can't approve needed approval, and how to allow it
+ */
+function describeDenial(toolName: string): string {
+  if (DANGEROUS_TOOLS.includes(toolName) || APPROVAL_REQUIRED_TOOLS.includes(toolName)) {
+    const flag = DANGEROUS_TOOLS.includes(toolName) ? '--allow-dangerous' : '--allow-edits';
+    return `needs approval, rerun with ${flag} to allow it`;
+  }
+  const mcpApproval = McpManager.getInstance().getApprovalLevel(toolName);
+  if (mcpApproval === 'dangerous' || mcpApproval === 'approval') {
+    const kind = mcpApproval === 'dangerous' ? 'a destructive MCP tool' : 'an MCP tool that may change things';
+    return `needs approval as ${kind}, add an "allow" permission rule naming it to run it headless`;
+  }
+  return 'needs approval because of an "ask" permission rule';
+}
+
+interface HeadlessToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  approved: boolean;
+  result?: any;
+}
+
+/**
+ * Read everything piped into stdin
+ */
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Run a single prompt to completion without the TUI and print the result.
+ * Returns the process exit code.
+ */
+export async function runHeadless(agent: Agent, prompt: string, options: HeadlessOptions): Promise<number> {
+  const toolCalls: HeadlessToolCall[] = [];
+  const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, requests: 0 };
+  let finalMessage: string | null = null;
+  let deniedTool: string | null = null;
+  let maxIterationsReached = false;
+  let interrupted = false;
+  let errorMessage: string | null = null;
+
+  const logProgress = (line: string) => {
+    if (options.output === 'text') {
+      process.stderr.write(`${line}\n`);
+    }
+  };
+
+  agent.setToolCallbacks({
+    onToolStart: (name, args, toolCallId) => {
+      toolCalls.push({ id: toolCallId, name, arguments: args, approved: true });
+      logProgress(chalk.gray(`⚙ ${name}`));
+    },
+    onToolEnd: (_name, result, toolCallId) => {
+      const call = toolCalls.find(c => c.id === toolCallId);
+      if (call) {
+        call.result = result;
+      }
+    },
+    onToolApproval: async (toolName) => {
+      const approved = DANGEROUS_TOOLS.includes(toolName)
+        ? options.allowDangerous
+        : APPROVAL_REQUIRED_TOOLS.includes(toolName) && options.allowEdits;
+
+      if (!approved) {
+        deniedTool = toolName;
+        const call = [...toolCalls].reverse().find(c => c.name === toolName && c.result === undefined);
+        if (call) {
+          call.approved = false;
+        }
+        logProgress(chalk.yellow(`✗ ${toolName} ${describeDenial(toolName)}`));
+      }
+      return { approved };
+    },
+    onFinalMessage: (content) => {
+      finalMessage = content;
+    },
+    onMaxIterations: async () => {
+      // Nobody can confirm continuing, stop here
+      maxIterationsReached = true;
+      return false;
+    },
+    onRetry: (notice) => {
+      logProgress(chalk.yellow(`↻ ${formatRetryNotice(notice)}`));
+    },
+    onFailover: (notice) => {
+      logProgress(chalk.yellow(`⇄ ${formatFailoverNotice(notice)}`));
+    },
+    onBudget: (status) => {
+      logProgress(chalk.yellow(`$ ${formatBudget(status)}`));
+    },
+    onApiUsage: (apiUsage) => {
+      usage.prompt_tokens += apiUsage.prompt_tokens;
+      usage.completion_tokens += apiUsage.completion_tokens;
+      usage.total_tokens += apiUsage.total_tokens;
+      usage.requests++;
+    }
+  });
+
+  const handleSigint = () => {
+    interrupted = true;
+    agent.interrupt();
+  };
+  process.once('SIGINT', handleSigint);
+
+  try {
+    await agent.chat(prompt);
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+  } finally {
+    process.removeListener('SIGINT', handleSigint);
+  }
+
+  let status: HeadlessStatus;
+  if (errorMessage) {
+    status = 'error';
+  } else if (interrupted) {
+    status = 'interrupted';
+    errorMessage = 'Interrupted';
+  } else if (deniedTool) {
+    status = 'tool_denied';
+    errorMessage = `Tool ${deniedTool} was not approved by the headless approval policy`;
+  } else if (maxIterationsReached) {
+    status = 'max_iterations';
+    errorMessage = 'Reached the maximum number of iterations before a final answer';
+  } else if (finalMessage === null) {
+    status = 'error';
+    errorMessage = 'The model did not return a final answer';
+  } else {
+    status = 'success';
+  }
+
+  const exitCode = HEADLESS_EXIT_CODES[status];
+
+  if (options.output === 'json') {
+    const providerManager = await agent.getProviderManager();
+    const output = {
+      status,
+      exitCode,
+      result: finalMessage,
+      error: errorMessage,
+      provider: providerManager.getActiveProvider()?.name || null,
+      model: agent.getCurrentModel(),
+      messages: agent.getConversationMessages(),
+      toolCalls,
+      usage
+    };
+    process.stdout.write(`${JSON.stringify(output, null, 2)}\n`);
+  } else {
+    if (finalMessage !== null) {
+      process.stdout.write(`${finalMessage}\n`);
+    }
+    if (errorMessage) {
+      process.stderr.write(chalk.red(`Error: ${errorMessage}\n`));
+    }
+  }
+
+  return exitCode;
+}
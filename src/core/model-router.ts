@@ -0,0 +1,104 @@
+import { LLMProvider } from '../providers/index.js';
+import { ProviderManager } from './provider-manager.js';
+import { ConfigManager } from '../utils/local-settings.js';
+import { AgentManager } from '../utils/agent-manager.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Kinds of requests the agent makes: `plan` is the first request for a prompt,
+ * `edit` the follow-ups while the model works through tool calls, `summarize`
+ * compacts old turns and their tool output, `title` names sessions.
+ */
+export type RouteTask = 'plan' | 'edit' | 'summarize' | 'title';
+
+export const ROUTE_TASKS: RouteTask[] = ['plan', 'edit', 'summarize', 'title'];
+
+/**
+ * Model to use for a task; without a provider the active one serves it
+ */
+export interface ModelRoute {
+  provider?: string;
+  model: string;
+}
+
+export type ModelRoutes = Partial<Record<RouteTask, ModelRoute>>;
+
+export interface ResolvedRoute {
+  task: RouteTask;
+  provider: LLMProvider;
+  model: string;
+  // False when no rule applied and the session's model is used
+  routed: boolean;
+}
+
+/**
+ * Route as shown in message headers
+ */
+export interface RouteInfo {
+  task: RouteTask;
+  provider: string;
+  model: string;
+}
+
+function validRoutes(routes: unknown): ModelRoutes {
+  if (!routes || typeof routes !== 'object' || Array.isArray(routes)) {
+    return {};
+  }
+  const valid: ModelRoutes = {};
+  for (const task of ROUTE_TASKS) {
+    const route = (routes as Record<string, any>)[task];
+    if (route && typeof route.model === 'string' && route.model.trim()) {
+      valid[task] = { model: route.model, provider: typeof route.provider === 'string' ? route.provider : undefined };
+    }
+  }
+  return valid;
+}
+
+/**
+ * Picks the provider and model for each kind of request from the "routing"
+ * settings and the routes of the active agent profile
+ */
+export class ModelRouter {
+  constructor(
+    private providerManager: ProviderManager,
+    private configManager: ConfigManager
+  ) {}
+
+  /**
+   * Routing rules from the settings, with the active agent profile's routes taking precedence
+   */
+  getRoutes(): ModelRoutes {
+    return {
+      ...validRoutes(this.configManager.getRouting()),
+      ...validRoutes(AgentManager.getInstance().getCurrentAgent().routes)
+    };
+  }
+
+  hasRoutes(): boolean {
+    return Object.keys(this.getRoutes()).length > 0;
+  }
+
+  /**
+   * Provider and model for a task, or the fallback when no rule applies or the
+   * rule's provider is unknown or in `unavailable`
+   */
+  resolve(task: RouteTask, fallback: { provider: LLMProvider; model: string }, unavailable: string[] = []): ResolvedRoute {
+    const route = this.getRoutes()[task];
+    if (route) {
+      const providerName = route.provider || fallback.provider.name;
+      if (!this.providerManager.isKnownProvider(providerName)) {
+        logger.warn(`Ignoring ${task} route: unknown provider ${providerName}`);
+      } else if (!unavailable.includes(providerName)) {
+        return { task, provider: this.providerManager.getProvider(providerName), model: route.model, routed: true };
+      }
+    }
+    return { task, provider: fallback.provider, model: fallback.model, routed: false };
+  }
+}
+
+/**
+ * Short description of the routes, e.g. "plan → groq/llama-3.1-8b-instant"
+ */
+export function describeRoutes(routes: ModelRoutes | undefined): string[] {
+  return Object.entries(validRoutes(routes)).map(([task, route]) => `${task} → ${route.provider ? `${route.provider}/` : ''}${route.model}`);
+}
@@ -6,10 +6,13 @@ import {
   createProvider,
   getAvailableProviders,
   isValidProvider,
-  ProviderName
+  ProviderName,
+  OpenAICompatibleProvider,
+  OpenAICompatibleEndpoint
 } from '../providers/index.js';
 import { logger } from '../utils/logger.js';
-import { getLocalSettings, setLocalSettings } from '../utils/local-settings.js';
+import { ConfigManager, getLocalSettings, setLocalSettings } from '../utils/local-settings.js';
+import { FailoverSettings, findEquivalentModel } from './retry-policy.js';
 
 export interface ProviderConfig {
   name: ProviderName;
@@ -19,9 +22,11 @@ export interface ProviderConfig {
 }
 
 export class ProviderManager {
-  private providers = new Map<ProviderName, LLMProvider>();
+  private providers = new Map<string, LLMProvider>();
   private activeProvider: LLMProvider | null = null;
   private providerConfigs: ProviderConfig[] = [];
+  private endpoints: OpenAICompatibleEndpoint[] = [];
+  private configManager = new ConfigManager();
 
   constructor() {
     this.initializeDefaultConfigs();
@@ -59,6 +64,8 @@ export class ProviderManager {
         logger.debug(`Loaded ${this.providerConfigs.length} provider configurations`);
       }
       
+      this.loadEndpoints();
+      
       // Apply API keys to provider instances
       await this.applyApiKeysToProviders();
     } catch (error) {
@@ -92,13 +99,57 @@ export class ProviderManager {
     }
   }
 
+  /**
+   * Load named OpenAI-compatible endpoints, dropping cached instances whose config changed
+   */
+  private loadEndpoints(): void {
+    const previous = new Map(this.endpoints.map(endpoint => [endpoint.name, JSON.stringify(endpoint)]));
+
+    this.endpoints = this.configManager.getOpenAIEndpoints().filter(endpoint => {
+      if (isValidProvider(endpoint.name)) {
+        logger.warn(`Ignoring OpenAI-compatible endpoint '${endpoint.name}': name is reserved for a built-in provider`);
+        return false;
+      }
+      return true;
+    });
+
+    for (const [name, serialized] of previous) {
+      const current = this.endpoints.find(endpoint => endpoint.name === name);
+      const provider = this.providers.get(name);
+      if (provider && provider !== this.activeProvider && (!current || JSON.stringify(current) !== serialized)) {
+        this.providers.delete(name);
+      }
+    }
+  }
+
+  /**
+   * Check if a name refers to a built-in provider or a configured endpoint
+   */
+  isKnownProvider(name: string): boolean {
+    return isValidProvider(name) || this.endpoints.some(endpoint => endpoint.name === name);
+  }
+
+  /**
+   * Names of all built-in providers followed by configured endpoints
+   */
+  getProviderNames(): string[] {
+    return [...getAvailableProviders(), ...this.endpoints.map(endpoint => endpoint.name)];
+  }
+
   /**
    * Get or create a provider instance
    */
-  private getProviderInstance(name: ProviderName): LLMProvider {
+  private getProviderInstance(name: string): LLMProvider {
     if (!this.providers.has(name)) {
-      const provider = createProvider(name);
-      this.providers.set(name, provider);
+      if (isValidProvider(name)) {
+        this.providers.set(name, createProvider(name));
+      } else {
+        const endpoint = this.endpoints.find(endpoint => endpoint.name === name);
+        if (!endpoint) {
+          throw new Error(`Unknown provider: ${name}`);
+        }
+        this.providers.set(name, new OpenAICompatibleProvider(endpoint));
+      }
     }
     return this.providers.get(name)!;
   }
@@ -110,7 +161,7 @@ export class ProviderManager {
     logger.info('Detecting available LLM providers...');
     const results: ProviderDetectionResult[] = [];
     
-    const availableNames = getAvailableProviders();
+    const availableNames = this.getProviderNames();
     
     for (const name of availableNames) {
       try {
@@ -186,8 +237,8 @@ export class ProviderManager {
   /**
    * Manually set the active provider
    */
-  async setActiveProvider(name: ProviderName): Promise<void> {
-    if (!isValidProvider(name)) {
+  async setActiveProvider(name: string): Promise<void> {
+    if (!this.isKnownProvider(name)) {
       throw new Error(`Invalid provider name: ${name}`);
     }
 
@@ -218,7 +269,7 @@ export class ProviderManager {
   /**
    * Get provider by name
    */
-  getProvider(name: ProviderName): LLMProvider {
+  getProvider(name: string): LLMProvider {
     return this.getProviderInstance(name);
   }
 
@@ -336,53 +387,66 @@ export class ProviderManager {
   }
 
   /**
-   * Health check for active provider
+   * Health check for the active provider, or another one
    */
-  async healthCheck(): Promise<boolean> {
-    if (!this.activeProvider) {
+  async healthCheck(provider: LLMProvider | null = this.activeProvider): Promise<boolean> {
+    if (!provider) {
       return false;
     }
 
     try {
-      const status = await this.activeProvider.getStatus();
+      const status = await provider.getStatus();
       return status.connected;
     } catch (error) {
-      logger.error('Health check failed for active provider:', error);
+      logger.error(`Health check failed for ${provider.name}:`, error);
       return false;
     }
   }
 
   /**
-   * Switch to next available provider (failover)
+   * Switch to the next available provider that serves the model, or its equivalent
+   * from the failover model table. Providers in `exclude` were already tried.
+   * The current provider stays active when none is found.
    */
-  async failover(): Promise<LLMProvider | null> {
+  async failover(model: string, settings: FailoverSettings, exclude: string[] = []): Promise<{ provider: LLMProvider; model: string } | null> {
     logger.warn('Attempting provider failover...');
-    
+
     const currentName = this.activeProvider?.name;
-    if (this.activeProvider) {
-      await this.activeProvider.cleanup();
-      this.activeProvider = null;
-    }
-    
-    // Try to find the next best provider (excluding the current one)
-    const detection = await this.detectProviders();
-    const sortedConfigs = [...this.providerConfigs]
-      .filter(config => config.enabled && config.name !== currentName)
-      .sort((a, b) => a.priority - b.priority);
-    
-    for (const config of sortedConfigs) {
-      const result = detection.find(d => d.provider === config.name);
-      if (result?.available && result.status.connected) {
-        try {
-          await this.setActiveProvider(config.name);
-          logger.info(`Failover successful: switched to ${this.activeProvider!.displayName}`);
-          return this.activeProvider;
-        } catch (error) {
-          logger.error(`Failover to ${config.name} failed:`, error);
+    const candidates = (settings.providers?.length
+      ? settings.providers.filter(name => this.isKnownProvider(name))
+      : [...this.providerConfigs]
+        .filter(config => config.enabled)
+        .sort((a, b) => a.priority - b.priority)
+        .map(config => config.name as string)
+    ).filter(name => name !== currentName && !exclude.includes(name));
+
+    for (const name of candidates) {
+      try {
+        const provider = this.getProviderInstance(name);
+        const status = await provider.getStatus();
+        if (!status.connected) {
+          continue;
         }
+
+        // Without an entry in the table only a model with the same id will do
+        let targetModel = findEquivalentModel(model, name, settings);
+        if (!targetModel) {
+          const models = await provider.listModels().catch(() => []);
+          if (!models.some(candidate => candidate.id === model)) {
+            logger.debug(`Skipping ${name} for failover: no equivalent of ${model}`);
+            continue;
+          }
+          targetModel = model;
+        }
+
+        await this.setActiveProvider(name);
+        logger.info(`Failover successful: switched to ${provider.displayName} with ${targetModel}`);
+        return { provider, model: targetModel };
+      } catch (error) {
+        logger.error(`Failover to ${name} failed:`, error);
       }
     }
-    
+
     logger.error('Failover failed: no alternative providers available');
     return null;
   }
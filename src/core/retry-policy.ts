@@ -0,0 +1,150 @@
+import { ProviderError, ProviderUtils } from '../providers/index.js';
+
+/**
+ * How failed model requests are retried, from "retry" in ~/.groq/config.json
+ */
+export interface RetrySettings {
+  // Retries of a failed request before giving up or failing over
+  maxRetries?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * Opt-in switch to another provider once retries run out, from "failover" in
+ * ~/.groq/config.json. Each entry of `models` names the same model on several
+ * providers, e.g. { "groq": "llama-3.3-70b-versatile", "ollama": "llama3.3:70b" }.
+ */
+export interface FailoverSettings {
+  enabled?: boolean;
+  // Providers to fail over to, in order; defaults to the enabled providers by priority
+  providers?: string[];
+  models?: Array<Record<string, string>>;
+}
+
+export type FailureKind = 'rate_limit' | 'server' | 'connection' | 'timeout' | 'fatal';
+
+export interface RetryNotice {
+  kind: FailureKind;
+  provider: string;
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  error: string;
+}
+
+export interface FailoverNotice {
+  from: string;
+  to: string;
+  model: string;
+  error: string;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+// Longer waits (e.g. a daily quota) aren't sat out, the request fails over or fails instead
+const MAX_RETRY_AFTER_MS = 60000;
+const SERVER_ERROR_STATUSES = [500, 502, 503, 504, 529];
+const TIMEOUT_STATUSES = [408, 425];
+const FAILURE_DESCRIPTIONS: Record<FailureKind, string> = {
+  rate_limit: 'Rate limited by',
+  server: 'Server error from',
+  connection: 'Lost connection to',
+  timeout: 'Request timed out on',
+  fatal: 'Request failed on'
+};
+
+/**
+ * Whether a failed request is worth sending again, and why. Bad requests, missing
+ * models and authentication errors are fatal: retrying won't change the answer.
+ */
+export function classifyFailure(error: unknown): FailureKind {
+  if (error instanceof Error && error.name === 'AbortError') {
+    // Requests the user interrupted never get here, so the provider's own timeout fired
+    return 'timeout';
+  }
+
+  const { code, statusCode } = ProviderUtils.getErrorDetails(error);
+  if (statusCode === 429) {
+    return 'rate_limit';
+  }
+  if (statusCode !== undefined && SERVER_ERROR_STATUSES.includes(statusCode)) {
+    return 'server';
+  }
+  if (statusCode !== undefined && TIMEOUT_STATUSES.includes(statusCode)) {
+    return 'timeout';
+  }
+  if (statusCode === undefined && (code === 'CONNECTION_ERROR' || ProviderUtils.isConnectionError(error))) {
+    return 'connection';
+  }
+  return 'fatal';
+}
+
+export function getMaxRetries(settings: RetrySettings): number {
+  return Math.max(0, settings.maxRetries ?? DEFAULT_MAX_RETRIES);
+}
+
+/**
+ * Milliseconds to wait before retry number `attempt` (from 0), or null when the
+ * request shouldn't be retried. Retry-After is honoured, otherwise the delay
+ * doubles with each attempt.
+ */
+export function getRetryDelay(error: unknown, attempt: number, settings: RetrySettings): number | null {
+  if (classifyFailure(error) === 'fatal' || attempt >= getMaxRetries(settings)) {
+    return null;
+  }
+
+  const retryAfterMs = error instanceof ProviderError ? error.retryAfterMs : undefined;
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= MAX_RETRY_AFTER_MS ? retryAfterMs : null;
+  }
+
+  const initialDelay = settings.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const delay = Math.min(settings.maxDelayMs ?? DEFAULT_MAX_DELAY_MS, initialDelay * 2 ** attempt);
+  // Jitter keeps sessions that failed together from retrying together
+  return Math.round(delay * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * The model to use on another provider, from the failover model table
+ */
+export function findEquivalentModel(model: string, provider: string, settings: FailoverSettings): string | null {
+  for (const entry of settings.models || []) {
+    if (entry && typeof entry === 'object' && Object.values(entry).includes(model) && typeof entry[provider] === 'string') {
+      return entry[provider];
+    }
+  }
+  return null;
+}
+
+/**
+ * Wait, finishing early when the signal aborts
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * One-line status for a retry, e.g. "Rate limited by Groq, retrying in 4s (1/3)"
+ */
+export function formatRetryNotice(notice: RetryNotice): string {
+  const seconds = Math.max(1, Math.round(notice.delayMs / 1000));
+  return `${FAILURE_DESCRIPTIONS[notice.kind]} ${notice.provider}, retrying in ${seconds}s (${notice.attempt}/${notice.maxRetries})`;
+}
+
+export function formatFailoverNotice(notice: FailoverNotice): string {
+  return `${notice.from} is unavailable, switched to ${notice.to} with ${notice.model}`;
+}
@@ -17,9 +17,25 @@ export interface Model {
   created?: string;        // Creation timestamp (LM Studio)
 }
 
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: 'image_url';
+  // data: URL with the base64 encoded image
+  image_url: { url: string };
+}
+
+export type ContentPart = TextContentPart | ImageContentPart;
+
+// Plain text, or text and images in the OpenAI content parts format for vision models
+export type MessageContent = string | ContentPart[];
+
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  content: MessageContent;
   tool_calls?: any[];
   tool_call_id?: string;
 }
@@ -41,6 +57,7 @@ export interface ChatResponse {
       role: string;
       content: string | null;
       tool_calls?: any[];
+      reasoning?: string;
     };
     finish_reason: string;
   }>;
@@ -58,6 +75,25 @@ export interface ChatResponse {
   };
 }
 
+/**
+ * Incremental piece of a streamed chat completion
+ */
+export interface ChatStreamChunk {
+  content?: string;
+  reasoning?: string;
+  tool_calls?: Array<{
+    index: number;
+    id?: string;
+    type?: string;
+    function?: {
+      name?: string;
+      arguments?: string;
+    };
+  }>;
+  finish_reason?: string;
+  usage?: ChatResponse['usage'];
+}
+
 export interface ProviderStatus {
   available: boolean;
   connected: boolean;
@@ -94,11 +130,44 @@ export abstract class LLMProvider {
    * Send chat completion request
    */
   abstract chat(options: ChatOptions, abortSignal?: AbortSignal): Promise<ChatResponse>;
+
+  /**
+   * Send chat completion request and yield deltas as they arrive.
+   * Providers without streaming support yield the whole response as a single chunk.
+   */
+  async *chatStream(options: ChatOptions, abortSignal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    const response = await this.chat(options, abortSignal);
+    const choice = response.choices[0];
+
+    yield {
+      content: choice.message.content ?? undefined,
+      reasoning: choice.message.reasoning,
+      tool_calls: choice.message.tool_calls?.map((toolCall, index) => ({ index, ...toolCall })),
+      finish_reason: choice.finish_reason,
+      usage: response.usage
+    };
+  }
   
   /**
    * Check if provider supports function/tool calling
    */
   abstract supportsTools(): boolean;
+
+  /**
+   * Check if a specific model supports function/tool calling.
+   * Providers with per-model capabilities should override this.
+   */
+  async supportsToolsForModel(modelId: string): Promise<boolean> {
+    return this.supportsTools();
+  }
+
+  /**
+   * Check if a specific model accepts images in messages.
+   * Images sent to other models are replaced with a text note.
+   */
+  async supportsVisionForModel(modelId: string): Promise<boolean> {
+    return false;
+  }
   
   /**
    * Initialize connection/setup
@@ -140,7 +209,9 @@ export class ProviderError extends Error {
     message: string,
     public provider: string,
     public code?: string,
-    public statusCode?: number
+    public statusCode?: number,
+    // How long the server asked to wait before retrying (Retry-After)
+    public retryAfterMs?: number
   ) {
     super(message);
     this.name = 'ProviderError';
@@ -154,13 +225,79 @@ export enum ProviderPriority {
   GROQ = 1,      // Cloud, fast, reliable
   OLLAMA = 2,    // Local, private, free
   LMSTUDIO = 3,  // Local, GUI-based
-  OPENAI = 4     // Future: OpenAI compatibility
+  OPENAI = 4     // Named OpenAI-compatible endpoints
 }
 
+// Network failures worth retrying: refused or dropped connections, DNS hiccups
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN', 'ERR_STREAM_PREMATURE_CLOSE', 'UND_ERR_SOCKET'];
+const CONNECTION_ERROR_MESSAGES = /premature close|socket hang up|connection error|network error|fetch failed|terminated/i;
+
 /**
  * Common provider utilities
  */
 export class ProviderUtils {
+  /**
+   * Milliseconds to wait from a Retry-After header, given in seconds or as an HTTP date
+   */
+  static parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Whether a request failed because the server couldn't be reached or the connection dropped
+   */
+  static isConnectionError(error: unknown): boolean {
+    if (!(error instanceof Error)) {
+      return false;
+    }
+    const code = (error as any).code ?? (error as any).cause?.code;
+    return CONNECTION_ERROR_CODES.includes(code) || error.name === 'APIConnectionError' || CONNECTION_ERROR_MESSAGES.test(error.message);
+  }
+
+  /**
+   * Code, HTTP status and Retry-After of a failed chat request, to keep when the
+   * error is wrapped in a ProviderError
+   */
+  static getErrorDetails(error: unknown): { code: string; statusCode?: number; retryAfterMs?: number } {
+    if (error instanceof ProviderError) {
+      return { code: error.code || 'CHAT_REQUEST_ERROR', statusCode: error.statusCode, retryAfterMs: error.retryAfterMs };
+    }
+
+    // Errors of the Groq SDK carry the status and headers of the response
+    const status = typeof (error as any)?.status === 'number' ? (error as any).status as number : undefined;
+    if (status) {
+      const headers = (error as any).headers;
+      const retryAfter = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+      return { code: 'HTTP_ERROR', statusCode: status, retryAfterMs: ProviderUtils.parseRetryAfter(retryAfter) };
+    }
+    return { code: ProviderUtils.isConnectionError(error) ? 'CONNECTION_ERROR' : 'CHAT_REQUEST_ERROR' };
+  }
+
+  /**
+   * Error for an unsuccessful HTTP response, with its status and Retry-After
+   */
+  static async toHttpError(
+    response: { status: number; statusText: string; text(): Promise<string>; headers: { get(name: string): string | null } },
+    provider: string
+  ): Promise<ProviderError> {
+    const errorText = await response.text().catch(() => response.statusText);
+    return new ProviderError(
+      `HTTP ${response.status}: ${errorText}`,
+      provider,
+      'HTTP_ERROR',
+      response.status,
+      ProviderUtils.parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+
   /**
    * Detect if a URL/endpoint is responding
    */
@@ -182,6 +319,150 @@ export class ProviderUtils {
     }
   }
   
+  /**
+   * Split a streamed response body into lines
+   */
+  static async *readLines(body: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+    let buffer = '';
+    for await (const chunk of body) {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        yield line;
+      }
+    }
+
+    if (buffer) {
+      yield buffer;
+    }
+  }
+
+  /**
+   * Parse the data payloads of a Server-Sent Events stream (OpenAI-compatible APIs)
+   */
+  static async *readServerSentEvents(body: AsyncIterable<Buffer | string>): AsyncGenerator<any> {
+    for await (const line of ProviderUtils.readLines(body)) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) {
+        continue;
+      }
+
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') {
+        return;
+      }
+
+      try {
+        yield JSON.parse(data);
+      } catch (error) {
+        // Ignore keep-alive and partial lines
+      }
+    }
+  }
+
+  /**
+   * Consume a chat stream, reporting each chunk, and assemble the complete response
+   */
+  static async collectChatStream(
+    stream: AsyncIterable<ChatStreamChunk>,
+    onChunk?: (chunk: ChatStreamChunk) => void
+  ): Promise<ChatResponse> {
+    let content = '';
+    let reasoning = '';
+    let finishReason: string | undefined;
+    let usage: ChatResponse['usage'];
+    const toolCalls: any[] = [];
+
+    for await (const chunk of stream) {
+      onChunk?.(chunk);
+
+      if (chunk.content) {
+        content += chunk.content;
+      }
+      if (chunk.reasoning) {
+        reasoning += chunk.reasoning;
+      }
+      if (chunk.finish_reason) {
+        finishReason = chunk.finish_reason;
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+
+      // Tool calls arrive in fragments keyed by index
+      for (const delta of chunk.tool_calls || []) {
+        const toolCall = toolCalls[delta.index] ??= {
+          id: delta.id,
+          type: delta.type || 'function',
+          function: { name: '', arguments: '' }
+        };
+        if (delta.id) {
+          toolCall.id = delta.id;
+        }
+        if (delta.function?.name) {
+          toolCall.function.name += delta.function.name;
+        }
+        if (delta.function?.arguments) {
+          toolCall.function.arguments += delta.function.arguments;
+        }
+      }
+    }
+
+    const completedToolCalls = toolCalls
+      .filter(Boolean)
+      .map((toolCall, index) => ({ ...toolCall, id: toolCall.id || `call_${Date.now()}_${index}` }));
+
+    return {
+      id: `stream-${Date.now()}`,
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: content || null,
+          tool_calls: completedToolCalls.length > 0 ? completedToolCalls : undefined,
+          reasoning: reasoning || undefined
+        },
+        finish_reason: finishReason || (completedToolCalls.length > 0 ? 'tool_calls' : 'stop')
+      }],
+      usage
+    };
+  }
+
+  /**
+   * Text of a message, without its images
+   */
+  static getTextContent(content: MessageContent | null | undefined): string {
+    if (!content) {
+      return '';
+    }
+    if (typeof content === 'string') {
+      return content;
+    }
+    return content
+      .filter((part): part is TextContentPart => part.type === 'text')
+      .map(part => part.text)
+      .join('\n');
+  }
+
+  static getImageParts(content: MessageContent | null | undefined): ImageContentPart[] {
+    return Array.isArray(content) ? content.filter((part): part is ImageContentPart => part.type === 'image_url') : [];
+  }
+
+  /**
+   * Replace images with a note, for models that only read text
+   */
+  static withoutImages(messages: ChatMessage[]): ChatMessage[] {
+    return messages.map(msg => {
+      if (!Array.isArray(msg.content)) {
+        return msg;
+      }
+      const images = ProviderUtils.getImageParts(msg.content);
+      const note = images.length > 0 ? `\n[${images.length} image(s) omitted: this model does not accept images]` : '';
+      return { ...msg, content: `${ProviderUtils.getTextContent(msg.content)}${note}` };
+    });
+  }
+
   /**
    * Standardize model name across providers
    */
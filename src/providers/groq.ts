@@ -1,7 +1,10 @@
 import Groq from 'groq-sdk';
-import { LLMProvider, Model, ChatOptions, ChatResponse, ProviderStatus, ProviderError } from './base.js';
+import { LLMProvider, Model, ChatOptions, ChatResponse, ChatStreamChunk, ProviderStatus, ProviderError, ProviderUtils } from './base.js';
 import { logger } from '../utils/logger.js';
 
+// Groq's model list doesn't report modalities; these families accept images
+const VISION_MODEL_PATTERN = /llama-4|vision/i;
+
 export class GroqProvider extends LLMProvider {
   readonly name = 'groq';
   readonly displayName = 'Groq';
@@ -63,7 +66,7 @@ export class GroqProvider extends LLMProvider {
         id: model.id,
         name: model.id,
         description: `${model.id} - Groq optimized model`,
-        contextLength: this.getContextLength(model.id),
+        contextLength: (model as any).context_window || this.getContextLength(model.id),
         supportsFunctions: this.modelSupportsTools(model.id)
       }));
     } catch (error) {
@@ -89,7 +92,7 @@ export class GroqProvider extends LLMProvider {
         tool_choice: options.tool_choice as any,
         temperature: options.temperature,
         max_tokens: options.max_tokens,
-        stream: false // Force non-streaming for now
+        stream: false
       }, {
         signal: abortSignal
       }) as any; // Type assertion to handle Groq SDK types
@@ -100,7 +103,8 @@ export class GroqProvider extends LLMProvider {
           message: {
             role: choice.message.role,
             content: choice.message.content,
-            tool_calls: choice.message.tool_calls
+            tool_calls: choice.message.tool_calls,
+            reasoning: choice.message.reasoning
           },
           finish_reason: choice.finish_reason
         })),
@@ -117,10 +121,66 @@ export class GroqProvider extends LLMProvider {
         throw error; // Re-throw abort errors as-is
       }
       
+      const { code, statusCode, retryAfterMs } = ProviderUtils.getErrorDetails(error);
       throw new ProviderError(
         `Groq API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         this.name,
-        'CHAT_REQUEST_ERROR'
+        code,
+        statusCode,
+        retryAfterMs
+      );
+    }
+  }
+
+  async *chatStream(options: ChatOptions, abortSignal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    try {
+      if (!this.client) {
+        await this.initialize();
+      }
+
+      const stream = await this.client!.chat.completions.create({
+        model: options.model,
+        messages: options.messages as any,
+        tools: options.tools,
+        tool_choice: options.tool_choice as any,
+        temperature: options.temperature,
+        max_tokens: options.max_tokens,
+        stream: true
+      }, {
+        signal: abortSignal
+      }) as any; // Type assertion to handle Groq SDK types
+
+      for await (const chunk of stream) {
+        const choice = chunk.choices?.[0];
+        // Groq reports usage on the final chunk under x_groq
+        const usage = chunk.x_groq?.usage || chunk.usage;
+
+        yield {
+          content: choice?.delta?.content || undefined,
+          reasoning: choice?.delta?.reasoning || undefined,
+          tool_calls: choice?.delta?.tool_calls,
+          finish_reason: choice?.finish_reason || undefined,
+          usage: usage ? {
+            prompt_tokens: usage.prompt_tokens,
+            completion_tokens: usage.completion_tokens,
+            total_tokens: usage.total_tokens
+          } : undefined
+        };
+      }
+    } catch (error) {
+      logger.error('Groq streaming request failed:', error);
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw error;
+      }
+
+      const { code, statusCode, retryAfterMs } = ProviderUtils.getErrorDetails(error);
+      throw new ProviderError(
+        `Groq API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        code,
+        statusCode,
+        retryAfterMs
       );
     }
   }
@@ -129,6 +189,10 @@ export class GroqProvider extends LLMProvider {
     return true; // Groq supports function calling
   }
 
+  async supportsVisionForModel(modelId: string): Promise<boolean> {
+    return VISION_MODEL_PATTERN.test(modelId);
+  }
+
   async initialize(): Promise<void> {
     const apiKey = process.env.GROQ_API_KEY || this.apiKey;
     
@@ -140,7 +204,8 @@ export class GroqProvider extends LLMProvider {
       );
     }
 
-    this.client = new Groq({ apiKey });
+    // The agent retries failed requests itself, see core/retry-policy.ts
+    this.client = new Groq({ apiKey, maxRetries: 0 });
     logger.debug('Groq provider initialized');
   }
 
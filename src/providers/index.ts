@@ -1,9 +1,12 @@
-export { LLMProvider, ProviderError } from './base.js';
-export type { Model, ChatOptions, ChatResponse, ProviderStatus, ProviderDetectionResult } from './base.js';
+export { LLMProvider, ProviderError, ProviderUtils } from './base.js';
+export type { Model, ChatMessage, MessageContent, ContentPart, TextContentPart, ImageContentPart, ChatOptions, ChatResponse, ChatStreamChunk, ProviderStatus, ProviderDetectionResult } from './base.js';
 
 export { GroqProvider } from './groq.js';
 export { OllamaProvider } from './ollama.js';
 export { LMStudioProvider } from './lmstudio.js';
+export { OpenAICompatibleProvider } from './openai-compatible.js';
+export type { OpenAICompatibleEndpoint } from './openai-compatible.js';
+export { chatWithTools } from './prompt-tools.js';
 
 // Provider registry
 import { GroqProvider } from './groq.js';
@@ -1,5 +1,5 @@
-import fetch from 'node-fetch';
-import { LLMProvider, Model, ChatOptions, ChatResponse, ProviderStatus, ProviderError } from './base.js';
+import fetch, { Response } from 'node-fetch';
+import { LLMProvider, Model, ChatOptions, ChatResponse, ChatStreamChunk, ProviderStatus, ProviderError, ProviderUtils } from './base.js';
 import { logger } from '../utils/logger.js';
 
 interface LMStudioModel {
@@ -9,9 +9,26 @@ interface LMStudioModel {
   owned_by: string;
 }
 
+// A model from LM Studio's own REST API, which says more than the OpenAI-compatible one
+interface LMStudioModelInfo {
+  type?: string;
+  capabilities?: string[];
+}
+
+interface LMStudioToolCall {
+  id?: string;
+  type?: string;
+  function: {
+    name: string;
+    arguments: string | Record<string, any>;
+  };
+}
+
 interface LMStudioMessage {
   role: string;
-  content: string;
+  content: string | null;
+  tool_calls?: LMStudioToolCall[];
+  tool_call_id?: string;
 }
 
 interface LMStudioChatResponse {
@@ -37,6 +54,8 @@ export class LMStudioProvider extends LLMProvider {
   readonly description = 'Local LLM inference with LM Studio - easy-to-use local AI with GPU acceleration';
   
   private baseUrl: string;
+  private toolSupportCache = new Map<string, boolean>();
+  private modelInfoCache = new Map<string, LMStudioModelInfo>();
 
   constructor(baseUrl: string = 'http://localhost:1234/v1') {
     super();
@@ -131,15 +150,15 @@ export class LMStudioProvider extends LLMProvider {
         );
       }
       
-      return data.data.map(model => ({
+      return await Promise.all(data.data.map(async model => ({
         id: model.id,
         name: model.id,
         description: `Local model loaded in LM Studio`,
         contextLength: this.getContextLength(model.id),
-        supportsFunctions: false, // LM Studio doesn't support function calling in OpenAI format
+        supportsFunctions: await this.supportsToolsForModel(model.id),
         ownedBy: model.owned_by,
         created: model.created && !isNaN(model.created) ? new Date(model.created * 1000).toISOString() : new Date().toISOString()
-      }));
+      })));
     } catch (error) {
       logger.error('Failed to list LM Studio models:', {
         error: error instanceof Error ? error.message : error,
@@ -167,73 +186,191 @@ export class LMStudioProvider extends LLMProvider {
 
   async chat(options: ChatOptions, abortSignal?: AbortSignal): Promise<ChatResponse> {
     try {
-      // Convert messages to OpenAI format (LM Studio uses OpenAI-compatible API)
-      const messages: LMStudioMessage[] = options.messages.map(msg => ({
-        role: msg.role,
-        content: msg.content || ''
-      }));
-
-      const requestBody = {
-        model: options.model,
-        messages,
-        temperature: options.temperature,
-        max_tokens: options.max_tokens,
-        stream: false
+      const response = await this.sendChatRequest(options, false, abortSignal);
+      const data = await response.json() as LMStudioChatResponse;
+
+      return {
+        id: data.id,
+        choices: data.choices.map(choice => {
+          const toolCalls = this.normalizeToolCalls(choice.message.tool_calls);
+          return {
+            message: {
+              role: choice.message.role,
+              content: choice.message.content,
+              tool_calls: toolCalls
+            },
+            finish_reason: toolCalls ? 'tool_calls' : choice.finish_reason
+          };
+        }),
+        usage: data.usage
       };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
-      
-      if (abortSignal) {
-        abortSignal.addEventListener('abort', () => controller.abort());
+  async *chatStream(options: ChatOptions, abortSignal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    try {
+      const response = await this.sendChatRequest(options, true, abortSignal);
+
+      if (!response.body) {
+        throw new Error('No response body');
       }
 
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
+      for await (const chunk of ProviderUtils.readServerSentEvents(response.body)) {
+        const choice = chunk.choices?.[0];
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
+        yield {
+          content: choice?.delta?.content || undefined,
+          reasoning: choice?.delta?.reasoning_content || choice?.delta?.reasoning || undefined,
+          tool_calls: choice?.delta?.tool_calls,
+          finish_reason: choice?.finish_reason || undefined,
+          usage: chunk.usage || undefined
+        };
       }
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
 
-      const data = await response.json() as LMStudioChatResponse;
+  /**
+   * Send a chat completion request and return the successful HTTP response
+   */
+  private async sendChatRequest(options: ChatOptions, stream: boolean, abortSignal?: AbortSignal): Promise<Response> {
+    const useTools = !!options.tools?.length && await this.supportsToolsForModel(options.model);
+    // Convert messages to OpenAI format (LM Studio uses OpenAI-compatible API)
+    const messages = options.messages.map(msg => ({
+      role: msg.role,
+      content: msg.content || '',
+      tool_calls: useTools && msg.tool_calls?.length ? msg.tool_calls : undefined,
+      tool_call_id: useTools ? msg.tool_call_id : undefined
+    }));
+
+    const requestBody = {
+      model: options.model,
+      messages,
+      tools: useTools ? options.tools : undefined,
+      tool_choice: useTools ? (options.tool_choice || 'auto') : undefined,
+      temperature: options.temperature,
+      max_tokens: options.max_tokens,
+      stream,
+      // Token counts arrive in a final chunk only when asked for
+      stream_options: stream ? { include_usage: true } : undefined
+    };
 
-      return {
-        id: data.id,
-        choices: data.choices.map(choice => ({
-          message: {
-            role: choice.message.role,
-            content: choice.message.content
-          },
-          finish_reason: choice.finish_reason
-        })),
-        usage: data.usage
-      };
-    } catch (error) {
-      logger.error('LM Studio chat request failed:', error);
-      
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw error;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
+    
+    if (abortSignal) {
+      abortSignal.addEventListener('abort', () => controller.abort());
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+      signal: controller.signal
+    });
+    
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const error = await ProviderUtils.toHttpError(response, this.name);
+
+      // Capability detection can be missing or wrong; remember it so chatWithTools
+      // sends the request again with the tools in the prompt
+      if (useTools && response.status === 400 && /does not support tool/i.test(error.message)) {
+        logger.debug(`LM Studio model ${options.model} rejected tools`);
+        this.toolSupportCache.set(options.model, false);
+        error.code = 'TOOLS_UNSUPPORTED';
       }
-      
-      throw new ProviderError(
-        `LM Studio API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        this.name,
-        'CHAT_REQUEST_ERROR'
-      );
+
+      throw error;
+    }
+
+    return response;
+  }
+
+  private toProviderError(error: unknown): Error {
+    logger.error('LM Studio chat request failed:', error);
+    
+    if (error instanceof Error && error.name === 'AbortError') {
+      return error;
     }
+    
+    const { code, statusCode, retryAfterMs } = ProviderUtils.getErrorDetails(error);
+    return new ProviderError(
+      `LM Studio API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      this.name,
+      code,
+      statusCode,
+      retryAfterMs
+    );
   }
 
   supportsTools(): boolean {
-    return false; // LM Studio doesn't support function calling in OpenAI format
+    return true; // LM Studio supports function calling in OpenAI format, availability depends on the model
+  }
+
+  async supportsToolsForModel(modelId: string): Promise<boolean> {
+    const cached = this.toolSupportCache.get(modelId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const data = await this.getModelInfo(modelId);
+    if (!data) {
+      // Unknown, send tools and fall back if the server rejects them
+      return true;
+    }
+
+    // Versions without capabilities render tools into the prompt for any model
+    const supported = data.capabilities ? data.capabilities.includes('tool_use') : true;
+    this.toolSupportCache.set(modelId, supported);
+    return supported;
+  }
+
+  async supportsVisionForModel(modelId: string): Promise<boolean> {
+    const data = await this.getModelInfo(modelId);
+    // Older LM Studio versions: send the images and let the server decide
+    return data ? data.type === 'vlm' : true;
+  }
+
+  /**
+   * Model details from LM Studio's REST API, fetched once per model, or null
+   * when the server is too old to have it
+   */
+  private async getModelInfo(modelId: string): Promise<LMStudioModelInfo | null> {
+    const cached = this.modelInfoCache.get(modelId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+      // Reports vision models as "vlm" and models trained for tool calling with "tool_use"
+      const apiBase = this.baseUrl.replace(/\/v1\/?$/, '');
+      const response = await fetch(`${apiBase}/api/v0/models/${encodeURIComponent(modelId)}`, {
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json() as LMStudioModelInfo;
+      this.modelInfoCache.set(modelId, data);
+      return data;
+    } catch (error) {
+      logger.debug(`Could not detect capabilities of LM Studio model ${modelId}:`, error);
+      return null;
+    }
   }
 
   async initialize(): Promise<void> {
@@ -345,6 +482,27 @@ export class LMStudioProvider extends LLMProvider {
     };
   }
 
+  /**
+   * Normalize tool calls to the OpenAI shape used by the agent.
+   * Arguments are passed through unparsed so malformed JSON is reported by the agent.
+   */
+  private normalizeToolCalls(toolCalls?: LMStudioToolCall[]): any[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+      return undefined;
+    }
+
+    return toolCalls.map((toolCall, index) => ({
+      id: toolCall.id || `call_${Date.now()}_${index}`,
+      type: toolCall.type || 'function',
+      function: {
+        name: toolCall.function.name,
+        arguments: typeof toolCall.function.arguments === 'string'
+          ? toolCall.function.arguments
+          : JSON.stringify(toolCall.function.arguments ?? {})
+      }
+    }));
+  }
+
   private getContextLength(modelName: string): number {
     // Try to infer context length from model name
     const contextLengths: Record<string, number> = {
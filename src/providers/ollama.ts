@@ -1,5 +1,5 @@
-import fetch from 'node-fetch';
-import { LLMProvider, Model, ChatOptions, ChatResponse, ProviderStatus, ProviderError } from './base.js';
+import fetch, { Response } from 'node-fetch';
+import { LLMProvider, Model, ChatMessage, ChatOptions, ChatResponse, ChatStreamChunk, ProviderStatus, ProviderError, ProviderUtils } from './base.js';
 import { logger } from '../utils/logger.js';
 
 interface OllamaModel {
@@ -18,10 +18,26 @@ interface OllamaModel {
   modified_at: string;
 }
 
+interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, any>;
+  };
+}
+
 interface OllamaMessage {
   role: string;
   content: string;
   images?: string[];
+  thinking?: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+interface OllamaShowResponse {
+  template?: string;
+  capabilities?: string[];
+  projector_info?: Record<string, any>;
 }
 
 interface OllamaChatResponse {
@@ -29,6 +45,7 @@ interface OllamaChatResponse {
   created_at: string;
   message: OllamaMessage;
   done: boolean;
+  done_reason?: string;
   total_duration?: number;
   load_duration?: number;
   prompt_eval_count?: number;
@@ -43,6 +60,8 @@ export class OllamaProvider extends LLMProvider {
   readonly description = 'Local LLM inference with Ollama - private, fast, and offline';
   
   private baseUrl: string;
+  private toolSupportCache = new Map<string, boolean>();
+  private modelInfoCache = new Map<string, OllamaShowResponse>();
 
   constructor(baseUrl: string = 'http://localhost:11434') {
     super();
@@ -128,16 +147,16 @@ export class OllamaProvider extends LLMProvider {
 
       const data = await response.json() as { models: OllamaModel[] };
       
-      return data.models.map(model => ({
+      return Promise.all(data.models.map(async model => ({
         id: model.name,
         name: model.name,
         description: `${model.details.family || 'Local'} model (${model.details.parameter_size || 'Unknown size'})`,
         contextLength: this.getContextLength(model.name),
-        supportsFunctions: false, // Ollama doesn't support function calling yet
+        supportsFunctions: await this.supportsToolsForModel(model.name),
         size: model.size,
         format: model.details.format,
         family: model.details.family
-      }));
+      })));
     } catch (error) {
       logger.error('Failed to list Ollama models:', error);
       throw new ProviderError(
@@ -150,61 +169,22 @@ export class OllamaProvider extends LLMProvider {
 
   async chat(options: ChatOptions, abortSignal?: AbortSignal): Promise<ChatResponse> {
     try {
-      // Convert messages to Ollama format
-      const messages: OllamaMessage[] = options.messages.map(msg => ({
-        role: msg.role,
-        content: msg.content || ''
-      }));
-
-      const requestBody = {
-        model: options.model,
-        messages,
-        stream: false,
-        options: {
-          temperature: options.temperature,
-          num_predict: options.max_tokens,
-        }
-      };
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-      
-      if (abortSignal) {
-        abortSignal.addEventListener('abort', () => controller.abort());
-      }
-
-      const response = await fetch(`${this.baseUrl}/api/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
-      }
-
+      const response = await this.sendChatRequest(options, false, abortSignal);
       const data = await response.json() as OllamaChatResponse;
+      const toolCalls = this.convertToolCalls(data.message.tool_calls);
 
       return {
         id: `ollama-${Date.now()}`,
         choices: [{
           message: {
             role: data.message.role,
-            content: data.message.content
+            content: data.message.content,
+            tool_calls: toolCalls,
+            reasoning: data.message.thinking
           },
-          finish_reason: data.done ? 'stop' : 'incomplete'
+          finish_reason: toolCalls ? 'tool_calls' : (data.done ? 'stop' : 'incomplete')
         }],
-        usage: data.prompt_eval_count || data.eval_count ? {
-          prompt_tokens: data.prompt_eval_count || 0,
-          completion_tokens: data.eval_count || 0,
-          total_tokens: (data.prompt_eval_count || 0) + (data.eval_count || 0)
-        } : undefined,
+        usage: this.convertUsage(data),
         performance: {
           total_duration: data.total_duration,
           load_duration: data.load_duration,
@@ -213,45 +193,245 @@ export class OllamaProvider extends LLMProvider {
         }
       };
     } catch (error) {
-      logger.error('Ollama chat request failed:', {
-        error: error instanceof Error ? error.message : error,
-        stack: error instanceof Error ? error.stack : undefined,
-        model: options.model,
-        baseUrl: this.baseUrl,
-        messagesCount: options.messages.length
-      });
-      
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw error;
+      throw this.toProviderError(error, options);
+    }
+  }
+
+  async *chatStream(options: ChatOptions, abortSignal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    try {
+      const response = await this.sendChatRequest(options, true, abortSignal);
+
+      if (!response.body) {
+        throw new Error('No response body');
       }
-      
-      // More descriptive error message based on common issues
-      let errorMessage = `Ollama API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-      
-      if (error instanceof Error) {
-        if (error.message.includes('ECONNREFUSED')) {
-          errorMessage = 'Cannot connect to Ollama. Make sure Ollama is running on localhost:11434';
-        } else if (error.message.includes('model')) {
-          errorMessage = `Model "${options.model}" not found. Make sure the model is pulled in Ollama: ollama pull ${options.model}`;
-        } else if (error.message.includes('404')) {
-          errorMessage = `API endpoint not found. Check Ollama version and API compatibility.`;
-        } else if (error.message.includes('failed to allocate') || error.message.includes('Metal buffer')) {
-          errorMessage = `Model "${options.model}" is too large for available GPU memory. Try:\n• A smaller model (e.g., /model gemma3:1b)\n• Use CPU: restart Ollama with OLLAMA_GPU_LAYERS=0\n• Free up GPU memory by closing other applications`;
-        } else if (error.message.includes('llama runner process has terminated')) {
-          errorMessage = `Model "${options.model}" crashed during execution. This usually indicates insufficient memory. Try a smaller model or restart Ollama with CPU mode.`;
+
+      // Ollama streams newline-delimited JSON objects
+      let toolCallIndex = 0;
+      for await (const line of ProviderUtils.readLines(response.body)) {
+        if (!line.trim()) {
+          continue;
         }
+
+        const data = JSON.parse(line) as OllamaChatResponse & { error?: string };
+        if (data.error) {
+          throw new Error(data.error);
+        }
+
+        const toolCalls = this.convertToolCalls(data.message?.tool_calls)?.map(toolCall => {
+          const index = toolCallIndex++;
+          return { ...toolCall, index, id: `call_${Date.now()}_${index}` };
+        });
+
+        yield {
+          content: data.message?.content || undefined,
+          reasoning: data.message?.thinking || undefined,
+          tool_calls: toolCalls,
+          finish_reason: data.done ? (toolCallIndex > 0 ? 'tool_calls' : 'stop') : undefined,
+          usage: data.done ? this.convertUsage(data) : undefined
+        };
       }
-      
+    } catch (error) {
+      throw this.toProviderError(error, options);
+    }
+  }
+
+  /**
+   * Send a chat request to Ollama and return the successful HTTP response
+   */
+  private async sendChatRequest(options: ChatOptions, stream: boolean, abortSignal?: AbortSignal): Promise<Response> {
+    // Only send tools to models whose template can render them
+    const useTools = !!options.tools?.length && await this.supportsToolsForModel(options.model);
+    const messages = this.convertMessages(options.messages, useTools);
+
+    const requestBody = {
+      model: options.model,
+      messages,
+      tools: useTools ? options.tools : undefined,
+      stream,
+      options: {
+        temperature: options.temperature,
+        num_predict: options.max_tokens,
+      }
+    };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+    
+    if (abortSignal) {
+      abortSignal.addEventListener('abort', () => controller.abort());
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+      signal: controller.signal
+    });
+    
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+
+      // Capability detection can be wrong for custom templates; remember it so
+      // chatWithTools sends the request again with the tools in the prompt
+      if (useTools && response.status === 400 && errorText.includes('does not support tools')) {
+        logger.debug(`Ollama model ${options.model} rejected tools`);
+        this.toolSupportCache.set(options.model, false);
+        throw new ProviderError(`HTTP ${response.status}: ${errorText}`, this.name, 'TOOLS_UNSUPPORTED', response.status);
+      }
+
       throw new ProviderError(
-        errorMessage,
+        `HTTP ${response.status}: ${errorText}`,
         this.name,
-        'CHAT_REQUEST_ERROR'
+        'HTTP_ERROR',
+        response.status,
+        ProviderUtils.parseRetryAfter(response.headers.get('retry-after'))
       );
     }
+
+    return response;
+  }
+
+  /**
+   * Convert Ollama tool calls to the OpenAI shape used by the agent
+   */
+  private convertToolCalls(toolCalls?: OllamaToolCall[]): any[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+      return undefined;
+    }
+
+    return toolCalls.map((toolCall, index) => ({
+      id: `call_${Date.now()}_${index}`,
+      type: 'function',
+      function: {
+        name: toolCall.function.name,
+        arguments: JSON.stringify(toolCall.function.arguments ?? {})
+      }
+    }));
+  }
+
+  private convertUsage(data: OllamaChatResponse): ChatResponse['usage'] {
+    return data.prompt_eval_count || data.eval_count ? {
+      prompt_tokens: data.prompt_eval_count || 0,
+      completion_tokens: data.eval_count || 0,
+      total_tokens: (data.prompt_eval_count || 0) + (data.eval_count || 0)
+    } : undefined;
+  }
+
+  /**
+   * Map low-level chat failures to descriptive provider errors
+   */
+  private toProviderError(error: unknown, options: ChatOptions): Error {
+    logger.error('Ollama chat request failed:', {
+      error: error instanceof Error ? error.message : error,
+      stack: error instanceof Error ? error.stack : undefined,
+      model: options.model,
+      baseUrl: this.baseUrl,
+      messagesCount: options.messages.length
+    });
+    
+    if (error instanceof Error && error.name === 'AbortError') {
+      return error;
+    }
+    
+    // More descriptive error message based on common issues
+    let errorMessage = `Ollama API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    
+    if (error instanceof Error) {
+      if (error.message.includes('ECONNREFUSED')) {
+        errorMessage = 'Cannot connect to Ollama. Make sure Ollama is running on localhost:11434';
+      } else if (error.message.includes('model')) {
+        errorMessage = `Model "${options.model}" not found. Make sure the model is pulled in Ollama: ollama pull ${options.model}`;
+      } else if (error.message.includes('404')) {
+        errorMessage = `API endpoint not found. Check Ollama version and API compatibility.`;
+      } else if (error.message.includes('failed to allocate') || error.message.includes('Metal buffer')) {
+        errorMessage = `Model "${options.model}" is too large for available GPU memory. Try:\n• A smaller model (e.g., /model gemma3:1b)\n• Use CPU: restart Ollama with OLLAMA_GPU_LAYERS=0\n• Free up GPU memory by closing other applications`;
+      } else if (error.message.includes('llama runner process has terminated')) {
+        errorMessage = `Model "${options.model}" crashed during execution. This usually indicates insufficient memory. Try a smaller model or restart Ollama with CPU mode.`;
+      }
+    }
+    
+    const { code, statusCode, retryAfterMs } = ProviderUtils.getErrorDetails(error);
+    return new ProviderError(
+      errorMessage,
+      this.name,
+      code,
+      statusCode,
+      retryAfterMs
+    );
   }
 
   supportsTools(): boolean {
-    return false; // Ollama doesn't support function calling yet
+    return true; // Ollama supports native tool calling, availability depends on the model
+  }
+
+  async supportsToolsForModel(modelId: string): Promise<boolean> {
+    const cached = this.toolSupportCache.get(modelId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const data = await this.showModel(modelId);
+    if (!data) {
+      return false;
+    }
+
+    // Newer Ollama versions report capabilities, older ones only expose the template
+    const supported = data.capabilities
+      ? data.capabilities.includes('tools')
+      : !!data.template?.includes('.Tools');
+
+    this.toolSupportCache.set(modelId, supported);
+    return supported;
+  }
+
+  async supportsVisionForModel(modelId: string): Promise<boolean> {
+    const data = await this.showModel(modelId);
+    if (!data) {
+      return false;
+    }
+    // Older versions list the vision projector of multimodal models instead
+    return data.capabilities ? data.capabilities.includes('vision') : !!data.projector_info;
+  }
+
+  /**
+   * Model details from /api/show, fetched once per model
+   */
+  private async showModel(modelId: string): Promise<OllamaShowResponse | null> {
+    const cached = this.modelInfoCache.get(modelId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+      const response = await fetch(`${this.baseUrl}/api/show`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model: modelId, name: modelId }),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json() as OllamaShowResponse;
+      this.modelInfoCache.set(modelId, data);
+      return data;
+    } catch (error) {
+      logger.debug(`Could not detect capabilities of Ollama model ${modelId}:`, error);
+      return null;
+    }
   }
 
   async initialize(): Promise<void> {
@@ -380,6 +560,64 @@ export class OllamaProvider extends LLMProvider {
     }
   }
 
+  /**
+   * Convert chat messages to Ollama format, keeping tool metadata when tools are enabled
+   */
+  private convertMessages(messages: ChatMessage[], useTools: boolean): OllamaMessage[] {
+    // Ollama identifies tool results by function name instead of call ID
+    const toolNamesById = new Map<string, string>();
+
+    return messages.map(msg => {
+      const converted: OllamaMessage = {
+        role: msg.role,
+        content: ProviderUtils.getTextContent(msg.content)
+      };
+
+      // Ollama takes images as plain base64 next to the text
+      const images = ProviderUtils.getImageParts(msg.content).map(part => part.image_url.url.replace(/^data:[^,]*,/, ''));
+      if (images.length > 0) {
+        converted.images = images;
+      }
+
+      if (!useTools) {
+        return converted;
+      }
+
+      if (msg.tool_calls?.length) {
+        converted.tool_calls = msg.tool_calls.map(toolCall => {
+          toolNamesById.set(toolCall.id, toolCall.function.name);
+          return {
+            function: {
+              name: toolCall.function.name,
+              arguments: this.parseToolArguments(toolCall.function.arguments)
+            }
+          };
+        });
+      }
+
+      if (msg.role === 'tool' && msg.tool_call_id) {
+        converted.tool_name = toolNamesById.get(msg.tool_call_id);
+      }
+
+      return converted;
+    });
+  }
+
+  /**
+   * Ollama expects tool call arguments as objects rather than JSON strings
+   */
+  private parseToolArguments(args: unknown): Record<string, any> {
+    if (typeof args !== 'string') {
+      return (args as Record<string, any>) ?? {};
+    }
+
+    try {
+      return JSON.parse(args);
+    } catch {
+      return {};
+    }
+  }
+
   private getContextLength(modelName: string): number {
     // Try to infer context length from model name
     const contextLengths: Record<string, number> = {
@@ -0,0 +1,359 @@
+import fetch, { Response } from 'node-fetch';
+import { LLMProvider, Model, ChatOptions, ChatResponse, ChatStreamChunk, ProviderStatus, ProviderError, ProviderUtils } from './base.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A named OpenAI-compatible endpoint (vLLM, llama.cpp server, LiteLLM proxy, etc.)
+ */
+export interface OpenAICompatibleEndpoint {
+  name: string;
+  displayName?: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  models?: string[];
+  // Set to false for servers without native function calling; tools are then emulated through the prompt
+  tools?: boolean;
+  // Set to false for models that don't accept images; they are then replaced with a note
+  vision?: boolean;
+}
+
+interface OpenAIModel {
+  id: string;
+  object?: string;
+  created?: number;
+  owned_by?: string;
+}
+
+interface OpenAIToolCall {
+  id?: string;
+  type?: string;
+  function: {
+    name: string;
+    arguments: string | Record<string, any>;
+  };
+}
+
+interface OpenAIMessage {
+  role: string;
+  content: string | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAIChatResponse {
+  id: string;
+  choices: {
+    index: number;
+    message: OpenAIMessage & { reasoning_content?: string; reasoning?: string };
+    finish_reason: string;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export class OpenAICompatibleProvider extends LLMProvider {
+  readonly name: string;
+  readonly displayName: string;
+  readonly description: string;
+
+  private baseUrl: string;
+  private apiKey?: string;
+  private headers: Record<string, string>;
+  private models?: string[];
+  private nativeTools: boolean;
+  private vision: boolean;
+
+  constructor(endpoint: OpenAICompatibleEndpoint) {
+    super();
+    this.name = endpoint.name;
+    this.displayName = endpoint.displayName || endpoint.name;
+    this.description = `OpenAI-compatible endpoint at ${endpoint.baseUrl}`;
+    this.baseUrl = endpoint.baseUrl.replace(/\/+$/, '');
+    this.apiKey = endpoint.apiKey;
+    this.headers = endpoint.headers || {};
+    this.models = endpoint.models?.length ? endpoint.models : undefined;
+    this.nativeTools = endpoint.tools !== false;
+    this.vision = endpoint.vision !== false;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    const status = await this.getStatus();
+    return status.available;
+  }
+
+  async getStatus(): Promise<ProviderStatus> {
+    try {
+      const response = await this.fetchModels(5000);
+
+      // Endpoints without a /models route are still usable when models are configured
+      if (!response.ok && !(response.status === 404 && this.models)) {
+        return {
+          available: false,
+          connected: false,
+          endpoint: this.baseUrl,
+          error: `HTTP ${response.status}: ${response.statusText}`
+        };
+      }
+
+      return {
+        available: true,
+        connected: true,
+        endpoint: this.baseUrl,
+        version: 'Connected'
+      };
+    } catch (error) {
+      logger.debug(`${this.displayName} connection check failed:`, error);
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        return {
+          available: false,
+          connected: false,
+          endpoint: this.baseUrl,
+          error: `Connection timeout - is ${this.baseUrl} reachable?`
+        };
+      }
+
+      return {
+        available: false,
+        connected: false,
+        endpoint: this.baseUrl,
+        error: error instanceof Error ? error.message : 'Connection failed'
+      };
+    }
+  }
+
+  async listModels(): Promise<Model[]> {
+    if (this.models) {
+      return this.models.map(id => this.toModel({ id }));
+    }
+
+    try {
+      const response = await this.fetchModels(10000);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json() as { data: OpenAIModel[] };
+      return (data.data || []).map(model => this.toModel(model));
+    } catch (error) {
+      logger.error(`Failed to list ${this.displayName} models:`, error);
+
+      throw new ProviderError(
+        `Failed to fetch models from ${this.baseUrl}. Check the endpoint or list its models in the config.`,
+        this.name,
+        'MODELS_FETCH_ERROR'
+      );
+    }
+  }
+
+  async chat(options: ChatOptions, abortSignal?: AbortSignal): Promise<ChatResponse> {
+    try {
+      const response = await this.sendChatRequest(options, false, abortSignal);
+      const data = await response.json() as OpenAIChatResponse;
+
+      return {
+        id: data.id,
+        choices: data.choices.map(choice => {
+          const toolCalls = this.normalizeToolCalls(choice.message.tool_calls);
+          return {
+            message: {
+              role: choice.message.role,
+              content: choice.message.content,
+              tool_calls: toolCalls,
+              reasoning: choice.message.reasoning_content || choice.message.reasoning
+            },
+            finish_reason: toolCalls ? 'tool_calls' : choice.finish_reason
+          };
+        }),
+        usage: data.usage
+      };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  async *chatStream(options: ChatOptions, abortSignal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    try {
+      const response = await this.sendChatRequest(options, true, abortSignal);
+
+      if (!response.body) {
+        throw new Error('No response body');
+      }
+
+      for await (const chunk of ProviderUtils.readServerSentEvents(response.body)) {
+        const choice = chunk.choices?.[0];
+
+        yield {
+          content: choice?.delta?.content || undefined,
+          reasoning: choice?.delta?.reasoning_content || choice?.delta?.reasoning || undefined,
+          tool_calls: choice?.delta?.tool_calls,
+          finish_reason: choice?.finish_reason || undefined,
+          usage: chunk.usage || undefined
+        };
+      }
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  /**
+   * Send a chat completion request and return the successful HTTP response
+   */
+  private async sendChatRequest(options: ChatOptions, stream: boolean, abortSignal?: AbortSignal): Promise<Response> {
+    const messages = options.messages.map(msg => ({
+      role: msg.role,
+      content: msg.content || '',
+      tool_calls: msg.tool_calls?.length ? msg.tool_calls : undefined,
+      tool_call_id: msg.tool_call_id
+    }));
+
+    const requestBody = {
+      model: options.model,
+      messages,
+      tools: options.tools?.length ? options.tools : undefined,
+      tool_choice: options.tools?.length ? (options.tool_choice || 'auto') : undefined,
+      temperature: options.temperature,
+      max_tokens: options.max_tokens,
+      stream,
+      stream_options: stream ? { include_usage: true } : undefined
+    };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minute timeout
+
+    if (abortSignal) {
+      abortSignal.addEventListener('abort', () => controller.abort());
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify(requestBody),
+      signal: controller.signal
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      throw await ProviderUtils.toHttpError(response, this.name);
+    }
+
+    return response;
+  }
+
+  private async fetchModels(timeout: number): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      return await fetch(`${this.baseUrl}/models`, {
+        headers: this.buildHeaders(),
+        signal: controller.signal
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private buildHeaders(extra: Record<string, string> = {}): Record<string, string> {
+    return {
+      ...extra,
+      ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      ...this.headers
+    };
+  }
+
+  private toModel(model: OpenAIModel): Model {
+    return {
+      id: model.id,
+      name: model.id,
+      description: `Model served by ${this.displayName}`,
+      supportsFunctions: this.nativeTools,
+      ownedBy: model.owned_by,
+      created: model.created ? new Date(model.created * 1000).toISOString() : undefined
+    };
+  }
+
+  private toProviderError(error: unknown): Error {
+    logger.error(`${this.displayName} chat request failed:`, error);
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      return error;
+    }
+
+    const { code, statusCode, retryAfterMs } = ProviderUtils.getErrorDetails(error);
+    return new ProviderError(
+      `${this.displayName} API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      this.name,
+      code,
+      statusCode,
+      retryAfterMs
+    );
+  }
+
+  /**
+   * Normalize tool calls to the OpenAI shape used by the agent
+   */
+  private normalizeToolCalls(toolCalls?: OpenAIToolCall[]): any[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+      return undefined;
+    }
+
+    return toolCalls.map((toolCall, index) => ({
+      id: toolCall.id || `call_${Date.now()}_${index}`,
+      type: toolCall.type || 'function',
+      function: {
+        name: toolCall.function.name,
+        arguments: typeof toolCall.function.arguments === 'string'
+          ? toolCall.function.arguments
+          : JSON.stringify(toolCall.function.arguments ?? {})
+      }
+    }));
+  }
+
+  supportsTools(): boolean {
+    return this.nativeTools;
+  }
+
+  async supportsVisionForModel(modelId: string): Promise<boolean> {
+    return this.vision;
+  }
+
+  async initialize(): Promise<void> {
+    const status = await this.getStatus();
+    if (!status.connected) {
+      throw new ProviderError(
+        `Could not connect to ${this.displayName} at ${this.baseUrl}: ${status.error || 'unknown error'}`,
+        this.name,
+        'CONNECTION_ERROR'
+      );
+    }
+
+    logger.debug(`${this.displayName} provider initialized`);
+  }
+
+  async cleanup(): Promise<void> {
+    logger.debug(`${this.displayName} provider cleaned up`);
+  }
+
+  validateModel(modelId: string): boolean {
+    return modelId.trim().length > 0;
+  }
+
+  getConfigRequirements() {
+    return {
+      required: ['baseUrl'],
+      optional: ['apiKey', 'headers', 'models', 'displayName', 'tools'],
+      instructions: 'Add an entry to "openaiEndpoints" in ~/.groq/config.json, e.g. {"name": "vllm", "baseUrl": "http://localhost:8000/v1"}, then use /switch vllm'
+    };
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+}
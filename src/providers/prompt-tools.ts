@@ -0,0 +1,221 @@
+import { LLMProvider, ChatMessage, ChatOptions, ChatResponse, ChatStreamChunk, ProviderError, ProviderUtils } from './base.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Prompt-based tool calling for models without native function calling.
+ * Tool schemas are described in the system prompt, the model answers with
+ * <tool_call> blocks, and tool results are fed back as plain text.
+ */
+
+const TOOL_CALL_BLOCK_REGEX = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>|```tool_call\s*\n([\s\S]*?)```/g;
+
+/**
+ * Send a chat request, emulating tool calling through the prompt when the
+ * provider or model has no native support for it, and leaving out images
+ * for models without vision support.
+ * When onChunk is given the response is streamed and each delta is reported.
+ */
+export async function chatWithTools(
+  provider: LLMProvider,
+  options: ChatOptions,
+  abortSignal?: AbortSignal,
+  onChunk?: (chunk: ChatStreamChunk) => void
+): Promise<ChatResponse> {
+  const send = (requestOptions: ChatOptions, handleChunk?: (chunk: ChatStreamChunk) => void) => handleChunk
+    ? ProviderUtils.collectChatStream(provider.chatStream({ ...requestOptions, stream: true }, abortSignal), handleChunk)
+    : provider.chat(requestOptions, abortSignal);
+
+  // Images stay in the history when switching to a model that can't read them
+  if (options.messages.some(msg => ProviderUtils.getImageParts(msg.content).length > 0) && !(await provider.supportsVisionForModel(options.model))) {
+    options = { ...options, messages: ProviderUtils.withoutImages(options.messages) };
+  }
+
+  if (!options.tools || options.tools.length === 0) {
+    return send(options, onChunk);
+  }
+
+  if (await provider.supportsToolsForModel(options.model)) {
+    try {
+      return await send(options, onChunk);
+    } catch (error) {
+      // The model turned out to reject tools; the provider now reports that, so emulate them
+      if (!(error instanceof ProviderError && error.code === 'TOOLS_UNSUPPORTED')) {
+        throw error;
+      }
+    }
+  }
+
+  logger.debug(`Using prompt-based tool calling for ${provider.name}:${options.model}`);
+
+  // Keep <tool_call> blocks out of the streamed text, they are parsed once the response completes
+  let streamedText = '';
+  const hideToolBlocks = onChunk && ((chunk: ChatStreamChunk) => {
+    if (!chunk.content) {
+      onChunk(chunk);
+      return;
+    }
+    const visibleBefore = stripToolBlocks(streamedText);
+    streamedText += chunk.content;
+    const visibleAfter = stripToolBlocks(streamedText);
+    onChunk({ ...chunk, content: visibleAfter.slice(visibleBefore.length) || undefined });
+  });
+
+  const response = await send({
+    ...options,
+    messages: toPromptMessages(options.messages, options.tools),
+    tools: undefined,
+    tool_choice: undefined
+  }, hideToolBlocks);
+
+  return {
+    ...response,
+    choices: response.choices.map(choice => {
+      const { content, toolCalls } = parseToolCalls(choice.message.content || '');
+      if (toolCalls.length === 0) {
+        return choice;
+      }
+      return {
+        message: {
+          ...choice.message,
+          content,
+          tool_calls: toolCalls
+        },
+        finish_reason: 'tool_calls'
+      };
+    })
+  };
+}
+
+/**
+ * Build the system prompt section describing available tools and the call protocol
+ */
+export function buildToolPrompt(tools: any[]): string {
+  const toolDescriptions = tools.map(tool => {
+    const fn = tool.function || tool;
+    return `### ${fn.name}\n${fn.description}\nParameters (JSON schema): ${JSON.stringify(fn.parameters)}`;
+  }).join('\n\n');
+
+  return `TOOL CALLING PROTOCOL:
+You can call tools by writing one or more blocks in this exact format:
+<tool_call>
+{"name": "tool_name", "arguments": {"param": "value"}}
+</tool_call>
+
+Rules:
+- The block content MUST be valid JSON with "name" and "arguments" keys
+- After your tool calls, STOP and wait; results arrive in <tool_result> blocks
+- Never invent tool results yourself
+- When no tool is needed, answer normally without any <tool_call> block
+
+AVAILABLE TOOLS:
+
+${toolDescriptions}`;
+}
+
+/**
+ * Rewrite a conversation so it only uses plain text messages
+ */
+function toPromptMessages(messages: ChatMessage[], tools: any[]): ChatMessage[] {
+  const toolPrompt = buildToolPrompt(tools);
+  const toolNamesById = new Map<string, string>();
+  const converted: ChatMessage[] = [];
+  let toolPromptAdded = false;
+
+  for (const msg of messages) {
+    if (msg.role === 'system' && !toolPromptAdded) {
+      converted.push({ role: 'system', content: `${msg.content}\n\n${toolPrompt}` });
+      toolPromptAdded = true;
+      continue;
+    }
+
+    if (msg.role === 'assistant' && msg.tool_calls?.length) {
+      const blocks = msg.tool_calls.map(toolCall => {
+        toolNamesById.set(toolCall.id, toolCall.function.name);
+        return `<tool_call>\n{"name": ${JSON.stringify(toolCall.function.name)}, "arguments": ${toolCall.function.arguments || '{}'}}\n</tool_call>`;
+      });
+      converted.push({
+        role: 'assistant',
+        content: [msg.content, ...blocks].filter(Boolean).join('\n')
+      });
+      continue;
+    }
+
+    if (msg.role === 'tool') {
+      const toolName = (msg.tool_call_id && toolNamesById.get(msg.tool_call_id)) || 'unknown';
+      converted.push({
+        role: 'user',
+        content: `<tool_result name="${toolName}">\n${msg.content}\n</tool_result>`
+      });
+      continue;
+    }
+
+    converted.push({ role: msg.role, content: msg.content });
+  }
+
+  if (!toolPromptAdded) {
+    converted.unshift({ role: 'system', content: toolPrompt });
+  }
+
+  return converted;
+}
+
+/**
+ * Text preceding the first tool call block, used while a response is still streaming
+ */
+function stripToolBlocks(text: string): string {
+  const markers = ['<tool_call', '```tool_call'];
+  const cut = Math.min(...markers.map(marker => {
+    const index = text.indexOf(marker);
+    return index === -1 ? text.length : index;
+  }));
+  return text.slice(0, cut);
+}
+
+/**
+ * Extract <tool_call> blocks from model output.
+ * Blocks with malformed JSON get empty arguments and a parseError, which the agent
+ * returns to the model as the tool result instead of running the tool.
+ */
+export function parseToolCalls(text: string): { content: string; toolCalls: any[] } {
+  const toolCalls: any[] = [];
+  const timestamp = Date.now();
+
+  const content = text.replace(TOOL_CALL_BLOCK_REGEX, (block, xmlBody?: string, fencedBody?: string) => {
+    const body = (xmlBody ?? fencedBody ?? '').trim();
+    const id = `call_${timestamp}_${toolCalls.length}`;
+
+    try {
+      const parsed = JSON.parse(body);
+      if (typeof parsed?.name !== 'string') {
+        return block;
+      }
+      const args = parsed.arguments ?? parsed.parameters ?? {};
+      toolCalls.push({
+        id,
+        type: 'function',
+        function: {
+          name: parsed.name,
+          arguments: typeof args === 'string' ? args : JSON.stringify(args)
+        }
+      });
+      return '';
+    } catch (error) {
+      const nameMatch = body.match(/"name"\s*:\s*"([^"]+)"/);
+      if (!nameMatch) {
+        return block;
+      }
+      toolCalls.push({
+        id,
+        type: 'function',
+        function: {
+          name: nameMatch[1],
+          arguments: '{}'
+        },
+        parseError: `Malformed tool call, the <tool_call> block is not valid JSON (${error instanceof Error ? error.message : error}). The tool was not run; send the call again with valid JSON.`
+      });
+      return '';
+    }
+  });
+
+  return { content: content.trim(), toolCalls };
+}
@@ -0,0 +1,101 @@
+import { execFile } from 'child_process';
+
+const GIT_TIMEOUT_MS = 30000;
+const MAX_BUFFER_BYTES = 20 * 1024 * 1024;
+// Longer output is cut; a path or --stat narrows a large diff down
+export const MAX_GIT_OUTPUT_CHARS = 50000;
+
+export interface GitResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run git with an argument list, no shell involved. Resolves with the exit code
+ * and output whether or not git succeeds; rejects when git can't be run at all,
+ * times out or is aborted.
+ */
+export function runGit(args: string[], options: { cwd?: string; signal?: AbortSignal } = {}): Promise<GitResult> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      // Repository config must not make a read run pagers or external diff programs
+      ['--no-pager', '-c', 'core.fsmonitor=false', ...args],
+      {
+        cwd: options.cwd || process.cwd(),
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: MAX_BUFFER_BYTES,
+        signal: options.signal,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0' }
+      },
+      (error, stdout, stderr) => {
+        if (error && typeof error.code !== 'number') {
+          reject(error.code === 'ENOENT' ? new Error('git is not installed or not on the PATH') : error);
+          return;
+        }
+        resolve({ exitCode: error ? Number(error.code) : 0, stdout: String(stdout), stderr: String(stderr) });
+      }
+    );
+  });
+}
+
+/**
+ * The first line git printed to stderr, e.g. "fatal: not a git repository ..."
+ */
+export function getGitError(result: GitResult): string {
+  return result.stderr.trim().split('\n')[0] || `git exited with code ${result.exitCode}`;
+}
+
+/**
+ * Revisions and ranges from the model must not be read as options (--output=...)
+ */
+export function isValidRevision(revision: string): boolean {
+  return /^[^-\s]\S*$/.test(revision);
+}
+
+export function truncateGitOutput(output: string): string {
+  if (output.length <= MAX_GIT_OUTPUT_CHARS) {
+    return output;
+  }
+  return `${output.substring(0, MAX_GIT_OUTPUT_CHARS)}\n[... ${output.length - MAX_GIT_OUTPUT_CHARS} characters truncated ...]`;
+}
+
+/**
+ * Top directory of the repository the directory is in, or null outside one
+ */
+export async function getRepositoryRoot(cwd?: string): Promise<string | null> {
+  try {
+    const result = await runGit(['rev-parse', '--show-toplevel'], { cwd });
+    return result.exitCode === 0 ? result.stdout.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Changes in the working tree against HEAD, including staged ones and untracked
+ * files, limited to `paths` when given
+ */
+export async function getWorkingTreeDiff(options: { paths?: string[]; stat?: boolean; cwd?: string } = {}): Promise<string> {
+  const { paths, stat, cwd } = options;
+  const pathspec = paths ? ['--', ...paths] : [];
+  // A repository without commits has nothing to compare to but the index
+  const hasHead = (await runGit(['rev-parse', '--verify', '--quiet', 'HEAD'], { cwd })).exitCode === 0;
+
+  const tracked = await runGit(['diff', '--no-ext-diff', ...(stat ? ['--stat'] : []), ...(hasHead ? ['HEAD'] : []), ...pathspec], { cwd });
+  if (tracked.exitCode !== 0) {
+    throw new Error(getGitError(tracked));
+  }
+
+  const parts = tracked.stdout ? [tracked.stdout.trimEnd()] : [];
+  const untracked = await runGit(['ls-files', '--others', '--exclude-standard', ...pathspec], { cwd });
+  for (const file of untracked.stdout.split('\n').filter(Boolean)) {
+    // Exit code 1 means the files differ, which a new file always does
+    const added = await runGit(['diff', '--no-ext-diff', '--no-index', ...(stat ? ['--stat'] : []), '--', '/dev/null', file], { cwd });
+    if (added.stdout) {
+      parts.push(added.stdout.trimEnd());
+    }
+  }
+  return parts.join('\n');
+}
@@ -0,0 +1,518 @@
+import { spawn, ChildProcess } from 'child_process';
+import readline from 'readline';
+import fetch from 'node-fetch';
+import { ProviderUtils } from '../providers/base.js';
+import { getWorkspaceRoot } from './workspace.js';
+import { logger } from '../utils/logger.js';
+import { getCurrentVersion } from '../utils/version.js';
+
+/**
+ * One MCP server from the config: a local command speaking JSON-RPC over stdio,
+ * or a URL using Streamable HTTP (or the older HTTP+SSE transport)
+ */
+export interface McpServerConfig {
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  transport?: 'http' | 'sse';
+  headers?: Record<string, string>;
+  // Seconds a tool call may take
+  timeout?: number;
+  disabled?: boolean;
+}
+
+export interface McpToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, any>;
+  annotations?: McpToolAnnotations;
+}
+
+export interface McpContent {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  data?: string;
+  uri?: string;
+  resource?: { uri: string; text?: string; mimeType?: string };
+}
+
+export interface McpCallResult {
+  content?: McpContent[];
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface McpTransport {
+  // Negotiated during initialize, sent along by HTTP transports
+  protocolVersion?: string;
+  onMessage?: (message: JsonRpcMessage) => void;
+  onClose?: (error?: Error) => void;
+  start(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): void;
+}
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+const STARTUP_TIMEOUT_MS = 30000;
+const DEFAULT_CALL_TIMEOUT_SECONDS = 120;
+const METHOD_NOT_FOUND = -32601;
+// Lines of stderr kept to explain why a server exited
+const STDERR_LINES = 20;
+
+/**
+ * Parse a Server-Sent Events stream into events, keeping the event names
+ * (the older SSE transport announces its POST endpoint with an "endpoint" event)
+ */
+async function* readEvents(body: AsyncIterable<Buffer | string>): AsyncGenerator<{ event: string; data: string }> {
+  let event = 'message';
+  let data: string[] = [];
+  for await (const rawLine of ProviderUtils.readLines(body)) {
+    const line = rawLine.replace(/\r$/, '');
+    if (line === '') {
+      if (data.length > 0) {
+        yield { event, data: data.join('\n') };
+      }
+      event = 'message';
+      data = [];
+      continue;
+    }
+    if (line.startsWith(':')) {
+      continue;
+    }
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.substring(0, separator);
+    const value = separator === -1 ? '' : line.substring(separator + 1).replace(/^ /, '');
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+  if (data.length > 0) {
+    yield { event, data: data.join('\n') };
+  }
+}
+
+function parseMessages(data: string): JsonRpcMessage[] {
+  const parsed = JSON.parse(data);
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+/**
+ * Newline-delimited JSON-RPC over the stdin and stdout of a child process
+ */
+class StdioTransport implements McpTransport {
+  public protocolVersion?: string;
+  public onMessage?: (message: JsonRpcMessage) => void;
+  public onClose?: (error?: Error) => void;
+  private child: ChildProcess | null = null;
+  private stderr: string[] = [];
+  private closing = false;
+
+  constructor(private config: McpServerConfig) {}
+
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.command!, this.config.args || [], {
+        cwd: this.config.cwd || getWorkspaceRoot(),
+        env: { ...process.env, ...this.config.env },
+        stdio: ['pipe', 'pipe', 'pipe'],
+        shell: process.platform === 'win32'
+      });
+      this.child = child;
+
+      child.once('spawn', () => resolve());
+      child.once('error', error => {
+        reject(error);
+        this.onClose?.(error);
+      });
+      child.once('exit', (code, signal) => {
+        if (this.closing) {
+          this.onClose?.();
+          return;
+        }
+        const reason = this.stderr.length > 0 ? `: ${this.stderr.join('\n')}` : '';
+        this.onClose?.(new Error(`Server exited with ${signal ? `signal ${signal}` : `code ${code}`}${reason}`));
+      });
+      // The server may exit before reading everything we wrote
+      child.stdin!.on('error', error => logger.debug('MCP server stdin error', error));
+
+      readline.createInterface({ input: child.stdout! }).on('line', line => {
+        if (!line.trim()) {
+          return;
+        }
+        try {
+          parseMessages(line).forEach(message => this.onMessage?.(message));
+        } catch {
+          logger.debug(`Ignoring non-JSON output from MCP server: ${line}`);
+        }
+      });
+      readline.createInterface({ input: child.stderr! }).on('line', line => {
+        this.stderr.push(line);
+        if (this.stderr.length > STDERR_LINES) {
+          this.stderr.shift();
+        }
+      });
+    });
+  }
+
+  public async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.child?.stdin?.writable) {
+      throw new Error('Server is not running');
+    }
+    this.child.stdin.write(`${JSON.stringify(message)}\n`);
+  }
+
+  public close(): void {
+    this.closing = true;
+    if (this.child && this.child.exitCode === null) {
+      this.child.stdin?.end();
+      this.child.kill();
+    }
+  }
+}
+
+/**
+ * Streamable HTTP: every message is POSTed, replies come back as JSON or as an SSE stream
+ */
+class HttpTransport implements McpTransport {
+  public protocolVersion?: string;
+  public onMessage?: (message: JsonRpcMessage) => void;
+  public onClose?: (error?: Error) => void;
+  private sessionId: string | null = null;
+  private abortController = new AbortController();
+
+  constructor(private config: McpServerConfig) {}
+
+  public async start(): Promise<void> {}
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.config.headers };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+    return headers;
+  }
+
+  public async send(message: JsonRpcMessage): Promise<void> {
+    const response = await fetch(this.config.url!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...this.getHeaders()
+      },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status} ${response.statusText}${text ? `: ${text.substring(0, 200)}` : ''}`);
+    }
+    if (response.status === 202 || !response.body) {
+      return;
+    }
+
+    if ((response.headers.get('content-type') || '').includes('text/event-stream')) {
+      // Read the stream without holding up the sender, replies arrive through onMessage
+      this.readStream(response.body).catch(error => {
+        if (!this.abortController.signal.aborted) {
+          logger.debug('MCP event stream failed', error);
+        }
+      });
+      return;
+    }
+
+    const text = await response.text();
+    if (text.trim()) {
+      parseMessages(text).forEach(reply => this.onMessage?.(reply));
+    }
+  }
+
+  private async readStream(body: AsyncIterable<Buffer | string>): Promise<void> {
+    for await (const { data } of readEvents(body)) {
+      try {
+        parseMessages(data).forEach(message => this.onMessage?.(message));
+      } catch {
+        logger.debug(`Ignoring invalid MCP event: ${data}`);
+      }
+    }
+  }
+
+  public close(): void {
+    if (this.sessionId) {
+      // Let the server drop the session, nobody waits for the answer
+      fetch(this.config.url!, { method: 'DELETE', headers: this.getHeaders() }).catch(() => {});
+    }
+    this.abortController.abort();
+    this.onClose?.();
+  }
+}
+
+/**
+ * The older HTTP+SSE transport: one long-lived event stream for replies, messages
+ * are POSTed to the endpoint the stream announces first
+ */
+class SseTransport implements McpTransport {
+  public protocolVersion?: string;
+  public onMessage?: (message: JsonRpcMessage) => void;
+  public onClose?: (error?: Error) => void;
+  private endpoint: string | null = null;
+  private abortController = new AbortController();
+
+  constructor(private config: McpServerConfig) {}
+
+  public async start(): Promise<void> {
+    const response = await fetch(this.config.url!, {
+      headers: { 'Accept': 'text/event-stream', ...this.config.headers },
+      signal: this.abortController.signal
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const events = readEvents(response.body);
+    const first = await events.next();
+    if (first.done || first.value.event !== 'endpoint') {
+      throw new Error('Server did not announce its message endpoint');
+    }
+    this.endpoint = new URL(first.value.data, this.config.url).toString();
+
+    (async () => {
+      for await (const { event, data } of events) {
+        if (event !== 'message') {
+          continue;
+        }
+        try {
+          parseMessages(data).forEach(message => this.onMessage?.(message));
+        } catch {
+          logger.debug(`Ignoring invalid MCP event: ${data}`);
+        }
+      }
+    })()
+      .then(() => this.onClose?.(this.abortController.signal.aborted ? undefined : new Error('Event stream closed')))
+      .catch(error => this.onClose?.(this.abortController.signal.aborted ? undefined : error));
+  }
+
+  public async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new Error('Not connected');
+    }
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.config.headers },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+  }
+
+  public close(): void {
+    this.abortController.abort();
+  }
+}
+
+function createTransport(config: McpServerConfig): McpTransport {
+  if (config.url) {
+    return config.transport === 'sse' ? new SseTransport(config) : new HttpTransport(config);
+  }
+  if (config.command) {
+    return new StdioTransport(config);
+  }
+  throw new Error('Server needs either a command or a url');
+}
+
+/**
+ * Minimal MCP client: the initialize handshake, tool listing and tool calls
+ */
+export class McpClient {
+  public serverInfo?: { name: string; version?: string };
+  public instructions?: string;
+  // Called when the server says its tool list changed
+  public onToolsChanged?: () => void;
+  // Called when the connection is lost, with the reason if it wasn't closed on purpose
+  public onClose?: (error?: Error) => void;
+  private transport: McpTransport;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private closed = false;
+
+  constructor(private config: McpServerConfig) {
+    this.transport = createTransport(config);
+    this.transport.onMessage = message => this.handleMessage(message);
+    this.transport.onClose = error => this.handleClose(error);
+  }
+
+  public async connect(): Promise<void> {
+    await this.transport.start();
+    const result = await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'groq-code-cli', version: getCurrentVersion() }
+    }, STARTUP_TIMEOUT_MS);
+
+    this.transport.protocolVersion = result?.protocolVersion;
+    this.serverInfo = result?.serverInfo;
+    this.instructions = result?.instructions;
+    await this.notify('notifications/initialized');
+  }
+
+  public async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : {}, STARTUP_TIMEOUT_MS);
+      tools.push(...(Array.isArray(result?.tools) ? result.tools : []));
+      cursor = result?.nextCursor;
+    } while (cursor);
+    return tools.filter(tool => tool && typeof tool.name === 'string');
+  }
+
+  public callTool(name: string, args: Record<string, any>, signal?: AbortSignal): Promise<McpCallResult> {
+    const timeoutMs = (this.config.timeout || DEFAULT_CALL_TIMEOUT_SECONDS) * 1000;
+    return this.request('tools/call', { name, arguments: args }, timeoutMs, signal);
+  }
+
+  public close(): void {
+    this.closed = true;
+    this.transport.close();
+    this.rejectAll(new Error('Connection closed'));
+  }
+
+  private request(method: string, params: Record<string, any>, timeoutMs: number, signal?: AbortSignal): Promise<any> {
+    if (this.closed) {
+      return Promise.reject(new Error('Connection closed'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Interrupted'));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.settle(id);
+        // Tell the server to stop working on it
+        this.notify('notifications/cancelled', { requestId: id, reason: 'Interrupted by user' }).catch(() => {});
+        reject(new Error('Interrupted'));
+      };
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        this.settle(id);
+        this.notify('notifications/cancelled', { requestId: id, reason: 'Timed out' }).catch(() => {});
+        reject(new Error(`${method} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        timer
+      });
+
+      this.transport.send({ jsonrpc: '2.0', id, method, params }).catch(error => {
+        const request = this.settle(id);
+        request?.reject(error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+  }
+
+  private notify(method: string, params?: Record<string, any>): Promise<void> {
+    return this.transport.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  /**
+   * Forget a pending request, returning it if it was still waiting
+   */
+  private settle(id: number): PendingRequest | undefined {
+    const request = this.pending.get(id);
+    if (request) {
+      clearTimeout(request.timer);
+      this.pending.delete(id);
+    }
+    return request;
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    // Reply to one of our requests
+    if (message.id !== undefined && !message.method) {
+      const request = this.settle(Number(message.id));
+      if (!request) {
+        return;
+      }
+      if (message.error) {
+        request.reject(new Error(message.error.message || `Error ${message.error.code}`));
+      } else {
+        request.resolve(message.result);
+      }
+      return;
+    }
+
+    // Request from the server; only ping is supported
+    if (message.id !== undefined) {
+      const reply: JsonRpcMessage = message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : { jsonrpc: '2.0', id: message.id, error: { code: METHOD_NOT_FOUND, message: `Method not supported: ${message.method}` } };
+      this.transport.send(reply).catch(error => logger.debug('Failed to answer MCP server request', error));
+      return;
+    }
+
+    if (message.method === 'notifications/tools/list_changed') {
+      this.onToolsChanged?.();
+    }
+  }
+
+  private handleClose(error?: Error): void {
+    this.rejectAll(error || new Error('Connection closed'));
+    if (!this.closed) {
+      this.closed = true;
+      this.onClose?.(error);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id)?.reject(error);
+    }
+  }
+}
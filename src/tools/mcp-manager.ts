@@ -0,0 +1,277 @@
+import fs from 'fs';
+import path from 'path';
+import { McpClient, McpServerConfig, McpTool, McpCallResult } from './mcp-client.js';
+import type { ToolSchema } from './tool-schemas.js';
+import { getWorkspaceRoot } from './workspace.js';
+import { ConfigManager } from '../utils/local-settings.js';
+import { isProjectFileTrusted } from '../utils/project-trust.js';
+import { logger } from '../utils/logger.js';
+
+export type McpServerScope = 'project' | 'global';
+// Project servers stay 'untrusted', and are never started, until the user trusts .groq/mcp.json
+export type McpServerStatus = 'connecting' | 'connected' | 'failed' | 'disabled' | 'untrusted';
+// How a call is approved: destructive tools always ask, the others like file edits
+export type McpApprovalLevel = 'approval' | 'dangerous';
+
+export interface McpServerState {
+  name: string;
+  scope: McpServerScope;
+  config: McpServerConfig;
+  status: McpServerStatus;
+  error?: string;
+  serverInfo?: { name: string; version?: string };
+  tools: McpTool[];
+}
+
+interface McpServerEntry {
+  scope: McpServerScope;
+  config: McpServerConfig;
+  trusted: boolean;
+}
+
+interface McpToolEntry {
+  server: string;
+  tool: McpTool;
+}
+
+interface ServerConnection extends McpServerState {
+  client?: McpClient;
+}
+
+export const MCP_TOOL_PREFIX = 'mcp__';
+const PROJECT_CONFIG_FILE = 'mcp.json';
+// Providers reject function names over 64 characters or outside this set
+const MAX_TOOL_NAME_LENGTH = 64;
+
+export function isMcpTool(toolName: string): boolean {
+  return toolName.startsWith(MCP_TOOL_PREFIX);
+}
+
+function sanitizeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+/**
+ * Name the model sees for a server's tool, e.g. mcp__github__create_issue
+ */
+export function getMcpToolName(server: string, tool: string): string {
+  return `${MCP_TOOL_PREFIX}${sanitizeName(server)}__${sanitizeName(tool)}`.substring(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Starts the MCP servers from ~/.groq/config.json and, once the user trusts it,
+ * <project>/.groq/mcp.json, and offers their tools to the model next to the built-in ones
+ */
+export class McpManager {
+  private static instance: McpManager;
+  private servers = new Map<string, ServerConnection>();
+  private tools = new Map<string, McpToolEntry>();
+  private starting: Promise<void> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): McpManager {
+    if (!McpManager.instance) {
+      McpManager.instance = new McpManager();
+      // Stdio servers are child processes, don't leave them behind
+      process.once('exit', () => McpManager.instance.closeAll());
+    }
+    return McpManager.instance;
+  }
+
+  public getProjectConfigPath(): string {
+    return path.join(getWorkspaceRoot(), '.groq', PROJECT_CONFIG_FILE);
+  }
+
+  /**
+   * Configured servers, project entries replacing global ones with the same name
+   */
+  public loadServerConfigs(): Map<string, McpServerEntry> {
+    const configs = new Map<string, McpServerEntry>();
+    for (const [name, config] of Object.entries(new ConfigManager().getMcpServers())) {
+      configs.set(name, { scope: 'global', config, trusted: true });
+    }
+
+    const projectPath = this.getProjectConfigPath();
+    if (fs.existsSync(projectPath)) {
+      try {
+        const content = fs.readFileSync(projectPath, 'utf8');
+        const data = JSON.parse(content);
+        const trusted = isProjectFileTrusted(projectPath, content);
+        for (const [name, config] of Object.entries<McpServerConfig>(data.mcpServers || {})) {
+          configs.set(name, { scope: 'project', config, trusted });
+        }
+      } catch (error) {
+        logger.warn(`Failed to read MCP servers from ${projectPath}`, error);
+      }
+    }
+
+    for (const [name, { config }] of configs) {
+      if (!config || typeof config !== 'object' || (typeof config.command !== 'string' && typeof config.url !== 'string')) {
+        logger.warn(`Ignoring MCP server '${name}': it needs a command or a url`);
+        configs.delete(name);
+      }
+    }
+    return configs;
+  }
+
+  /**
+   * Connect to every configured server once; later calls wait for the same startup.
+   * Never rejects, failures are kept in each server's status.
+   */
+  public start(): Promise<void> {
+    if (!this.starting) {
+      const configs = [...this.loadServerConfigs()];
+      this.starting = Promise.all(configs.map(([name, entry]) => this.connect(name, entry))).then(() => {});
+    }
+    return this.starting;
+  }
+
+  /**
+   * Reconnect one server, or re-read the config and reconnect all of them
+   */
+  public async restart(name?: string): Promise<void> {
+    const configs = this.loadServerConfigs();
+    if (name) {
+      const entry = configs.get(name);
+      if (!entry) {
+        throw new Error(`No MCP server named '${name}'`);
+      }
+      this.disconnect(name);
+      await this.connect(name, entry);
+      return;
+    }
+
+    this.closeAll();
+    this.starting = Promise.all([...configs].map(([server, entry]) => this.connect(server, entry))).then(() => {});
+    await this.starting;
+  }
+
+  public getServers(): McpServerState[] {
+    return [...this.servers.values()].map(({ client, ...state }) => state);
+  }
+
+  /**
+   * Schemas of the tools of connected servers, in the format sent to the providers
+   */
+  public getToolSchemas(): ToolSchema[] {
+    return [...this.tools.entries()].map(([name, { server, tool }]) => ({
+      type: 'function',
+      function: {
+        name,
+        description: `${tool.description || tool.annotations?.title || tool.name} (MCP server ${server})`,
+        parameters: {
+          ...tool.inputSchema,
+          type: 'object',
+          properties: tool.inputSchema?.properties || {},
+          required: Array.isArray(tool.inputSchema?.required) ? tool.inputSchema!.required : []
+        }
+      }
+    }));
+  }
+
+  /**
+   * Approval needed to call an MCP tool, or null for tools that aren't MCP tools.
+   * A server's hints can only raise the level: a tool that claims to be read-only
+   * still asks unless a permission rule allows it.
+   */
+  public getApprovalLevel(toolName: string): McpApprovalLevel | null {
+    if (!isMcpTool(toolName)) {
+      return null;
+    }
+    return this.tools.get(toolName)?.tool.annotations?.destructiveHint ? 'dangerous' : 'approval';
+  }
+
+  public async callTool(toolName: string, args: Record<string, any>, signal?: AbortSignal): Promise<McpCallResult> {
+    const entry = this.tools.get(toolName);
+    if (!entry) {
+      throw new Error(`Unknown MCP tool: ${toolName}`);
+    }
+    const connection = this.servers.get(entry.server);
+    if (!connection?.client || connection.status !== 'connected') {
+      throw new Error(`MCP server '${entry.server}' is not connected${connection?.error ? `: ${connection.error}` : ''}`);
+    }
+    return connection.client.callTool(entry.tool.name, args, signal);
+  }
+
+  public closeAll(): void {
+    for (const name of [...this.servers.keys()]) {
+      this.disconnect(name);
+    }
+    this.starting = null;
+  }
+
+  private async connect(name: string, { scope, config, trusted }: McpServerEntry): Promise<void> {
+    const status = config.disabled ? 'disabled' : !trusted ? 'untrusted' : 'connecting';
+    const connection: ServerConnection = { name, scope, config, status, tools: [] };
+    this.servers.set(name, connection);
+    if (status !== 'connecting') {
+      return;
+    }
+
+    const client = new McpClient(config);
+    connection.client = client;
+    client.onClose = error => {
+      // Failures while connecting are reported by connect itself
+      if (this.servers.get(name) !== connection || connection.status !== 'connected') {
+        return;
+      }
+      connection.status = 'failed';
+      connection.error = error?.message || 'Connection closed';
+      connection.client = undefined;
+      this.setTools(name, []);
+      logger.warn(`MCP server '${name}' disconnected: ${connection.error}`);
+    };
+    client.onToolsChanged = () => {
+      this.refreshTools(connection).catch(error => logger.warn(`Failed to refresh tools of MCP server '${name}'`, error));
+    };
+
+    try {
+      await client.connect();
+      connection.serverInfo = client.serverInfo;
+      await this.refreshTools(connection);
+      connection.status = 'connected';
+      logger.debug(`MCP server '${name}' connected with ${connection.tools.length} tools`);
+    } catch (error) {
+      client.close();
+      connection.client = undefined;
+      connection.status = 'failed';
+      connection.error = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to connect to MCP server '${name}': ${connection.error}`);
+    }
+  }
+
+  private async refreshTools(connection: ServerConnection): Promise<void> {
+    if (!connection.client) {
+      return;
+    }
+    const tools = await connection.client.listTools();
+    if (this.servers.get(connection.name) === connection) {
+      connection.tools = tools;
+      this.setTools(connection.name, tools);
+    }
+  }
+
+  private setTools(server: string, tools: McpTool[]): void {
+    for (const [name, entry] of this.tools) {
+      if (entry.server === server) {
+        this.tools.delete(name);
+      }
+    }
+    for (const tool of tools) {
+      const name = getMcpToolName(server, tool.name);
+      if (this.tools.has(name)) {
+        logger.warn(`Skipping MCP tool '${tool.name}' of '${server}': ${name} is already taken`);
+        continue;
+      }
+      this.tools.set(name, { server, tool });
+    }
+  }
+
+  private disconnect(name: string): void {
+    const connection = this.servers.get(name);
+    this.servers.delete(name);
+    this.setTools(name, []);
+    connection?.client?.close();
+  }
+}
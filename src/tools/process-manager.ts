@@ -0,0 +1,286 @@
+import { spawn, ChildProcess } from 'child_process';
+
+// Output kept per stream for foreground commands and per job for background ones
+const MAX_OUTPUT_CHARS = 50000;
+// Time a stopped process gets to exit before it is killed
+const STOP_GRACE_MS = 2000;
+
+export interface CommandResult {
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  interrupted: boolean;
+}
+
+export interface BackgroundJob {
+  id: string;
+  command: string;
+  cwd: string;
+  pid?: number;
+  startedAt: Date;
+  running: boolean;
+  exitCode: number | null;
+  signal: string | null;
+}
+
+interface JobState extends BackgroundJob {
+  child: ChildProcess;
+  output: string;
+  // Output characters dropped from the start of the buffer
+  droppedChars: number;
+  // Absolute output position already returned by readBackgroundOutput
+  readPosition: number;
+}
+
+const jobs = new Map<string, JobState>();
+let nextJobId = 1;
+
+/**
+ * Keep only the most recent output, the end of a log is what matters
+ */
+function appendCapped(buffer: string, chunk: string): { text: string; dropped: number } {
+  const text = buffer + chunk;
+  if (text.length <= MAX_OUTPUT_CHARS) {
+    return { text, dropped: 0 };
+  }
+  const dropped = text.length - MAX_OUTPUT_CHARS;
+  return { text: text.slice(dropped), dropped };
+}
+
+/**
+ * Mark output that lost its beginning to the cap
+ */
+function withDroppedNote(text: string, dropped: number): string {
+  return dropped > 0 ? `[... ${dropped} earlier characters dropped ...]\n${text}` : text;
+}
+
+/**
+ * Start a shell command in its own process group so the whole tree can be stopped
+ */
+function spawnCommand(
+  command: string,
+  cwd: string,
+  commandType: string = 'bash',
+  extra: { env?: Record<string, string>; pipeStdin?: boolean } = {}
+): ChildProcess {
+  const options = {
+    cwd,
+    env: extra.env ? { ...process.env, ...extra.env } : process.env,
+    detached: process.platform !== 'win32',
+    stdio: [extra.pipeStdin ? 'pipe' : 'ignore', 'pipe', 'pipe'] as ['ignore' | 'pipe', 'pipe', 'pipe']
+  };
+  return commandType === 'python'
+    ? spawn('python', ['-c', command], options)
+    : spawn(command, { ...options, shell: true });
+}
+
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (!child.pid) {
+    return;
+  }
+  try {
+    if (process.platform === 'win32') {
+      child.kill(signal);
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * SIGTERM the process group now and SIGKILL whatever is left after the grace period
+ */
+function terminateProcessTree(child: ChildProcess): void {
+  killProcessTree(child, 'SIGTERM');
+  setTimeout(() => killProcessTree(child, 'SIGKILL'), STOP_GRACE_MS).unref();
+}
+
+/**
+ * Run a command to completion without touching the CLI's own working directory.
+ * Resolves with the exit code and output whether or not the command succeeds.
+ * Aborting the signal kills the command and resolves right away with the output so far.
+ * `input` is written to the command's stdin. Each stream keeps its last MAX_OUTPUT_CHARS.
+ */
+export function runCommand(
+  command: string,
+  options: {
+    cwd: string;
+    timeoutMs: number;
+    commandType?: string;
+    onOutput?: (chunk: string) => void;
+    signal?: AbortSignal;
+    input?: string;
+    env?: Record<string, string>;
+  }
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      resolve({ exitCode: null, signal: null, stdout: '', stderr: '', timedOut: false, interrupted: true });
+      return;
+    }
+
+    const child = spawnCommand(command, options.cwd, options.commandType, { env: options.env, pipeStdin: options.input !== undefined });
+    if (options.input !== undefined) {
+      // Commands that exit without reading their input would otherwise raise EPIPE
+      child.stdin?.on('error', () => {});
+      child.stdin?.end(options.input);
+    }
+    let stdout = '';
+    let stderr = '';
+    let stdoutDropped = 0;
+    let stderrDropped = 0;
+    let timedOut = false;
+    const output = () => ({ stdout: withDroppedNote(stdout, stdoutDropped), stderr: withDroppedNote(stderr, stderrDropped) });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      terminateProcessTree(child);
+    }, options.timeoutMs);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      terminateProcessTree(child);
+      resolve({ exitCode: null, signal: 'SIGTERM', ...output(), timedOut: false, interrupted: true });
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout?.on('data', (data: Buffer) => {
+      const chunk = data.toString();
+      const { text, dropped } = appendCapped(stdout, chunk);
+      stdout = text;
+      stdoutDropped += dropped;
+      if (options.onOutput) {
+        options.onOutput(chunk);
+      }
+    });
+    child.stderr?.on('data', (data: Buffer) => {
+      const chunk = data.toString();
+      const { text, dropped } = appendCapped(stderr, chunk);
+      stderr = text;
+      stderrDropped += dropped;
+      if (options.onOutput) {
+        options.onOutput(chunk);
+      }
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve({ exitCode, signal, ...output(), timedOut, interrupted: false });
+    });
+  });
+}
+
+function toJob(state: JobState): BackgroundJob {
+  const { id, command, cwd, pid, startedAt, running, exitCode, signal } = state;
+  return { id, command, cwd, pid, startedAt, running, exitCode, signal };
+}
+
+/**
+ * Start a long-running command (dev server, watcher) and return its job
+ */
+export function startBackgroundJob(command: string, cwd: string): BackgroundJob {
+  const child = spawnCommand(command, cwd);
+  const state: JobState = {
+    id: String(nextJobId++),
+    command,
+    cwd,
+    pid: child.pid,
+    startedAt: new Date(),
+    running: true,
+    exitCode: null,
+    signal: null,
+    child,
+    output: '',
+    droppedChars: 0,
+    readPosition: 0
+  };
+
+  const onData = (data: Buffer) => {
+    const { text, dropped } = appendCapped(state.output, data.toString());
+    state.output = text;
+    state.droppedChars += dropped;
+  };
+  child.stdout?.on('data', onData);
+  child.stderr?.on('data', onData);
+  child.on('error', (error) => {
+    onData(Buffer.from(`\n[failed to start: ${error.message}]\n`));
+    state.running = false;
+  });
+  child.on('close', (exitCode, signal) => {
+    state.running = false;
+    state.exitCode = exitCode;
+    state.signal = signal;
+  });
+
+  jobs.set(state.id, state);
+  return toJob(state);
+}
+
+/**
+ * Output of a job, either everything new since the last read or the last N lines
+ */
+export function readBackgroundOutput(id: string, lines?: number): { job: BackgroundJob; output: string; truncated: boolean } | null {
+  const state = jobs.get(id);
+  if (!state) {
+    return null;
+  }
+
+  const end = state.droppedChars + state.output.length;
+  let output: string;
+  let truncated = false;
+  if (lines) {
+    output = state.output.split('\n').slice(-lines).join('\n');
+  } else {
+    const start = Math.max(state.readPosition, state.droppedChars);
+    truncated = start > state.readPosition;
+    output = state.output.slice(start - state.droppedChars);
+  }
+  state.readPosition = end;
+
+  return { job: toJob(state), output, truncated };
+}
+
+/**
+ * Stop a job with SIGTERM, escalating to SIGKILL if it doesn't exit
+ */
+export async function stopBackgroundJob(id: string): Promise<BackgroundJob | null> {
+  const state = jobs.get(id);
+  if (!state) {
+    return null;
+  }
+  if (state.running) {
+    const exited = new Promise<void>(resolve => state.child.once('close', () => resolve()));
+    killProcessTree(state.child, 'SIGTERM');
+    const timer = setTimeout(() => killProcessTree(state.child, 'SIGKILL'), STOP_GRACE_MS);
+    await exited;
+    clearTimeout(timer);
+  }
+  return toJob(state);
+}
+
+export function listBackgroundJobs(): BackgroundJob[] {
+  return [...jobs.values()].map(toJob);
+}
+
+/**
+ * Kill every running job, used when the CLI exits
+ */
+export function stopAllBackgroundJobs(): void {
+  for (const state of jobs.values()) {
+    if (state.running) {
+      killProcessTree(state.child, 'SIGKILL');
+    }
+  }
+}
+
+process.on('exit', stopAllBackgroundJobs);
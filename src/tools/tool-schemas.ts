@@ -139,7 +139,7 @@ export const EXECUTE_COMMAND_SCHEMA: ToolSchema = {
   type: 'function',
   function: {
     name: 'execute_command',
-    description: 'Run shell commands, scripts, or code. SAFETY WARNING: Only use for commands that COMPLETE and EXIT (test scripts, build commands, short-running scripts). NEVER use for commands that run indefinitely (flask server, node app starting, python -m http.server, etc.). Always prefer short-running commands that exit. Example: {"command": "npm test", "command_type": "bash"}',
+    description: 'Run shell commands, scripts, or code and wait for them to finish. Returns the exit code with stdout and stderr, also when the command fails. Only use for commands that COMPLETE and EXIT (test scripts, build commands, short-running scripts). For servers, watchers and other commands that run indefinitely use start_background_command instead. Example: {"command": "npm test", "command_type": "bash"}',
     parameters: {
       type: 'object',
       properties: {
@@ -158,7 +158,7 @@ export const EXECUTE_COMMAND_SCHEMA: ToolSchema = {
         },
         timeout: {
           type: 'integer',
-          description: 'Max execution time in seconds (1-300)',
+          description: 'Max execution time in seconds (1-300, default 30)',
           minimum: 1,
           maximum: 300
         }
@@ -168,6 +168,69 @@ export const EXECUTE_COMMAND_SCHEMA: ToolSchema = {
   }
 };
 
+export const START_BACKGROUND_COMMAND_SCHEMA: ToolSchema = {
+  type: 'function',
+  function: {
+    name: 'start_background_command',
+    description: 'Start a long-running shell command (dev server, file watcher, build in watch mode) in the background and return its job id right away. Check its output with read_background_output and stop it with stop_background_command. Example: {"command": "npm run dev"}',
+    parameters: {
+      type: 'object',
+      properties: {
+        command: {
+          type: 'string',
+          description: 'Shell command to start, e.g. "npm run dev", "python -m http.server 8000"'
+        },
+        working_directory: {
+          type: 'string',
+          description: 'Directory to run command in (optional)'
+        }
+      },
+      required: ['command']
+    }
+  }
+};
+
+export const READ_BACKGROUND_OUTPUT_SCHEMA: ToolSchema = {
+  type: 'function',
+  function: {
+    name: 'read_background_output',
+    description: 'Read output of a background job along with whether it is still running. Returns output produced since the last read, or the last N lines when lines is given. Example: {"job_id": "1"}',
+    parameters: {
+      type: 'object',
+      properties: {
+        job_id: {
+          type: 'string',
+          description: 'Job id returned by start_background_command'
+        },
+        lines: {
+          type: 'integer',
+          description: 'Return only the last N lines of output instead of new output (optional)',
+          minimum: 1
+        }
+      },
+      required: ['job_id']
+    }
+  }
+};
+
+export const STOP_BACKGROUND_COMMAND_SCHEMA: ToolSchema = {
+  type: 'function',
+  function: {
+    name: 'stop_background_command',
+    description: 'Stop a background job started with start_background_command, along with any processes it spawned. Example: {"job_id": "1"}',
+    parameters: {
+      type: 'object',
+      properties: {
+        job_id: {
+          type: 'string',
+          description: 'Job id returned by start_background_command'
+        }
+      },
+      required: ['job_id']
+    }
+  }
+};
+
 // Information Tools
 
 export const SEARCH_FILES_SCHEMA: ToolSchema = {
@@ -359,6 +422,110 @@ export const UPDATE_TASKS_SCHEMA: ToolSchema = {
   }
 };
 
+// Git Tools
+
+export const GIT_STATUS_SCHEMA: ToolSchema = {
+  type: 'function',
+  function: {
+    name: 'git_status',
+    description: 'Show the current branch and which files are staged, modified or untracked. Read-only, use instead of execute_command for git status. Example: {}',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: []
+    }
+  }
+};
+
+export const GIT_DIFF_SCHEMA: ToolSchema = {
+  type: 'function',
+  function: {
+    name: 'git_diff',
+    description: 'Show changes as a unified diff: unstaged changes by default, staged ones with staged=true, or changes since a commit or between commits with ref. Read-only. Example: {"path": "src/app.js", "staged": true}',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File or directory to limit the diff to (optional)'
+        },
+        staged: {
+          type: 'boolean',
+          description: 'Show changes staged for the next commit',
+          default: false
+        },
+        ref: {
+          type: 'string',
+          description: 'Commit, branch or range to compare with, e.g. "HEAD~3" or "main..HEAD" (optional)'
+        },
+        stat: {
+          type: 'boolean',
+          description: 'Only list changed files with line counts',
+          default: false
+        }
+      },
+      required: []
+    }
+  }
+};
+
+export const GIT_LOG_SCHEMA: ToolSchema = {
+  type: 'function',
+  function: {
+    name: 'git_log',
+    description: 'List recent commits (hash, date, author, subject), optionally for one file or starting from a ref. Read-only. Example: {"path": "src/app.js", "max_count": 10}',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File or directory whose history to show (optional)'
+        },
+        ref: {
+          type: 'string',
+          description: 'Branch, commit or range to list, e.g. "main..HEAD" (optional)'
+        },
+        max_count: {
+          type: 'integer',
+          description: 'Number of commits to show (1-200)',
+          default: 20,
+          minimum: 1,
+          maximum: 200
+        }
+      },
+      required: []
+    }
+  }
+};
+
+export const GIT_BLAME_SCHEMA: ToolSchema = {
+  type: 'function',
+  function: {
+    name: 'git_blame',
+    description: 'Show which commit and author last changed each line of a file, optionally for a line range. Read-only. Example: {"file_path": "src/app.js", "start_line": 10, "end_line": 30}',
+    parameters: {
+      type: 'object',
+      properties: {
+        file_path: {
+          type: 'string',
+          description: 'Path to file'
+        },
+        start_line: {
+          type: 'integer',
+          description: 'Starting line number (1-indexed, optional)',
+          minimum: 1
+        },
+        end_line: {
+          type: 'integer',
+          description: 'Ending line number (1-indexed, optional)',
+          minimum: 1
+        }
+      },
+      required: ['file_path']
+    }
+  }
+};
+
 // All tools combined
 export const ALL_TOOL_SCHEMAS = [
   READ_FILE_SCHEMA,
@@ -369,7 +536,14 @@ export const ALL_TOOL_SCHEMAS = [
   LIST_FILES_SCHEMA,
   CREATE_TASKS_SCHEMA,
   UPDATE_TASKS_SCHEMA,
-  EXECUTE_COMMAND_SCHEMA
+  GIT_STATUS_SCHEMA,
+  GIT_DIFF_SCHEMA,
+  GIT_LOG_SCHEMA,
+  GIT_BLAME_SCHEMA,
+  EXECUTE_COMMAND_SCHEMA,
+  START_BACKGROUND_COMMAND_SCHEMA,
+  READ_BACKGROUND_OUTPUT_SCHEMA,
+  STOP_BACKGROUND_COMMAND_SCHEMA
 ];
 
 // Safe tools that can be auto-executed without approval
@@ -378,7 +552,24 @@ export const SAFE_TOOLS = [
   'list_files',
   'search_files',
   'create_tasks',
-  'update_tasks'
+  'update_tasks',
+  'read_background_output',
+  'stop_background_command',
+  'git_status',
+  'git_diff',
+  'git_log',
+  'git_blame'
+];
+
+// Read-only tools that run concurrently when the model requests several at once
+export const PARALLEL_TOOLS = [
+  'read_file',
+  'list_files',
+  'search_files',
+  'git_status',
+  'git_diff',
+  'git_log',
+  'git_blame'
 ];
 
 // Tools that require approval, unless auto-approval is enabled
@@ -390,5 +581,6 @@ export const APPROVAL_REQUIRED_TOOLS = [
 // Dangerous tools that always require approval
 export const DANGEROUS_TOOLS = [
   'delete_file',
-  'execute_command'
+  'execute_command',
+  'start_background_command'
 ];
\ No newline at end of file
@@ -1,11 +1,17 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { writeFile, createDirectory, displayTree } from '../utils/file-ops.js';
+import { IgnoreRules } from '../utils/ignore-rules.js';
 import { setReadFilesTracker } from './validators.js';
+import { validateWorkspacePath, isWorkspaceBoundary } from './workspace.js';
+import { runCommand, startBackgroundJob, readBackgroundOutput, stopBackgroundJob, BackgroundJob } from './process-manager.js';
+import { McpManager, isMcpTool } from './mcp-manager.js';
+import { McpContent } from './mcp-client.js';
+import { runGit, getGitError, isValidRevision, truncateGitOutput } from './git.js';
 
-const execAsync = promisify(exec);
+// Default and maximum execute_command timeout, in seconds
+const DEFAULT_COMMAND_TIMEOUT = 30;
+const MAX_COMMAND_TIMEOUT = 300;
 
 export interface ToolResult {
   success: boolean;
@@ -13,6 +19,10 @@ export interface ToolResult {
   data?: any;
   message?: string;
   error?: string;
+  // Set when the user stopped the tool before it finished
+  interrupted?: boolean;
+  // Messages from PreToolUse/PostToolUse hooks for the model
+  hookFeedback?: string;
 }
 
 interface TaskUpdate {
@@ -61,11 +71,19 @@ export function formatToolParams(toolName: string, toolArgs: Record<string, any>
     list_files: ['directory'],
     search_files: ['pattern'],
     execute_command: ['command'],
+    start_background_command: ['command'],
+    read_background_output: ['job_id'],
+    stop_background_command: ['job_id'],
+    git_status: [],
+    git_diff: ['path', 'ref', 'staged'],
+    git_log: ['path', 'ref'],
+    git_blame: ['file_path'],
     create_tasks: [],
     update_tasks: [],
   };
 
-  const keyParams = paramMappings[toolName] || [];
+  // Tools without a mapping (MCP tools) show their first few arguments
+  const keyParams = paramMappings[toolName] || Object.keys(toolArgs || {}).slice(0, 3);
 
   if (keyParams.length === 0) {
     return '';
@@ -107,6 +125,10 @@ export function createToolResponse(success: boolean, data?: any, message: string
     }
   } else {
     response.error = error;
+    // Failures can still carry output, e.g. a command's stdout and stderr
+    if (data !== undefined) {
+      response.content = data;
+    }
     if (message) {
       response.message = message;
     }
@@ -198,7 +220,7 @@ export async function createFile(filePath: string, content: string, fileType: st
         return createToolResponse(false, undefined, '', 'Error: Failed to create directory');
       }
     } else if (fileType === 'file') {
-      const result = await writeFile(targetPath, content, overwrite, true);
+      const result = await writeFile(targetPath, content, overwrite);
       if (result) {
         return createToolResponse(true, undefined, `File created: ${filePath}`);
       } else {
@@ -233,7 +255,7 @@ export async function editFile(filePath: string, oldText: string, newText: strin
     }
 
     // Write the updated content
-    const result = await writeFile(filePath, updatedContent, true, true);
+    const result = await writeFile(filePath, updatedContent, true);
     if (result) {
       const replacementCount = replaceAll ? 
         (originalContent.split(oldText).length - 1) : 1;
@@ -253,16 +275,16 @@ export async function editFile(filePath: string, oldText: string, newText: strin
 export async function deleteFile(filePath: string, recursive: boolean = false): Promise<ToolResult> {
   try {
     const targetPath = path.resolve(filePath);
-    const currentWorkingDir = path.resolve(process.cwd());
 
-    // Safety check 1: Never delete the root directory itself
-    if (targetPath === currentWorkingDir) {
+    // Safety check 1: Never delete the workspace root or an allowed directory itself
+    if (isWorkspaceBoundary(targetPath)) {
       return createToolResponse(false, undefined, '', 'Error: Cannot delete the root project directory');
     }
 
-    // Safety check 2: Never delete anything outside the current working directory
-    if (!targetPath.startsWith(currentWorkingDir)) {
-      return createToolResponse(false, undefined, '', 'Error: Cannot delete files outside the project directory');
+    // Safety check 2: Never delete anything outside the workspace
+    const workspaceError = validateWorkspacePath(filePath);
+    if (workspaceError) {
+      return createToolResponse(false, undefined, '', workspaceError);
     }
 
     const exists = await fs.promises.access(targetPath).then(() => true).catch(() => false);
@@ -335,7 +357,8 @@ export async function searchFiles(
   excludeFiles?: string[],
   maxResults: number = 100,
   contextLines: number = 0,
-  groupByFile: boolean = false
+  groupByFile: boolean = false,
+  signal?: AbortSignal
 ): Promise<ToolResult> {
   try {
     const searchDir = path.resolve(directory);
@@ -351,11 +374,9 @@ export async function searchFiles(
       return createToolResponse(false, undefined, '', 'Error: Path is not a directory');
     }
 
-    // Default exclusions
-    const defaultExcludeDirs = ['.git', 'node_modules', '.next', 'dist', 'build', '.cache'];
-    const defaultExcludeFiles = ['*.log', '*.tmp', '*.cache', '*.lock'];
-    
-    const finalExcludeDirs = [...defaultExcludeDirs, ...(excludeDirs || [])];
+    // Ignored files are skipped like git does, plus lock files and whatever the model excludes
+    const ignoreRules = new IgnoreRules(searchDir);
+    const defaultExcludeFiles = ['*.cache', '*.lock'];
     const finalExcludeFiles = [...defaultExcludeFiles, ...(excludeFiles || [])];
 
     // Prepare search regex
@@ -383,7 +404,7 @@ export async function searchFiles(
     }
 
     // Collect all files to search
-    const filesToSearch = await collectFiles(searchDir, filePattern, fileTypes, finalExcludeDirs, finalExcludeFiles);
+    const filesToSearch = await collectFiles(searchDir, filePattern, ignoreRules, fileTypes, excludeDirs, finalExcludeFiles, signal);
 
     if (filesToSearch.length === 0) {
       return createToolResponse(true, [], 'No files found matching criteria');
@@ -394,7 +415,7 @@ export async function searchFiles(
     let totalMatches = 0;
 
     for (const filePath of filesToSearch) {
-      if (totalMatches >= maxResults) {
+      if (totalMatches >= maxResults || signal?.aborted) {
         break;
       }
 
@@ -497,9 +518,11 @@ function escapeRegex(string: string): string {
 async function collectFiles(
   directory: string,
   filePattern: string,
+  ignoreRules: IgnoreRules,
   fileTypes?: string[],
   excludeDirs?: string[],
-  excludeFiles?: string[]
+  excludeFiles?: string[],
+  signal?: AbortSignal
 ): Promise<string[]> {
   const files: string[] = [];
 
@@ -508,7 +531,14 @@ async function collectFiles(
       const entries = await fs.promises.readdir(dir, { withFileTypes: true });
 
       for (const entry of entries) {
+        // Stop walking large trees as soon as the user interrupts
+        if (signal?.aborted) {
+          return;
+        }
         const fullPath = path.join(dir, entry.name);
+        if (ignoreRules.isIgnored(fullPath, entry.isDirectory())) {
+          continue;
+        }
 
         if (entry.isDirectory()) {
           // Check if directory should be excluded
@@ -585,57 +615,100 @@ function isBinaryFile(filename: string): boolean {
 
 
 /**
- * Execute a shell command or run code
+ * Execute a shell command or run code, reporting the exit code and output whether or not it succeeds
  */
-export async function executeCommand(command: string, commandType: string, workingDirectory?: string, timeout: number = 30000): Promise<ToolResult> {
+export async function executeCommand(
+  command: string,
+  commandType: string,
+  workingDirectory?: string,
+  timeout: number = DEFAULT_COMMAND_TIMEOUT,
+  onOutput?: (chunk: string) => void,
+  signal?: AbortSignal
+): Promise<ToolResult> {
   try {
     // Validate command type
     if (!['bash', 'python', 'setup', 'run'].includes(commandType)) {
       return createToolResponse(false, undefined, '', 'Error: Invalid command_type');
     }
 
-    let originalCwd: string | undefined;
-    if (workingDirectory) {
-      const wdPath = path.resolve(workingDirectory);
-      const exists = await fs.promises.access(wdPath).then(() => true).catch(() => false);
-      if (!exists) {
-        return createToolResponse(false, undefined, '', 'Error: Working directory not found');
-      }
-      originalCwd = process.cwd();
-      process.chdir(workingDirectory);
+    const cwd = path.resolve(workingDirectory || '.');
+    const exists = await fs.promises.stat(cwd).then(stats => stats.isDirectory()).catch(() => false);
+    if (!exists) {
+      return createToolResponse(false, undefined, '', 'Error: Working directory not found');
     }
 
-    try {
-      let execCommand: string;
-      if (commandType === 'python') {
-        execCommand = `python -c "${command.replace(/"/g, '\\"')}"`;
-      } else {
-        execCommand = command;
-      }
+    const timeoutSeconds = Math.min(Math.max(Number(timeout) || DEFAULT_COMMAND_TIMEOUT, 1), MAX_COMMAND_TIMEOUT);
+    const result = await runCommand(command, { cwd, timeoutMs: timeoutSeconds * 1000, commandType, onOutput, signal });
+    const output = `exit code: ${result.exitCode ?? result.signal}\nstdout: ${result.stdout}\nstderr: ${result.stderr}`;
 
-      const { stdout, stderr } = await execAsync(execCommand, { timeout });
-      const success = true; // If no error was thrown, consider it successful
+    if (result.interrupted) {
+      return createToolResponse(false, output, '', 'Error: Command interrupted by user');
+    }
+    if (result.timedOut) {
+      return createToolResponse(false, output, '', `Error: Command timed out after ${timeoutSeconds}s. Use start_background_command for long-running processes.`);
+    }
+    if (result.exitCode !== 0) {
+      return createToolResponse(false, output, '', `Error: Command failed with ${result.exitCode !== null ? `exit code ${result.exitCode}` : `signal ${result.signal}`}`);
+    }
+    return createToolResponse(true, output, 'Command executed successfully');
 
-      return createToolResponse(
-        success,
-        `stdout: ${stdout}\nstderr: ${stderr}`,
-        `Command executed successfully`
-      );
+  } catch (error) {
+    return createToolResponse(false, undefined, '', `Error: Failed to execute command - ${error instanceof Error ? error.message : error}`);
+  }
+}
 
-    } finally {
-      // Restore original working directory
-      if (originalCwd) {
-        process.chdir(originalCwd);
-      }
-    }
+function describeJob(job: BackgroundJob): string {
+  if (job.running) {
+    return `running (pid ${job.pid})`;
+  }
+  return job.exitCode !== null ? `exited with code ${job.exitCode}` : `stopped by ${job.signal}`;
+}
 
-  } catch (error: any) {
-    const isTimeout = error.killed && error.signal === 'SIGTERM';
-    if (isTimeout) {
-      return createToolResponse(false, undefined, '', 'Error: Command timed out');
+/**
+ * Start a long-running command in the background and return its job id
+ */
+export async function startBackgroundCommand(command: string, workingDirectory?: string): Promise<ToolResult> {
+  try {
+    const cwd = path.resolve(workingDirectory || '.');
+    const exists = await fs.promises.stat(cwd).then(stats => stats.isDirectory()).catch(() => false);
+    if (!exists) {
+      return createToolResponse(false, undefined, '', 'Error: Working directory not found');
     }
-    return createToolResponse(false, undefined, '', 'Error: Failed to execute command');
+
+    const job = startBackgroundJob(command, cwd);
+    return createToolResponse(
+      true,
+      { job_id: job.id, pid: job.pid, command: job.command },
+      `Started background job ${job.id}. Use read_background_output to check its output.`
+    );
+  } catch (error) {
+    return createToolResponse(false, undefined, '', `Error: Failed to start background command - ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Read new output of a background job, or its last lines
+ */
+export async function readBackgroundCommandOutput(jobId: string, lines?: number): Promise<ToolResult> {
+  const result = readBackgroundOutput(String(jobId), lines);
+  if (!result) {
+    return createToolResponse(false, undefined, '', `Error: Background job '${jobId}' not found`);
+  }
+
+  const { job, output, truncated } = result;
+  const header = `job ${job.id} ${describeJob(job)}${truncated ? ' (earlier output was dropped)' : ''}`;
+  return createToolResponse(true, `${header}\n${output || '(no new output)'}`, `Read output of background job ${job.id}`);
+}
+
+/**
+ * Stop a background job and everything it spawned
+ */
+export async function stopBackgroundCommand(jobId: string): Promise<ToolResult> {
+  const job = await stopBackgroundJob(String(jobId));
+  if (!job) {
+    return createToolResponse(false, undefined, '', `Error: Background job '${jobId}' not found`);
   }
+  return createToolResponse(true, undefined, `Background job ${job.id} ${describeJob(job)}`);
 }
 
 /**
@@ -763,6 +836,129 @@ export async function updateTasks(taskUpdates: TaskUpdate[]): Promise<ToolResult
   }
 }
 
+/**
+ * Run a read-only git command for a git tool, turning failures into tool errors
+ */
+async function runGitTool(args: string[], emptyMessage: string, message: string, signal?: AbortSignal): Promise<ToolResult> {
+  try {
+    const result = await runGit(args, { signal });
+    if (result.exitCode !== 0) {
+      return createToolResponse(false, undefined, '', `Error: ${getGitError(result)}`);
+    }
+    const output = result.stdout.trimEnd();
+    return createToolResponse(true, output ? truncateGitOutput(output) : emptyMessage, message);
+  } catch (error) {
+    return createToolResponse(false, undefined, '', `Error: Failed to run git - ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Branch and short status of the working tree
+ */
+export async function gitStatus(signal?: AbortSignal): Promise<ToolResult> {
+  return runGitTool(['status', '--short', '--branch'], 'Working tree clean', 'Read git status', signal);
+}
+
+/**
+ * Unstaged, staged or committed changes as a unified diff
+ */
+export async function gitDiff(filePath?: string, staged: boolean = false, ref?: string, stat: boolean = false, signal?: AbortSignal): Promise<ToolResult> {
+  if (ref !== undefined && !isValidRevision(ref)) {
+    return createToolResponse(false, undefined, '', `Error: Invalid ref '${ref}'`);
+  }
+  const args = ['diff', '--no-ext-diff', '--no-textconv'];
+  if (staged) {
+    args.push('--cached');
+  }
+  if (stat) {
+    args.push('--stat');
+  }
+  if (ref) {
+    args.push(ref);
+  }
+  if (filePath) {
+    args.push('--', filePath);
+  }
+  return runGitTool(args, 'No changes', `Read ${staged ? 'staged ' : ''}diff${filePath ? ` of ${filePath}` : ''}`, signal);
+}
+
+/**
+ * Recent commits, one line each
+ */
+export async function gitLog(filePath?: string, ref?: string, maxCount: number = 20, signal?: AbortSignal): Promise<ToolResult> {
+  if (ref !== undefined && !isValidRevision(ref)) {
+    return createToolResponse(false, undefined, '', `Error: Invalid ref '${ref}'`);
+  }
+  const count = Math.min(Math.max(Number(maxCount) || 20, 1), 200);
+  const args = ['log', `--max-count=${count}`, '--date=short', '--pretty=format:%h %ad %an: %s'];
+  if (ref) {
+    args.push(ref);
+  }
+  if (filePath) {
+    args.push('--', filePath);
+  }
+  return runGitTool(args, 'No commits', 'Read git log', signal);
+}
+
+/**
+ * Last commit and author of each line of a file
+ */
+export async function gitBlame(filePath: string, startLine?: number, endLine?: number, signal?: AbortSignal): Promise<ToolResult> {
+  const args = ['blame', '--date=short'];
+  if (startLine) {
+    args.push('-L', `${startLine},${endLine || ''}`);
+  }
+  args.push('--', filePath);
+  return runGitTool(args, 'No lines to blame', `Read blame of ${filePath}`, signal);
+}
+
+function formatMcpContent(item: McpContent): string {
+  switch (item.type) {
+    case 'text':
+      return item.text || '';
+    case 'resource':
+      return item.resource?.text ?? `[resource ${item.resource?.uri}]`;
+    case 'resource_link':
+      return `[resource ${item.uri}]`;
+    default:
+      // Images and audio can't be passed on as text
+      return `[${item.type}${item.mimeType ? ` ${item.mimeType}` : ''}]`;
+  }
+}
+
+/**
+ * Call a tool of a connected MCP server, turning its content into text for the model
+ */
+export async function callMcpTool(toolName: string, toolArgs: Record<string, any>, signal?: AbortSignal): Promise<ToolResult> {
+  try {
+    const result = await McpManager.getInstance().callTool(toolName, toolArgs, signal);
+    let output = (result.content || []).map(formatMcpContent).filter(Boolean).join('\n');
+    if (!output && result.structuredContent) {
+      output = JSON.stringify(result.structuredContent, null, 2);
+    }
+    return result.isError
+      ? createToolResponse(false, undefined, '', output || 'Error: MCP tool failed')
+      : createToolResponse(true, output);
+  } catch (error) {
+    return createToolResponse(false, undefined, '', `Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Path arguments each tool touches, checked against the workspace before running
+const WORKSPACE_PATH_ARGS: Record<string, { arg: string; defaultValue?: string }> = {
+  read_file: { arg: 'file_path' },
+  create_file: { arg: 'file_path' },
+  edit_file: { arg: 'file_path' },
+  delete_file: { arg: 'file_path' },
+  list_files: { arg: 'directory', defaultValue: '.' },
+  search_files: { arg: 'directory', defaultValue: '.' },
+  execute_command: { arg: 'working_directory' },
+  start_background_command: { arg: 'working_directory' },
+  git_diff: { arg: 'path' },
+  git_log: { arg: 'path' },
+  git_blame: { arg: 'file_path' },
+};
+
 // Tool Registry: maps tool names to functions
 export const TOOL_REGISTRY = {
   read_file: readFile,
@@ -772,18 +968,60 @@ export const TOOL_REGISTRY = {
   list_files: listFiles,
   search_files: searchFiles,
   execute_command: executeCommand,
+  start_background_command: startBackgroundCommand,
+  read_background_output: readBackgroundCommandOutput,
+  stop_background_command: stopBackgroundCommand,
+  git_status: gitStatus,
+  git_diff: gitDiff,
+  git_log: gitLog,
+  git_blame: gitBlame,
   create_tasks: createTasks,
   update_tasks: updateTasks,
 };
 
+export interface ToolExecutionOptions {
+  // Receives command output as it is produced
+  onOutput?: (chunk: string) => void;
+  // Aborted when the user interrupts, stops commands and long searches
+  signal?: AbortSignal;
+}
+
 /**
  * Execute a tool by name with given arguments
  */
-export async function executeTool(toolName: string, toolArgs: Record<string, any>): Promise<ToolResult> {
-  if (!(toolName in TOOL_REGISTRY)) {
+export async function executeTool(toolName: string, toolArgs: Record<string, any>, options: ToolExecutionOptions = {}): Promise<ToolResult> {
+  const isMcp = isMcpTool(toolName);
+  if (!isMcp && !(toolName in TOOL_REGISTRY)) {
     return createToolResponse(false, undefined, '', 'Error: Unknown tool');
   }
 
+  const result = isMcp ? await callMcpTool(toolName, toolArgs, options.signal) : await runTool(toolName, toolArgs, options);
+
+  // Whatever the tool managed before being stopped is kept, but it didn't complete
+  if (options.signal?.aborted) {
+    return { ...result, success: false, interrupted: true, error: 'Tool execution interrupted by user' };
+  }
+  return result;
+}
+
+/**
+ * Check the workspace and call the tool implementation with its arguments
+ */
+async function runTool(toolName: string, toolArgs: Record<string, any>, options: ToolExecutionOptions): Promise<ToolResult> {
+  if (options.signal?.aborted) {
+    return createToolResponse(false, undefined, '', 'Error: Tool execution interrupted by user');
+  }
+
+  // Keep file access inside the workspace and allowed directories
+  const pathArg = WORKSPACE_PATH_ARGS[toolName];
+  const targetPath = pathArg ? toolArgs[pathArg.arg] ?? pathArg.defaultValue : undefined;
+  if (typeof targetPath === 'string') {
+    const workspaceError = validateWorkspacePath(targetPath);
+    if (workspaceError) {
+      return createToolResponse(false, undefined, '', workspaceError);
+    }
+  }
+
   try {
     const toolFunction = (TOOL_REGISTRY as any)[toolName];
     
@@ -811,10 +1049,25 @@ export async function executeTool(toolName: string, toolArgs: Record<string, any
           toolArgs.exclude_files,
           toolArgs.max_results,
           toolArgs.context_lines,
-          toolArgs.group_by_file
+          toolArgs.group_by_file,
+          options.signal
         );
       case 'execute_command':
-        return await toolFunction(toolArgs.command, toolArgs.command_type, toolArgs.working_directory, toolArgs.timeout);
+        return await toolFunction(toolArgs.command, toolArgs.command_type, toolArgs.working_directory, toolArgs.timeout, options.onOutput, options.signal);
+      case 'start_background_command':
+        return await toolFunction(toolArgs.command, toolArgs.working_directory);
+      case 'read_background_output':
+        return await toolFunction(toolArgs.job_id, toolArgs.lines);
+      case 'stop_background_command':
+        return await toolFunction(toolArgs.job_id);
+      case 'git_status':
+        return await toolFunction(options.signal);
+      case 'git_diff':
+        return await toolFunction(toolArgs.path, toolArgs.staged, toolArgs.ref, toolArgs.stat, options.signal);
+      case 'git_log':
+        return await toolFunction(toolArgs.path, toolArgs.ref, toolArgs.max_count, options.signal);
+      case 'git_blame':
+        return await toolFunction(toolArgs.file_path, toolArgs.start_line, toolArgs.end_line, options.signal);
       case 'create_tasks':
         return await toolFunction(toolArgs.user_query, toolArgs.tasks);
       case 'update_tasks':
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Directory file tools are confined to, defaults to where the CLI was launched
+let workspaceRoot = process.cwd();
+// Extra directories outside the workspace that tools may also use
+let allowedDirectories: string[] = [];
+
+export function setWorkspaceRoot(root: string) {
+  workspaceRoot = path.resolve(root);
+}
+
+export function getWorkspaceRoot(): string {
+  return workspaceRoot;
+}
+
+export function setAllowedDirectories(directories: string[]) {
+  allowedDirectories = [...new Set(directories.map(dir => path.resolve(dir)))];
+}
+
+export function getAllowedDirectories(): string[] {
+  return [...allowedDirectories];
+}
+
+/**
+ * Resolve symlinks in the longest existing part of the path, so paths that
+ * don't exist yet (new files) are still checked against where they would land
+ */
+function realPathOf(targetPath: string): string {
+  let existing = targetPath;
+  const missing: string[] = [];
+  // Bounded so symlink cycles can't loop forever
+  for (let hops = 0; !fs.existsSync(existing) && hops < 40; hops++) {
+    // A dangling symlink still decides where a new file would be written
+    const stats = fs.lstatSync(existing, { throwIfNoEntry: false });
+    if (stats?.isSymbolicLink()) {
+      existing = path.resolve(path.dirname(existing), fs.readlinkSync(existing));
+      continue;
+    }
+
+    const parent = path.dirname(existing);
+    if (parent === existing) {
+      break;
+    }
+    missing.unshift(path.basename(existing));
+    existing = parent;
+  }
+
+  try {
+    return path.join(fs.realpathSync(existing), ...missing);
+  } catch {
+    return targetPath;
+  }
+}
+
+/**
+ * Whether a path.relative() result points outside the directory it is relative to.
+ * Names that only start with dots, like "..notes", are still inside.
+ */
+export function leavesDirectory(relative: string): boolean {
+  return relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative);
+}
+
+function isInside(targetPath: string, directory: string): boolean {
+  return !leavesDirectory(path.relative(directory, targetPath));
+}
+
+/**
+ * Whether a path is the workspace root or one of the allowed directories themselves
+ */
+export function isWorkspaceBoundary(targetPath: string): boolean {
+  const resolved = path.resolve(targetPath);
+  return [workspaceRoot, ...allowedDirectories].includes(resolved);
+}
+
+/**
+ * Check that a path stays inside the workspace or an allowed directory,
+ * also after following symlinks. Returns an error message, or null when allowed.
+ */
+export function validateWorkspacePath(targetPath: string): string | null {
+  const roots = [workspaceRoot, ...allowedDirectories];
+  const resolved = path.resolve(targetPath);
+  const allowedList = allowedDirectories.length > 0
+    ? ` or the allowed directories (${allowedDirectories.join(', ')})`
+    : '';
+
+  if (!roots.some(root => isInside(resolved, root))) {
+    return `Error: Path '${targetPath}' is outside the workspace. Tools can only access files under ${workspaceRoot}${allowedList}. Use a path inside the workspace instead.`;
+  }
+
+  const real = realPathOf(resolved);
+  if (!roots.some(root => isInside(real, realPathOf(root)))) {
+    return `Error: Path '${targetPath}' resolves through a symlink to ${real}, which is outside the workspace. Tools can only access files under ${workspaceRoot}${allowedList}.`;
+  }
+
+  return null;
+}
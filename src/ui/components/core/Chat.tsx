@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Box, Text, useInput, useApp } from 'ink';
+import { Box, Text, useInput, useApp, useStdin } from 'ink';
 import { Agent } from '../../../core/agent.js';
 import { useAgent } from '../../hooks/useAgent.js';
 import { useTokenMetrics } from '../../hooks/useTokenMetrics.js';
@@ -9,10 +9,16 @@ import TokenMetrics from '../display/TokenMetrics.js';
 import PendingToolApproval from '../input-overlays/PendingToolApproval.js';
 import Login from '../input-overlays/Login.js';
 import ModelSelector from '../input-overlays/ModelSelector.js';
+import SessionSelector from '../input-overlays/SessionSelector.js';
 import MaxIterationsContinue from '../input-overlays/MaxIterationsContinue.js';
 import { handleSlashCommand } from '../../../commands/index.js';
+import { setModelCompletionLoader } from '../../../commands/completions.js';
 import { triggerInterrupt } from '../../../utils/interrupt-handler.js';
 import { logger } from '../../../utils/logger.js';
+import { SessionManager, SessionSummary } from '../../../utils/session-manager.js';
+import { McpManager } from '../../../tools/mcp-manager.js';
+import { HookManager } from '../../../utils/hook-manager.js';
+import { PermissionManager } from '../../../utils/permission-manager.js';
 
 interface ChatProps {
   agent: Agent;
@@ -21,6 +27,8 @@ interface ChatProps {
 export default function Chat({ agent }: ChatProps) {
   const {
     completionTokens,
+    contextTokens,
+    contextLength,
     startTime,
     endTime,
     pausedTime,
@@ -28,6 +36,7 @@ export default function Chat({ agent }: ChatProps) {
     isActive,
     startRequest,
     addApiTokens,
+    setContextUsage,
     pauseMetrics,
     resumeMetrics,
     completeRequest,
@@ -40,7 +49,8 @@ export default function Chat({ agent }: ChatProps) {
     addApiTokens,      // Add API usage tokens throughout the request
     pauseMetrics,      // Pause during approval
     resumeMetrics,     // Resume after approval
-    completeRequest    // Complete when agent is done
+    completeRequest,   // Complete when agent is done
+    setContextUsage    // Track context window usage
   );
 
   const {
@@ -58,6 +68,7 @@ export default function Chat({ agent }: ChatProps) {
     addMessage,
     setApiKey,
     clearHistory,
+    loadConversation,
     toggleAutoApprove,
     toggleReasoning,
     interruptRequest,
@@ -68,6 +79,55 @@ export default function Chat({ agent }: ChatProps) {
   const [showInput, setShowInput] = useState(true);
   const [showLogin, setShowLogin] = useState(false);
   const [showModelSelector, setShowModelSelector] = useState(false);
+  const [sessionPickerSessions, setSessionPickerSessions] = useState<SessionSummary[] | null>(null);
+  const showSessionPicker = sessionPickerSessions !== null;
+
+  // Show a conversation restored at startup
+  useEffect(() => {
+    const history = agent.getDisplayHistory();
+    if (history.length > 0) {
+      loadConversation(history);
+    }
+  }, []);
+
+  // Project hooks, allow rules and servers from the project's MCP config wait until the user trusts them
+  useEffect(() => {
+    const permissionManager = PermissionManager.getInstance();
+    if (permissionManager.hasUntrustedProjectRules()) {
+      addMessage({
+        role: 'system',
+        content: `🔒 ${permissionManager.getRulesPath('project')} has permission rules. Its deny and ask rules apply, allow rules don't: check the file with \`/permissions\`, then use \`/permissions trust\` to apply them.`,
+      });
+    }
+
+    const hookManager = HookManager.getInstance();
+    if (hookManager.hasUntrustedProjectHooks()) {
+      addMessage({
+        role: 'system',
+        content: `🔒 ${hookManager.getHooksPath('project')} has hooks that would run commands on this machine. They are off: check the file with \`/hooks\`, then use \`/hooks trust\` to turn them on.`,
+      });
+    }
+
+    const mcpManager = McpManager.getInstance();
+    mcpManager.start().then(() => {
+      const untrusted = mcpManager.getServers().filter(server => server.status === 'untrusted');
+      if (untrusted.length > 0) {
+        addMessage({
+          role: 'system',
+          content: `🔒 ${mcpManager.getProjectConfigPath()} configures MCP servers that would run on this machine (${untrusted.map(server => server.name).join(', ')}). They were not started: check the file, then use \`/mcp trust\` to start them.`,
+        });
+      }
+    });
+  }, []);
+
+  // /model completions list every provider's models, fetched the first time they are needed
+  useEffect(() => {
+    setModelCompletionLoader(async () => (await agent.listAllModels()).map(model => model.id));
+  }, [agent]);
+
+  const setShowSessionPicker = (show: boolean) => {
+    setSessionPickerSessions(show ? SessionManager.getInstance().listSessions() : null);
+  };
 
   // Handle global keyboard shortcuts
   useInput((input, key) => {
@@ -87,22 +147,23 @@ export default function Chat({ agent }: ChatProps) {
         });
         handleApproval(false);
       }
-      // If model is actively processing (but not waiting for approval or executing tools after approval)
-      else if (isProcessing && !currentToolExecution) {
-        logger.info('User interrupted processing via ESC');
+      // If there's a current tool execution, stop it along with the request
+      else if (currentToolExecution) {
+        logger.info('User interrupted tool execution via ESC');
         addMessage({
           role: 'system',
-          content: '⏹️  Request interrupted by user (ESC).',
+          content: `⏹️  ${currentToolExecution.name} interrupted by user (ESC).`,
         });
         interruptRequest();
       }
-      // If there's a current tool execution, interrupt it
-      else if (currentToolExecution) {
-        logger.info('User attempted to interrupt tool execution via ESC');
+      // If model is actively processing (but not waiting for approval)
+      else if (isProcessing) {
+        logger.info('User interrupted processing via ESC');
         addMessage({
           role: 'system',
-          content: '⚠️  Cannot interrupt tool execution in progress. Please wait for completion.',
+          content: '⏹️  Request interrupted by user (ESC).',
         });
+        interruptRequest();
       }
       // If user is typing and nothing else is happening, clear the input
       else if (showInput && inputValue.trim()) {
@@ -118,12 +179,28 @@ export default function Chat({ agent }: ChatProps) {
     }
   });
 
-  // Hide input when processing, waiting for approval, or showing login/model selector
+  // Hide input when processing, waiting for approval, or showing login/model/session selector
   useEffect(() => {
-    setShowInput(!isProcessing && !pendingApproval && !showLogin && !showModelSelector);
-  }, [isProcessing, pendingApproval, showLogin, showModelSelector]);
+    setShowInput(!isProcessing && !pendingApproval && !showLogin && !showModelSelector && !showSessionPicker);
+  }, [isProcessing, pendingApproval, showLogin, showModelSelector, showSessionPicker]);
 
 
+  // Ink keeps stdin in raw mode while it reads keys; programs run in the foreground need it back
+  const { stdin, isRawModeSupported } = useStdin();
+  const suspendTerminal = <T,>(run: () => T): T => {
+    const wasRaw = isRawModeSupported && stdin.isRaw;
+    if (wasRaw) {
+      stdin.setRawMode(false);
+    }
+    try {
+      return run();
+    } finally {
+      if (wasRaw) {
+        stdin.setRawMode(true);
+      }
+    }
+  };
+
   const handleSendMessage = async (message: string) => {
     if (message.trim() && !isProcessing) {
       setInputValue('');
@@ -135,8 +212,12 @@ export default function Chat({ agent }: ChatProps) {
           clearHistory,
           setShowLogin,
           setShowModelSelector,
+          setShowSessionPicker,
+          loadConversation,
           toggleReasoning,
           showReasoning,
+          sendMessage,
+          suspendTerminal,
           agent,
         });
         return;
@@ -147,8 +228,8 @@ export default function Chat({ agent }: ChatProps) {
     }
   };
 
-  const handleApproval = (approved: boolean, autoApproveSession?: boolean) => {
-    approveToolExecution(approved, autoApproveSession);
+  const handleApproval = (approved: boolean, autoApproveSession?: boolean, alwaysAllow?: boolean) => {
+    approveToolExecution(approved, autoApproveSession, alwaysAllow);
   };
 
   const handleLogin = async (apiKey: string) => {
@@ -186,6 +267,31 @@ export default function Chat({ agent }: ChatProps) {
     });
   };
 
+  const handleSessionSelect = async (sessionId: string) => {
+    setShowSessionPicker(false);
+    const session = await agent.openSession(sessionId);
+    if (session) {
+      loadConversation(agent.getDisplayHistory());
+      addMessage({
+        role: 'system',
+        content: `📂 Opened session **${session.title}** (${session.provider}/${session.model}).`,
+      });
+    } else {
+      addMessage({
+        role: 'system',
+        content: `❌ Session ${sessionId} could not be opened.`,
+      });
+    }
+  };
+
+  const handleSessionCancel = () => {
+    setShowSessionPicker(false);
+    addMessage({
+      role: 'system',
+      content: 'Session selection canceled.',
+    });
+  };
+
   const handleModelCancel = () => {
     setShowModelSelector(false);
     addMessage({
@@ -209,6 +315,8 @@ export default function Chat({ agent }: ChatProps) {
         endTime={endTime}
         pausedTime={pausedTime}
         completionTokens={completionTokens}
+        contextTokens={contextTokens}
+        contextLength={contextLength}
       />
 
       {/* Input area */}
@@ -220,6 +328,8 @@ export default function Chat({ agent }: ChatProps) {
             onApprove={() => handleApproval(true, false)}
             onReject={() => handleApproval(false, false)}
             onApproveWithAutoSession={() => handleApproval(true, true)}
+            suggestedRule={pendingApproval.suggestedRule}
+            onApproveAlways={() => handleApproval(true, false, true)}
           />
         ) : pendingMaxIterations ? (
           <MaxIterationsContinue
@@ -238,6 +348,13 @@ export default function Chat({ agent }: ChatProps) {
             onCancel={handleModelCancel}
             currentModel={agent.getCurrentModel?.() || undefined}
           />
+        ) : sessionPickerSessions ? (
+          <SessionSelector
+            sessions={sessionPickerSessions}
+            onSubmit={handleSessionSelect}
+            onCancel={handleSessionCancel}
+            currentSessionId={agent.getSessionId()}
+          />
         ) : showInput ? (
           <MessageInput
             value={inputValue}
@@ -252,7 +369,7 @@ export default function Chat({ agent }: ChatProps) {
           <Box>
             <Text color="yellow" dimColor>
               {currentToolExecution 
-                ? `Executing ${currentToolExecution.name}... (Please wait)` 
+                ? `Executing ${currentToolExecution.name}... (ESC to interrupt)` 
                 : 'Processing... (ESC to interrupt)'}
             </Text>
           </Box>
@@ -43,6 +43,12 @@ export default function MessageHistory({ messages, showReasoning = true }: Messa
         const markdownElements = parseMarkdown(message.content);
         return (
           <Box key={message.id} marginBottom={1} flexDirection="column">
+            {/* Show which routing rule answered when model routing is configured */}
+            {message.route && (
+              <Text color="gray" dimColor>
+                {message.route.task} · {message.route.provider}/{message.route.model}
+              </Text>
+            )}
             {/* Render reasoning if present and showReasoning is enabled */}
             {message.reasoning && showReasoning && (
               <Box marginBottom={1}>
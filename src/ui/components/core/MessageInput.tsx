@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Box, Text, useInput } from 'ink';
-import { getCommandNames } from '../../../commands/index.js';
+import { getSlashSuggestions, getMentionSuggestions, onCompletionsUpdated } from '../../../commands/completions.js';
+import { saveClipboardImage, getPastedImagePath, formatMention } from '../../../utils/attachments.js';
 import SlashCommandSuggestions from '../input-overlays/SlashCommandSuggestions.js';
 
 interface MessageInputProps {
@@ -22,9 +23,19 @@ export default function MessageInput({
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [draftMessage, setDraftMessage] = useState('');
   const [cursorPosition, setCursorPosition] = useState(value.length);
+  // Bumped when completions load in the background (model ids)
+  const [completionsVersion, setCompletionsVersion] = useState(0);
   
   const isSlashCommand = value.startsWith('/');
-  const showSlashCommands = isSlashCommand;
+  const suggestions = useMemo(
+    () => isSlashCommand ? getSlashSuggestions(value) : getMentionSuggestions(value),
+    [value, completionsVersion]
+  );
+  // File suggestions only take over the arrow keys while there are some
+  const showSuggestions = isSlashCommand || Boolean(suggestions?.items.length);
+  const selectedSuggestion = suggestions ? suggestions.items[selectedCommandIndex] || suggestions.items[0] : undefined;
+
+  useEffect(() => onCompletionsUpdated(() => setCompletionsVersion(prev => prev + 1)), []);
 
   // Keep cursor position in bounds and reset to end when value is cleared
   useEffect(() => {
@@ -40,15 +51,15 @@ export default function MessageInput({
 
   useInput((input, key) => {
     if (key.return) {
-      if (isSlashCommand) {
+      if (suggestions && selectedSuggestion) {
         // Auto-complete to selected command
-        const searchTerm = value.slice(1).toLowerCase();
-        const commands = getCommandNames();
-        const filteredCommands = commands.filter(cmd => 
-          cmd.toLowerCase().includes(searchTerm)
-        );
-        if (filteredCommands.length > 0) {
-          onSubmit('/' + (filteredCommands[selectedCommandIndex] || filteredCommands[0]));
+        if (suggestions.kind === 'command') {
+          onSubmit(selectedSuggestion.label);
+          return;
+        }
+        // Finish a partly typed argument, but leave one that is already complete
+        if (suggestions.kind === 'argument' && suggestions.partial && !suggestions.items.some(item => item.label === suggestions.partial)) {
+          onSubmit(selectedSuggestion.value.trim());
           return;
         }
       }
@@ -56,8 +67,18 @@ export default function MessageInput({
       return;
     }
 
+    if (key.tab) {
+      // Shift+Tab is handled in the parent component
+      if (!key.shift && selectedSuggestion) {
+        onChange(selectedSuggestion.value);
+        setCursorPosition(selectedSuggestion.value.length);
+        setSelectedCommandIndex(0);
+      }
+      return;
+    }
+
     if (key.upArrow) {
-      if (showSlashCommands) {
+      if (showSuggestions) {
         setSelectedCommandIndex(prev => Math.max(0, prev - 1));
       } else if (cursorPosition === 0 && userMessageHistory.length > 0) {
         // Store current input as draft when first navigating to history
@@ -79,13 +100,8 @@ export default function MessageInput({
     }
 
     if (key.downArrow) {
-      if (showSlashCommands) {
-        const searchTerm = value.slice(1).toLowerCase();
-        const commands = getCommandNames();
-        const filteredCommands = commands.filter(cmd => 
-          cmd.toLowerCase().includes(searchTerm)
-        );
-        setSelectedCommandIndex(prev => Math.min(filteredCommands.length - 1, prev + 1));
+      if (showSuggestions) {
+        setSelectedCommandIndex(prev => Math.max(0, Math.min((suggestions?.items.length ?? 0) - 1, prev + 1)));
       } else if (cursorPosition === value.length && historyIndex >= 0) {
         // Navigate through message history when at last position
         const newIndex = historyIndex - 1;
@@ -128,21 +144,33 @@ export default function MessageInput({
     }
 
     if (key.ctrl) {
-      // Handle Ctrl+C in parent component
+      // Ctrl+V attaches an image from the clipboard; Ctrl+C is handled in the parent component
+      if (input === 'v') {
+        saveClipboardImage().then(filePath => {
+          if (filePath) {
+            insertText(`${formatMention(filePath)} `);
+          }
+        });
+      }
       return;
     }
 
     // Regular character input
     if (input && !key.meta && !key.ctrl) {
-      const processedInput = input.replace(/[\r\n]+/g, ' ');
-      const newValue = value.slice(0, cursorPosition) + processedInput + value.slice(cursorPosition);
-      onChange(newValue);
-      setCursorPosition(prev => prev + processedInput.length);
-      setSelectedCommandIndex(0);
-      setHistoryIndex(-1);
+      // Image files dragged into the terminal arrive as a pasted path
+      const pastedImage = input.length > 1 ? getPastedImagePath(input) : null;
+      insertText(pastedImage ? `${formatMention(pastedImage)} ` : input.replace(/[\r\n]+/g, ' '));
     }
   });
 
+  function insertText(text: string) {
+    const newValue = value.slice(0, cursorPosition) + text + value.slice(cursorPosition);
+    onChange(newValue);
+    setCursorPosition(prev => prev + text.length);
+    setSelectedCommandIndex(0);
+    setHistoryIndex(-1);
+  }
+
   const displayValue = value || placeholder;
   const isPlaceholder = !value;
 
@@ -167,9 +195,9 @@ export default function MessageInput({
           )}
         </Box>
       </Box>
-      {showSlashCommands && (
+      {showSuggestions && suggestions && (
         <SlashCommandSuggestions 
-          input={value} 
+          suggestions={suggestions} 
           selectedIndex={selectedCommandIndex}
           onSelect={(command: string) => onSubmit('/' + command)}
         />
@@ -8,6 +8,8 @@ interface TokenMetricsProps {
   endTime: Date | null;
   pausedTime: number;
   completionTokens: number;
+  contextTokens: number;
+  contextLength: number;
 }
 
 export default function TokenMetrics({ 
@@ -16,7 +18,9 @@ export default function TokenMetrics({
   startTime, 
   endTime,
   pausedTime,
-  completionTokens
+  completionTokens,
+  contextTokens,
+  contextLength
 }: TokenMetricsProps) {
   const [displayTime, setDisplayTime] = useState('0.0s');
   const [loadingMessageIndex, setLoadingMessageIndex] = useState(0);
@@ -87,8 +91,15 @@ export default function TokenMetrics({
     return '';
   };
 
+  const formatTokenCount = (tokens: number): string => {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+  };
+
+  const contextPercent = contextLength > 0 ? Math.min(100, Math.round((contextTokens / contextLength) * 100)) : 0;
+  const contextColor = contextPercent >= 80 ? 'red' : contextPercent >= 50 ? 'yellow' : 'gray';
+
   // Don't show component if inactive and no tokens counted
-  if (!isActive && completionTokens === 0) {
+  if (!isActive && completionTokens === 0 && contextLength === 0) {
     return null;
   }
 
@@ -97,6 +108,11 @@ export default function TokenMetrics({
       <Box gap={2}>
         <Text color="cyan">{getElapsedTime()}</Text>
         <Text color="green">{completionTokens} tokens</Text>
+        {contextLength > 0 && (
+          <Text color={contextColor}>
+            context {contextPercent}% ({formatTokenCount(contextTokens)}/{formatTokenCount(contextLength)})
+          </Text>
+        )}
         {(isActive || isPaused) && (
             <Text color={isPaused ? 'yellow' : 'blue'}>
               {getStatusText()}
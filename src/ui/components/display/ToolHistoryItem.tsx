@@ -7,8 +7,12 @@ interface ToolHistoryItemProps {
   execution: ToolExecution;
 }
 
+// Lines of live output shown while a command is still running
+const LIVE_OUTPUT_LINES = 10;
+
 export default function ToolHistoryItem({ execution }: ToolHistoryItemProps) {
-  const { name, args, status, result } = execution;
+  const { name, args, status, result, output } = execution;
+  const isRunning = status === 'pending' || status === 'approved' || status === 'executing';
 
   const getStatusIcon = () => {
     switch (status) {
@@ -99,6 +103,11 @@ export default function ToolHistoryItem({ execution }: ToolHistoryItemProps) {
       return null;
     }
 
+    // Diffs and blame can be long, the model summarizes what matters
+    if (toolName === 'git_diff' || toolName === 'git_blame') {
+      return null;
+    }
+
     // Default handling
     return (
       <Text color="white">
@@ -145,6 +154,12 @@ export default function ToolHistoryItem({ execution }: ToolHistoryItemProps) {
         </Box>
       )}
 
+      {isRunning && output && (
+        <Box>
+          <Text color="gray">{output.trimEnd().split('\n').slice(-LIVE_OUTPUT_LINES).join('\n')}</Text>
+        </Box>
+      )}
+
       {status === 'completed' && result && (
         <Box>
           {result.success ? (
@@ -169,7 +184,8 @@ export default function ToolHistoryItem({ execution }: ToolHistoryItemProps) {
       )}
 
       {status === 'failed' && (
-        <Box>
+        <Box flexDirection="column">
+          {result?.content && renderResult(name, result)}
           <Text color="red">
             Tool execution failed
             {result?.error && (
@@ -182,9 +198,10 @@ export default function ToolHistoryItem({ execution }: ToolHistoryItemProps) {
       )}
 
       {status === 'canceled' && (
-        <Box>
+        <Box flexDirection="column">
+          {result?.interrupted && result.content && renderResult(name, result)}
           <Text color="gray">
-            Tool execution canceled by user
+            {result?.interrupted ? 'Tool execution interrupted by user' : 'Tool execution canceled by user'}
           </Text>
         </Box>
       )}
@@ -3,6 +3,7 @@ import { Box, Text, useInput } from 'ink';
 import DiffPreview from '../display/DiffPreview.js';
 import { formatToolParams } from '../../../tools/tools.js';
 import { DANGEROUS_TOOLS } from '../../../tools/tool-schemas.js';
+import { PermissionRule } from '../../../utils/permission-manager.js';
 
 interface PendingToolApprovalProps {
   toolName: string;
@@ -10,17 +11,31 @@ interface PendingToolApprovalProps {
   onApprove: () => void;
   onReject: () => void;
   onApproveWithAutoSession?: () => void;
+  suggestedRule?: PermissionRule | null;
+  onApproveAlways?: () => void;
 }
 
+type ApprovalOption = 'yes' | 'session' | 'always' | 'no';
+
 export default function PendingToolApproval({ 
   toolName, 
   toolArgs, 
   onApprove, 
   onReject,
-  onApproveWithAutoSession 
+  onApproveWithAutoSession,
+  suggestedRule,
+  onApproveAlways
 }: PendingToolApprovalProps) {
   const [selectedApprovalOption, setSelectedApprovalOption] = useState(0);
 
+  // Dangerous tools can't be auto-approved for the session, but a pattern rule can still allow them
+  const options: ApprovalOption[] = [
+    'yes',
+    ...(!DANGEROUS_TOOLS.includes(toolName) ? ['session' as const] : []),
+    ...(suggestedRule && onApproveAlways ? ['always' as const] : []),
+    'no'
+  ];
+
   // Reset selection when component mounts
   useEffect(() => {
     setSelectedApprovalOption(0);
@@ -28,26 +43,26 @@ export default function PendingToolApproval({
 
   // Handle approval input
   useInput((input, key) => {
-    const isDangerous = DANGEROUS_TOOLS.includes(toolName);
-    const maxOptions = isDangerous ? 1 : 2; // Dangerous tools only have Yes/No, others have Yes/Auto/No
-    
     if (key.upArrow) {
       setSelectedApprovalOption(prev => Math.max(0, prev - 1));
     } else if (key.downArrow) {
-      setSelectedApprovalOption(prev => Math.min(maxOptions, prev + 1));
+      setSelectedApprovalOption(prev => Math.min(options.length - 1, prev + 1));
     } else if (key.return) {
-      if (selectedApprovalOption === 0) {
+      const option = options[selectedApprovalOption];
+      if (option === 'yes') {
         onApprove();
-      } else if (selectedApprovalOption === 1 && !isDangerous) {
-        // Middle option: "Yes, and don't ask again this session"
+      } else if (option === 'session') {
         onApproveWithAutoSession?.();
+      } else if (option === 'always') {
+        onApproveAlways?.();
       } else {
-        // Last option: "No"
         onReject();
       }
     }
   });
 
+  const isSelected = (option: ApprovalOption) => options[selectedApprovalOption] === option;
+
   const getFilename = () => {
     const filePath = toolArgs?.file_path || toolArgs?.source_path;
     if (!filePath) return null;
@@ -98,26 +113,35 @@ export default function PendingToolApproval({
         
         <Box flexDirection="column">
           <Box>
-            <Text color={selectedApprovalOption === 0 ? "black" : "green"}
-                  backgroundColor={selectedApprovalOption === 0 ? "rgb(124, 214, 114)" : undefined}>
-              {selectedApprovalOption === 0 ? <Text bold>{">"}</Text> : "  "} Yes
+            <Text color={isSelected('yes') ? "black" : "green"}
+                  backgroundColor={isSelected('yes') ? "rgb(124, 214, 114)" : undefined}>
+              {isSelected('yes') ? <Text bold>{">"}</Text> : "  "} Yes
             </Text>
           </Box>
           
           {/* Show auto-approval option only for non-dangerous tools */}
-          {!DANGEROUS_TOOLS.includes(toolName) && (
+          {options.includes('session') && (
+            <Box>
+              <Text color={isSelected('session') ? "black" : "blue"}
+                    backgroundColor={isSelected('session') ? "rgb(114, 159, 214)" : undefined}>
+                {isSelected('session') ? <Text bold>{">"}</Text> : "  "} Yes, and don't ask again this session
+              </Text>
+            </Box>
+          )}
+
+          {options.includes('always') && suggestedRule && (
             <Box>
-              <Text color={selectedApprovalOption === 1 ? "black" : "blue"}
-                    backgroundColor={selectedApprovalOption === 1 ? "rgb(114, 159, 214)" : undefined}>
-                {selectedApprovalOption === 1 ? <Text bold>{">"}</Text> : "  "} Yes, and don't ask again this session
+              <Text color={isSelected('always') ? "black" : "cyan"}
+                    backgroundColor={isSelected('always') ? "rgb(114, 200, 214)" : undefined}>
+                {isSelected('always') ? <Text bold>{">"}</Text> : "  "} Yes, and always allow <Text bold>{suggestedRule.pattern}</Text> in this project
               </Text>
             </Box>
           )}
           
           <Box>
-            <Text color={selectedApprovalOption === (DANGEROUS_TOOLS.includes(toolName) ? 1 : 2) ? "black" : "red"}
-                  backgroundColor={selectedApprovalOption === (DANGEROUS_TOOLS.includes(toolName) ? 1 : 2) ? "rgb(214, 114, 114)" : undefined}>
-              {selectedApprovalOption === (DANGEROUS_TOOLS.includes(toolName) ? 1 : 2) ? <Text bold>{">"}</Text> : "  "} No, tell Groq what to do differently (esc)
+            <Text color={isSelected('no') ? "black" : "red"}
+                  backgroundColor={isSelected('no') ? "rgb(214, 114, 114)" : undefined}>
+              {isSelected('no') ? <Text bold>{">"}</Text> : "  "} No, tell Groq what to do differently (esc)
             </Text>
           </Box>
         </Box>
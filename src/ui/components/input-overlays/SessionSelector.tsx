@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { SessionSummary } from '../../../utils/session-manager.js';
+
+interface SessionSelectorProps {
+  sessions: SessionSummary[];
+  onSubmit: (sessionId: string) => void;
+  onCancel: () => void;
+  currentSessionId?: string | null;
+}
+
+const VISIBLE_SESSIONS = 8;
+
+export default function SessionSelector({ sessions, onSubmit, onCancel, currentSessionId }: SessionSelectorProps) {
+  const [selectedIndex, setSelectedIndex] = useState(() => {
+    const currentIndex = sessions.findIndex(session => session.id === currentSessionId);
+    return currentIndex >= 0 ? currentIndex : 0;
+  });
+
+  useInput((input, key) => {
+    if (key.return) {
+      if (sessions[selectedIndex]) {
+        onSubmit(sessions[selectedIndex].id);
+      }
+      return;
+    }
+
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+
+    if (key.upArrow) {
+      setSelectedIndex(prev => Math.max(0, prev - 1));
+      return;
+    }
+
+    if (key.downArrow) {
+      setSelectedIndex(prev => Math.min(sessions.length - 1, prev + 1));
+      return;
+    }
+
+    if (key.ctrl && input === 'c') {
+      onCancel();
+      return;
+    }
+  });
+
+  // Keep the selected session inside the visible window
+  const windowStart = Math.min(
+    Math.max(0, selectedIndex - Math.floor(VISIBLE_SESSIONS / 2)),
+    Math.max(0, sessions.length - VISIBLE_SESSIONS)
+  );
+  const visibleSessions = sessions.slice(windowStart, windowStart + VISIBLE_SESSIONS);
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>Open Session</Text>
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text color="gray" dimColor>
+          ↑/↓ to choose, Enter to open, ESC to cancel. The current conversation stays saved.
+        </Text>
+      </Box>
+
+      <Box flexDirection="column">
+        {visibleSessions.map((session, offset) => {
+          const index = windowStart + offset;
+          const isSelected = index === selectedIndex;
+          return (
+            <Box key={session.id} flexDirection="column">
+              <Text
+                color={isSelected ? 'black' : 'white'}
+                backgroundColor={isSelected ? 'cyan' : undefined}
+                bold={isSelected}
+              >
+                {isSelected ? <Text bold>{">"}</Text> : "  "} {""}
+                {session.title}
+                {session.id === currentSessionId ? ' (current)' : ''}
+              </Text>
+              {isSelected && (
+                <Box marginLeft={4}>
+                  <Text color="gray" dimColor>
+                    {new Date(session.updatedAt).toLocaleString()} · {session.messageCount} messages · {session.provider}/{session.model} · {session.cwd}
+                  </Text>
+                </Box>
+              )}
+            </Box>
+          );
+        })}
+      </Box>
+
+      {sessions.length > VISIBLE_SESSIONS && (
+        <Box marginTop={1}>
+          <Text color="gray" dimColor>
+            {selectedIndex + 1}/{sessions.length}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -1,39 +1,38 @@
 import React from 'react';
 import { Box, Text } from 'ink';
-import { getCommandNames, getAvailableCommands } from '../../../commands/index.js';
+import { SlashSuggestions } from '../../../commands/completions.js';
 
 interface SlashCommandSuggestionsProps {
-  input: string;
+  suggestions: SlashSuggestions;
   selectedIndex: number;
   onSelect: (command: string) => void;
 }
 
 export default function SlashCommandSuggestions({ 
-  input, 
+  suggestions, 
   selectedIndex 
 }: SlashCommandSuggestionsProps) {
-  const searchTerm = input.slice(1).toLowerCase();
-  const allCommands = getAvailableCommands();
-  const filteredCommands = allCommands.filter(cmd => 
-    cmd.command.toLowerCase().includes(searchTerm)
-  );
+  const { items, hint } = suggestions;
 
-  if (filteredCommands.length === 0) {
+  if (items.length === 0 && !hint) {
     return null;
   }
 
   return (
     <Box flexDirection="column" marginLeft={2}>
-      {filteredCommands.map((cmd, index) => (
-        <Box key={cmd.command}>
+      {hint && (
+        <Text color="gray">{hint}</Text>
+      )}
+      {items.map((item, index) => (
+        <Box key={item.value}>
           <Text 
             color={index === selectedIndex ? "black" : "white"}
             backgroundColor={index === selectedIndex ? "cyan" : undefined}
           >
-            /{cmd.command} - {cmd.description}
+            {item.label}{item.description ? ` - ${item.description}` : ''}
           </Text>
         </Box>
       ))}
     </Box>
   );
-}
\ No newline at end of file
+}
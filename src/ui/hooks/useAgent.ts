@@ -1,5 +1,9 @@
 import { useState, useCallback, useRef } from 'react';
-import { Agent } from '../../core/agent.js';
+import { Agent, ToolApprovalResult, ChatRunOptions } from '../../core/agent.js';
+import { formatRetryNotice, formatFailoverNotice } from '../../core/retry-policy.js';
+import { RouteInfo } from '../../core/model-router.js';
+import { formatBudget } from '../../utils/usage-ledger.js';
+import { PermissionRule } from '../../utils/permission-manager.js';
 import { DANGEROUS_TOOLS, APPROVAL_REQUIRED_TOOLS } from '../../tools/tool-schemas.js';
 
 export interface ChatMessage {
@@ -9,6 +13,8 @@ export interface ChatMessage {
   reasoning?: string;
   timestamp: Date;
   toolExecution?: ToolExecution;
+  // Model routing rule that answered, for assistant messages
+  route?: RouteInfo;
 }
 
 export interface ToolExecution {
@@ -18,15 +24,23 @@ export interface ToolExecution {
   status: 'pending' | 'approved' | 'executing' | 'completed' | 'failed' | 'canceled';
   result?: any;
   needsApproval?: boolean;
+  // Live command output while the tool runs
+  output?: string;
 }
 
+// Tail of live command output kept for display
+const MAX_LIVE_OUTPUT_CHARS = 4000;
+// Batch output chunks so fast commands don't re-render on every line
+const OUTPUT_FLUSH_INTERVAL_MS = 100;
+
 export function useAgent(
   agent: Agent, 
   onStartRequest?: () => void,
   onAddApiTokens?: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void, 
   onPauseRequest?: () => void,
   onResumeRequest?: () => void,
-  onCompleteRequest?: () => void
+  onCompleteRequest?: () => void,
+  onContextUsage?: (usage: { usedTokens: number; contextLength: number }) => void
 ) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [userMessageHistory, setUserMessageHistory] = useState<string[]>([]);
@@ -35,10 +49,18 @@ export function useAgent(
   const [sessionAutoApprove, setSessionAutoApprove] = useState(false);
   const [showReasoning, setShowReasoning] = useState(true);
   const currentExecutionIdRef = useRef<string | null>(null);
+  // Tool call id -> execution message, read-only tools can finish in any order
+  const executionIdsRef = useRef(new Map<string, string>());
+  const streamingMessageIdRef = useRef<string | null>(null);
+  // Route of the request in flight, set when model routing is configured
+  const routeRef = useRef<RouteInfo | undefined>(undefined);
+  const pendingOutputRef = useRef('');
+  const outputFlushTimerRef = useRef<NodeJS.Timeout | null>(null);
   const [pendingApproval, setPendingApproval] = useState<{
     toolName: string;
     toolArgs: Record<string, any>;
-    resolve: (approvalResult: { approved: boolean; autoApproveSession?: boolean }) => void;
+    suggestedRule: PermissionRule | null;
+    resolve: (approvalResult: ToolApprovalResult) => void;
   } | null>(null);
   const [pendingMaxIterations, setPendingMaxIterations] = useState<{
     maxIterations: number;
@@ -61,7 +83,22 @@ export function useAgent(
     ));
   }, []);
 
-  const sendMessage = useCallback(async (userInput: string) => {
+  // Replace the streamed message with the final text, or add it when nothing was streamed
+  const commitAssistantMessage = useCallback((content: string, reasoning?: string) => {
+    if (streamingMessageIdRef.current) {
+      updateMessage(streamingMessageIdRef.current, { content, reasoning });
+      streamingMessageIdRef.current = null;
+    } else {
+      addMessage({
+        role: 'assistant',
+        content: content,
+        reasoning: reasoning,
+        route: routeRef.current,
+      });
+    }
+  }, [addMessage, updateMessage]);
+
+  const sendMessage = useCallback(async (userInput: string, options?: ChatRunOptions) => {
     if (isProcessing) return;
 
     // Start tracking metrics for new agent request
@@ -83,23 +120,60 @@ export function useAgent(
     try {
       // Set up tool execution callbacks
       agent.setToolCallbacks({
+        onStreamingText: (content: string, reasoning?: string) => {
+          // Grow a single assistant message while tokens arrive
+          if (streamingMessageIdRef.current) {
+            updateMessage(streamingMessageIdRef.current, { content, reasoning });
+          } else {
+            streamingMessageIdRef.current = addMessage({
+              role: 'assistant',
+              content: content,
+              reasoning: reasoning,
+              route: routeRef.current,
+            });
+          }
+        },
         onThinkingText: (content: string, reasoning?: string) => {
           // Add thinking text as assistant message when model uses tools
-          addMessage({
-            role: 'assistant',
-            content: content,
-            reasoning: reasoning,
-          });
+          commitAssistantMessage(content, reasoning);
         },
         onFinalMessage: (content: string, reasoning?: string) => {
           // Add final assistant message when no tools are used
+          commitAssistantMessage(content, reasoning);
+        },
+        onContextUsage: onContextUsage,
+        onCompaction: (result) => {
+          addMessage({
+            role: 'system',
+            content: `🗜️ Context compacted: ~${result.tokensBefore} → ~${result.tokensAfter} tokens` +
+              (result.removedMessages > 0 ? `, ${result.removedMessages} older messages ${result.summarized ? 'summarized' : 'removed'}` : '') +
+              (result.truncatedOutputs > 0 ? `, ${result.truncatedOutputs} tool outputs truncated` : ''),
+          });
+        },
+        onRoute: (route) => {
+          routeRef.current = route;
+        },
+        onRetry: (notice) => {
+          addMessage({
+            role: 'system',
+            content: `⏳ ${formatRetryNotice(notice)}`,
+          });
+        },
+        onFailover: (notice) => {
+          addMessage({
+            role: 'system',
+            content: `🔀 ${formatFailoverNotice(notice)}`,
+          });
+        },
+        onBudget: (status) => {
           addMessage({
-            role: 'assistant',
-            content: content,
-            reasoning: reasoning,
+            role: 'system',
+            content: `💸 ${formatBudget(status)}`,
           });
         },
-        onToolStart: (name: string, args: Record<string, any>) => {
+        onToolStart: (name: string, args: Record<string, any>, toolCallId: string) => {
+          streamingMessageIdRef.current = null;
+
           const toolExecution: ToolExecution = {
             id: Math.random().toString(36).substr(2, 9),
             name,
@@ -110,6 +184,7 @@ export function useAgent(
           
           // Store the ID in ref for reliable matching across callbacks
           currentExecutionIdRef.current = toolExecution.id;
+          executionIdsRef.current.set(toolCallId, toolExecution.id);
           
           // Always add tool execution message; approval is handled separately
           addMessage({
@@ -120,8 +195,35 @@ export function useAgent(
           
           setCurrentToolExecution(toolExecution);
         },
-        onToolEnd: (name: string, result: any) => {
-          const executionId = currentExecutionIdRef.current;
+        onToolOutput: (_name: string, chunk: string) => {
+          pendingOutputRef.current += chunk;
+          if (outputFlushTimerRef.current) {
+            return;
+          }
+          outputFlushTimerRef.current = setTimeout(() => {
+            outputFlushTimerRef.current = null;
+            const executionId = currentExecutionIdRef.current;
+            const pending = pendingOutputRef.current;
+            pendingOutputRef.current = '';
+            setMessages(prev => prev.map(msg => {
+              if (msg.toolExecution?.id === executionId && msg.role === 'tool_execution') {
+                const output = ((msg.toolExecution!.output || '') + pending).slice(-MAX_LIVE_OUTPUT_CHARS);
+                return { ...msg, toolExecution: { ...msg.toolExecution!, output } };
+              }
+              return msg;
+            }));
+          }, OUTPUT_FLUSH_INTERVAL_MS);
+        },
+        onToolEnd: (name: string, result: any, toolCallId: string) => {
+          const executionId = executionIdsRef.current.get(toolCallId) ?? currentExecutionIdRef.current;
+          executionIdsRef.current.delete(toolCallId);
+
+          // The final result replaces the live output
+          if (outputFlushTimerRef.current) {
+            clearTimeout(outputFlushTimerRef.current);
+            outputFlushTimerRef.current = null;
+          }
+          pendingOutputRef.current = '';
           
           // Only update the specific tool execution that just finished
           setMessages(prev => {
@@ -132,12 +234,14 @@ export function useAgent(
                 ...msg, 
                 content: result.userRejected 
                   ? `🚫 ${name} rejected by user`
+                  : result.interrupted
+                    ? `⏹️ ${name} interrupted by user`
                   : result.success 
                     ? `✓ ${name} completed successfully` 
                     : `🔴 ${name} failed: ${result.error || 'Unknown error'}`,
                 toolExecution: { 
                   ...msg.toolExecution!, 
-                  status: result.userRejected 
+                  status: result.userRejected || result.interrupted
                     ? 'canceled'
                     : result.success 
                       ? 'completed' 
@@ -149,8 +253,11 @@ export function useAgent(
             return msg;
           });
         });
-          setCurrentToolExecution(null);
-          currentExecutionIdRef.current = null;
+          // Parallel read-only calls are still running until the last one ends
+          if (executionIdsRef.current.size === 0) {
+            setCurrentToolExecution(null);
+            currentExecutionIdRef.current = null;
+          }
         },
         onApiUsage: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => {
           // Pass API usage data to token metrics
@@ -158,17 +265,18 @@ export function useAgent(
             onAddApiTokens(usage);
           }
         },
-        onToolApproval: async (toolName: string, toolArgs: Record<string, any>) => {          
+        onToolApproval: async (toolName: string, toolArgs: Record<string, any>, suggestedRule: PermissionRule | null) => {          
           // Pause metrics while waiting for approval
           if (onPauseRequest) {
             onPauseRequest();
           }
           
-          return new Promise<{ approved: boolean; autoApproveSession?: boolean }>((resolve) => {
+          return new Promise<ToolApprovalResult>((resolve) => {
             setPendingApproval({ 
               toolName, 
               toolArgs, 
-              resolve: (approvalResult: { approved: boolean; autoApproveSession?: boolean }) => {
+              suggestedRule,
+              resolve: (approvalResult: ToolApprovalResult) => {
                 
                 // Resume metrics after approval decision
                 if (onResumeRequest) {
@@ -180,7 +288,7 @@ export function useAgent(
                   return prev.map(msg => {
                     if (msg.toolExecution?.id === currentExecutionIdRef.current && msg.role === 'tool_execution') {
                       const messageContent = approvalResult.approved 
-                        ? `Executing ${toolName}...${approvalResult.autoApproveSession ? ' (Auto-approval enabled for session)' : ''}` 
+                        ? `Executing ${toolName}...${approvalResult.autoApproveSession ? ' (Auto-approval enabled for session)' : ''}${approvalResult.alwaysAllowRule ? ` (Always allowed: ${approvalResult.alwaysAllowRule.pattern})` : ''}` 
                         : `Tool ${toolName} rejected by user`;
                       
                       return { 
@@ -227,7 +335,7 @@ export function useAgent(
         },
       });
 
-      await agent.chat(userInput);
+      await agent.chat(userInput, options);
 
     } catch (error) {
       // Don't show abort errors - user interruption message is already shown
@@ -266,6 +374,8 @@ export function useAgent(
         content: errorMessage,
       });
     } finally {
+      streamingMessageIdRef.current = null;
+      routeRef.current = undefined;
       setIsProcessing(false);
       setCurrentToolExecution(null);
       
@@ -281,11 +391,12 @@ export function useAgent(
         // Silently ignore session save errors to not interrupt user experience
       }
     }
-  }, [agent, isProcessing, addMessage, updateMessage, onStartRequest, onAddApiTokens, onPauseRequest, onResumeRequest, onCompleteRequest]);
+  }, [agent, isProcessing, addMessage, updateMessage, commitAssistantMessage, onStartRequest, onAddApiTokens, onPauseRequest, onResumeRequest, onCompleteRequest, onContextUsage]);
 
-  const approveToolExecution = useCallback((approved: boolean, autoApproveSession?: boolean) => {
+  const approveToolExecution = useCallback((approved: boolean, autoApproveSession?: boolean, alwaysAllow?: boolean) => {
     if (pendingApproval) {
-      pendingApproval.resolve({ approved, autoApproveSession });
+      const alwaysAllowRule = approved && alwaysAllow ? pendingApproval.suggestedRule || undefined : undefined;
+      pendingApproval.resolve({ approved, autoApproveSession, alwaysAllowRule });
       setPendingApproval(null);
     }
   }, [pendingApproval]);
@@ -314,8 +425,20 @@ export function useAgent(
     agent.clearHistory();
   }, [agent]);
 
+  // Replace the chat view with a restored conversation
+  const loadConversation = useCallback((history: Array<{ role: 'user' | 'assistant'; content: string }>) => {
+    setMessages(history.map(entry => ({
+      role: entry.role,
+      content: entry.content,
+      id: Math.random().toString(36).substr(2, 9),
+      timestamp: new Date(),
+    })));
+    setUserMessageHistory(history.filter(entry => entry.role === 'user').map(entry => entry.content));
+  }, []);
+
   const interruptRequest = useCallback(() => {
     agent.interrupt();
+    streamingMessageIdRef.current = null;
     setIsProcessing(false);
     setCurrentToolExecution(null);
     
@@ -345,6 +468,7 @@ export function useAgent(
     addMessage,
     setApiKey,
     clearHistory,
+    loadConversation,
     toggleAutoApprove,
     toggleReasoning,
     interruptRequest,
@@ -7,6 +7,13 @@ interface TokenMetricsState {
   pausedTime: number; // Total time spent paused (in milliseconds)
   isPaused: boolean;
   isActive: boolean; // True when agent is processing (includes paused time)
+  contextTokens: number; // Tokens currently used in the model's context window
+  contextLength: number; // Size of the model's context window, 0 when unknown
+}
+
+interface ContextUsage {
+  usedTokens: number;
+  contextLength: number;
 }
 
 interface ApiUsage {
@@ -23,6 +30,8 @@ export function useTokenMetrics() {
     pausedTime: 0,
     isPaused: false,
     isActive: false,
+    contextTokens: 0,
+    contextLength: 0,
   });
 
   const completionTokensRef = useRef<number>(0);
@@ -32,14 +41,15 @@ export function useTokenMetrics() {
   const startRequest = useCallback(() => {
     completionTokensRef.current = 0;
     pauseStartTimeRef.current = null;
-    setMetrics({
+    setMetrics(prev => ({
+      ...prev,
       completionTokens: 0,
       startTime: new Date(),
       endTime: null,
       pausedTime: 0,
       isPaused: false,
       isActive: true,
-    });
+    }));
   }, []);
 
   // Add API usage tokens to the current request (cumulative)
@@ -51,6 +61,15 @@ export function useTokenMetrics() {
     }));
   }, []);
 
+  // Track how full the model's context window is
+  const setContextUsage = useCallback((usage: ContextUsage) => {
+    setMetrics(prev => ({
+      ...prev,
+      contextTokens: usage.usedTokens,
+      contextLength: usage.contextLength,
+    }));
+  }, []);
+
   // Pause metrics (e.g., waiting for user approval)
   const pauseMetrics = useCallback(() => {
     if (pauseStartTimeRef.current) return; // Already paused
@@ -104,20 +123,22 @@ export function useTokenMetrics() {
   const resetMetrics = useCallback(() => {
     completionTokensRef.current = 0;
     pauseStartTimeRef.current = null;
-    setMetrics({
+    setMetrics(prev => ({
+      ...prev,
       completionTokens: 0,
       startTime: null,
       endTime: null,
       pausedTime: 0,
       isPaused: false,
       isActive: false,
-    });
+    }));
   }, []); 
 
   return {
     ...metrics,
     startRequest,
     addApiTokens,
+    setContextUsage,
     pauseMetrics,
     resumeMetrics,
     completeRequest,
@@ -2,6 +2,7 @@ import { logger } from './logger.js';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import type { ModelRoutes } from '../core/model-router.js';
 
 export interface AgentProfile {
   name: string;
@@ -9,6 +10,8 @@ export interface AgentProfile {
   description?: string;
   model?: string;
   temperature?: number;
+  // Models for planning, edits, summaries and titles while this agent is active
+  routes?: ModelRoutes;
   created?: Date;
   lastUsed?: Date;
 }
@@ -0,0 +1,221 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ContentPart, ImageContentPart, MessageContent } from '../providers/index.js';
+import { getWorkspaceRoot, leavesDirectory } from '../tools/workspace.js';
+import { runCommand } from '../tools/process-manager.js';
+import { getReadFilesTracker } from '../tools/tools.js';
+import { logger } from './logger.js';
+
+export interface Attachment {
+  path: string;
+  kind: 'file' | 'image';
+  // Why the file wasn't attached, or was only partly
+  note?: string;
+}
+
+export interface PromptContent {
+  content: MessageContent;
+  attachments: Attachment[];
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+const MAX_FILE_CHARS = 100000;
+// Providers reject larger base64 images
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+const CLIPBOARD_TIMEOUT_MS = 5000;
+// @path or @"path with spaces", at the start of the input or after whitespace
+const MENTION_REGEX = /(^|\s)@(?:"([^"]+)"|(\S+))/g;
+// Punctuation that ends a sentence rather than the path ("see @src/app.ts.")
+const TRAILING_PUNCTUATION = /[.,;:!?)\]]+$/;
+
+export function getImageMimeType(filePath: string): string | null {
+  return IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()] || null;
+}
+
+function resolveFile(rawPath: string): string | null {
+  const expanded = rawPath.startsWith('~') ? path.join(os.homedir(), rawPath.slice(1)) : rawPath;
+  const resolved = path.resolve(getWorkspaceRoot(), expanded);
+  try {
+    return fs.statSync(resolved).isFile() ? resolved : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files mentioned with @path in a prompt. Mentions that aren't existing files
+ * (@decorators, e-mail addresses) are left alone.
+ */
+export function findMentions(input: string): string[] {
+  const files: string[] = [];
+  for (const match of input.matchAll(MENTION_REGEX)) {
+    const quoted = match[2];
+    const bare = match[3];
+    const resolved = quoted
+      ? resolveFile(quoted)
+      : resolveFile(bare) ?? (TRAILING_PUNCTUATION.test(bare) ? resolveFile(bare.replace(TRAILING_PUNCTUATION, '')) : null);
+    if (resolved && !files.includes(resolved)) {
+      files.push(resolved);
+    }
+  }
+  return files;
+}
+
+function displayPath(filePath: string): string {
+  const relative = path.relative(getWorkspaceRoot(), filePath);
+  return relative && !leavesDirectory(relative) ? relative : filePath;
+}
+
+/**
+ * Image file dropped or pasted into the terminal as a path, possibly quoted or
+ * with escaped spaces, or null when the text is something else
+ */
+export function getPastedImagePath(text: string): string | null {
+  const unquoted = text.trim().replace(/^(['"])(.*)\1$/, '$2').replace(/\\ /g, ' ');
+  if (!unquoted || !getImageMimeType(unquoted)) {
+    return null;
+  }
+  return resolveFile(unquoted);
+}
+
+/**
+ * Mention for a file, relative to the workspace when it's inside it
+ */
+export function formatMention(filePath: string): string {
+  const display = displayPath(filePath);
+  return /\s/.test(display) ? `@"${display}"` : `@${display}`;
+}
+
+function readImage(filePath: string, mimeType: string): { part?: ImageContentPart; note?: string } {
+  const size = fs.statSync(filePath).size;
+  if (size > MAX_IMAGE_BYTES) {
+    return { note: `not attached, images are limited to ${MAX_IMAGE_BYTES / (1024 * 1024)} MB` };
+  }
+  const data = fs.readFileSync(filePath).toString('base64');
+  return { part: { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } } };
+}
+
+function readTextFile(filePath: string): { block: string; note?: string } {
+  const buffer = fs.readFileSync(filePath);
+  const name = displayPath(filePath);
+  if (buffer.subarray(0, 8000).includes(0)) {
+    return { block: `<file path="${name}">\n[Binary file, contents not included]\n</file>`, note: 'binary file, not included' };
+  }
+
+  const text = buffer.toString('utf8');
+  if (text.length > MAX_FILE_CHARS) {
+    const removed = text.length - MAX_FILE_CHARS;
+    return {
+      block: `<file path="${name}">\n${text.substring(0, MAX_FILE_CHARS)}\n[... ${removed} characters truncated ...]\n</file>`,
+      note: `truncated to ${MAX_FILE_CHARS} characters`
+    };
+  }
+
+  // The model has seen the whole file, so it may edit it without reading it again
+  getReadFilesTracker().add(filePath);
+  return { block: `<file path="${name}">\n${text}\n</file>` };
+}
+
+/**
+ * Turn a prompt into message content: text files mentioned with @path are
+ * inlined after the prompt and images are attached as image parts. The typed
+ * prompt stays the first part, see getPromptText.
+ */
+export function buildPromptContent(input: string): PromptContent {
+  const attachments: Attachment[] = [];
+  const fileBlocks: string[] = [];
+  const images: ImageContentPart[] = [];
+
+  for (const filePath of findMentions(input)) {
+    try {
+      const mimeType = getImageMimeType(filePath);
+      if (mimeType) {
+        const { part, note } = readImage(filePath, mimeType);
+        if (part) {
+          images.push(part);
+        } else {
+          fileBlocks.push(`[Image ${displayPath(filePath)} ${note}]`);
+        }
+        attachments.push({ path: filePath, kind: 'image', note });
+      } else {
+        const { block, note } = readTextFile(filePath);
+        fileBlocks.push(block);
+        attachments.push({ path: filePath, kind: 'file', note });
+      }
+    } catch (error) {
+      logger.warn(`Failed to attach ${filePath}`, error);
+      attachments.push({ path: filePath, kind: 'file', note: `could not be read: ${error instanceof Error ? error.message : error}` });
+    }
+  }
+
+  if (fileBlocks.length === 0 && images.length === 0) {
+    return { content: input, attachments };
+  }
+
+  const parts: ContentPart[] = [{ type: 'text', text: input }];
+  if (fileBlocks.length > 0) {
+    parts.push({ type: 'text', text: fileBlocks.join('\n\n') });
+  }
+  parts.push(...images);
+  return { content: parts, attachments };
+}
+
+/**
+ * The prompt as the user typed it, without attached file contents and images
+ */
+export function getPromptText(content: MessageContent | null | undefined): string {
+  if (!content) {
+    return '';
+  }
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content[0]?.type === 'text' ? content[0].text : '';
+}
+
+function getClipboardCommand(target: string): string | null {
+  switch (process.platform) {
+    case 'darwin':
+      return `osascript -e 'set png to (the clipboard as «class PNGf»)' -e 'set f to open for access POSIX file "${target}" with write permission' -e 'write png to f' -e 'close access f'`;
+    case 'win32':
+      return `powershell -NoProfile -Command "Add-Type -AssemblyName System.Windows.Forms; $img = [System.Windows.Forms.Clipboard]::GetImage(); if ($img) { $img.Save('${target}', [System.Drawing.Imaging.ImageFormat]::Png) }"`;
+    case 'linux':
+      return process.env.WAYLAND_DISPLAY
+        ? `wl-paste --no-newline --type image/png > "${target}"`
+        : `xclip -selection clipboard -t image/png -o > "${target}"`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Save an image from the system clipboard to a temporary PNG file, returning its
+ * path, or null when the clipboard holds no image (or can't be read here)
+ */
+export async function saveClipboardImage(): Promise<string | null> {
+  const directory = path.join(os.tmpdir(), 'groq-cli');
+  const target = path.join(directory, `clipboard-${Date.now()}.png`);
+  const command = getClipboardCommand(target);
+  if (!command) {
+    return null;
+  }
+
+  try {
+    fs.mkdirSync(directory, { recursive: true });
+    await runCommand(command, { cwd: directory, timeoutMs: CLIPBOARD_TIMEOUT_MS });
+    if (fs.existsSync(target) && fs.statSync(target).size > 0) {
+      return target;
+    }
+  } catch (error) {
+    logger.debug('Failed to read an image from the clipboard', error);
+  }
+  fs.rmSync(target, { force: true });
+  return null;
+}
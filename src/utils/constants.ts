@@ -1,5 +1,5 @@
-// Files and directories to ignore
+// Files and directories to ignore, in .gitignore syntax; project ignore files can re-include them with "!"
 export const IGNORE_PATTERNS = new Set([
-  'node_modules', '.git', '__pycache__', 'venv', '.venv', 'build', 'dist',
-  '.idea', '.vscode', '.DS_Store', '*.pyc', '*.log', '*.tmp'
-]);
\ No newline at end of file
+  'node_modules/', '.git/', '__pycache__/', 'venv/', '.venv/', 'build/', 'dist/',
+  '.next/', '.cache/', '.idea/', '.vscode/', '.DS_Store', '*.pyc', '*.log', '*.tmp'
+]);
@@ -1,11 +1,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { IGNORE_PATTERNS } from './constants.js';
+import { IgnoreRules } from './ignore-rules.js';
 
 /**
- * Write content to a file with safety checks
+ * Write content to a file with safety checks.
+ * Prior contents are kept by the agent's checkpoints (see core/checkpoint-manager.ts).
  */
-export async function writeFile(filepath: string, content: string, force: boolean = false, backup: boolean = false): Promise<boolean> {
+export async function writeFile(filepath: string, content: string, force: boolean = false): Promise<boolean> {
   const filePath = path.resolve(filepath);
   
   try {
@@ -77,8 +78,9 @@ export async function displayTree(
     }
     
     const items = await fs.promises.readdir(directoryPath, { withFileTypes: true });
+    const ignoreRules = new IgnoreRules(directoryPath);
     const validItems = items
-      .filter(item => !shouldIgnore(path.join(directoryPath, item.name)))
+      .filter(item => !ignoreRules.isIgnored(path.join(directoryPath, item.name), item.isDirectory()))
       .filter(item => showHidden || !item.name.startsWith('.'))
       .sort((a, b) => {
         // Directories first, then alphabetical
@@ -108,34 +110,8 @@ export async function displayTree(
 
 
 /**
- * Check if a file or directory should be ignored
+ * Check if a file or directory is ignored by the built-in patterns, .gitignore or .groqignore
  */
-export function shouldIgnore(filePath: string): boolean {
-  const pathStr = path.resolve(filePath);
-  const name = path.basename(pathStr);
-  
-  // Check ignore patterns
-  for (const pattern of IGNORE_PATTERNS) {
-    if (pattern.includes('*')) {
-      // Simple glob matching, convert * to regex
-      const regexPattern = pattern.replace(/\*/g, '.*');
-      const regex = new RegExp(regexPattern);
-      if (regex.test(name)) {
-        return true;
-      }
-    } else {
-      if (pathStr.includes(pattern) || name === pattern) {
-        return true;
-      }
-    }
-  }
-  
-  // Ignore hidden files and directories (starting with .)
-  const allowedHiddenFiles = new Set(['.env', '.gitignore', '.dockerfile']);
-  if (name.startsWith('.') && !allowedHiddenFiles.has(name)) {
-    return true;
-  }
-  
-  return false;
+export function shouldIgnore(filePath: string, isDirectory: boolean = false): boolean {
+  return new IgnoreRules(path.dirname(path.resolve(filePath))).isIgnored(filePath, isDirectory);
 }
-
@@ -0,0 +1,262 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { logger } from './logger.js';
+import { runCommand } from '../tools/process-manager.js';
+import { getWorkspaceRoot } from '../tools/workspace.js';
+import { isProjectFileTrusted } from './project-trust.js';
+
+export type HookEvent = 'PreToolUse' | 'PostToolUse' | 'UserPromptSubmit' | 'Stop' | 'SessionStart';
+export type HookScope = 'project' | 'global';
+
+export const HOOK_EVENTS: HookEvent[] = ['PreToolUse', 'PostToolUse', 'UserPromptSubmit', 'Stop', 'SessionStart'];
+
+/**
+ * A shell command run on an event. For tool events, `matcher` is a regular
+ * expression that must match the whole tool name ("edit_file|create_file"), "*" or
+ * no matcher matches every tool.
+ */
+export interface HookDefinition {
+  matcher?: string;
+  command: string;
+  // Seconds before the hook is killed
+  timeout?: number;
+}
+
+export type HookConfig = Partial<Record<HookEvent, HookDefinition[]>>;
+
+interface HooksFile {
+  hooks: HookConfig;
+}
+
+/**
+ * JSON written to the hook's stdin
+ */
+export interface HookInput {
+  tool_name?: string;
+  tool_input?: Record<string, any>;
+  tool_result?: Record<string, any>;
+  prompt?: string;
+  [key: string]: any;
+}
+
+export interface HookOutcome {
+  blocked: boolean;
+  reason?: string;
+  // Replacement arguments from a PreToolUse hook
+  toolInput?: Record<string, any>;
+  // Messages from the hooks for the model
+  feedback: string[];
+}
+
+const HOOKS_FILE = 'hooks.json';
+const DEFAULT_TIMEOUT_SECONDS = 60;
+// Exit code that blocks the action, with stderr as the reason
+const BLOCK_EXIT_CODE = 2;
+// Events where plain stdout is added to the conversation as context
+const CONTEXT_EVENTS: HookEvent[] = ['UserPromptSubmit', 'SessionStart'];
+// Times Stop hooks may send the agent back to work for one prompt
+export const MAX_STOP_HOOK_CONTINUATIONS = 5;
+
+/**
+ * Whether Stop hooks send the agent back to work, given how often they already did for this prompt
+ */
+export function shouldContinueAfterStop(outcome: HookOutcome, continuations: number): boolean {
+  return outcome.blocked && continuations < MAX_STOP_HOOK_CONTINUATIONS;
+}
+
+/**
+ * Loads hooks from ~/.groq/hooks.json and, once the user trusts it,
+ * <project>/.groq/hooks.json, and runs them around agent actions
+ */
+export class HookManager {
+  private static instance: HookManager;
+  private globalPath: string;
+
+  private constructor() {
+    this.globalPath = path.join(os.homedir(), '.groq', HOOKS_FILE);
+  }
+
+  public static getInstance(): HookManager {
+    if (!HookManager.instance) {
+      HookManager.instance = new HookManager();
+    }
+    return HookManager.instance;
+  }
+
+  public getHooksPath(scope: HookScope): string {
+    return scope === 'project' ? path.join(getWorkspaceRoot(), '.groq', HOOKS_FILE) : this.globalPath;
+  }
+
+  /**
+   * Hooks of one scope, read fresh from disk so edits apply immediately. Project
+   * hooks come with the repository and are left out until the user trusts the
+   * file, unless includeUntrusted is set to list them.
+   */
+  public getHooks(scope: HookScope, includeUntrusted: boolean = false): HookConfig {
+    const hooksPath = this.getHooksPath(scope);
+    // Running from the home directory makes both files the same one
+    if ((scope === 'project' && hooksPath === this.globalPath) || !fs.existsSync(hooksPath)) {
+      return {};
+    }
+
+    try {
+      const content = fs.readFileSync(hooksPath, 'utf8');
+      if (scope === 'project' && !includeUntrusted && !isProjectFileTrusted(hooksPath, content)) {
+        return {};
+      }
+      const data: HooksFile = JSON.parse(content);
+      const hooks: HookConfig = {};
+      for (const event of HOOK_EVENTS) {
+        const definitions = data.hooks?.[event];
+        if (Array.isArray(definitions)) {
+          hooks[event] = definitions.filter(hook => hook && typeof hook.command === 'string' && hook.command.trim());
+        }
+      }
+      return hooks;
+    } catch (error) {
+      logger.warn(`Failed to read hooks from ${hooksPath}`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Whether the project has a hooks file that won't run until it is trusted
+   */
+  public hasUntrustedProjectHooks(): boolean {
+    const hooksPath = this.getHooksPath('project');
+    if (hooksPath === this.globalPath || !fs.existsSync(hooksPath)) {
+      return false;
+    }
+    try {
+      return !isProjectFileTrusted(hooksPath, fs.readFileSync(hooksPath, 'utf8'));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Global hooks first, then project hooks
+   */
+  public getMatchingHooks(event: HookEvent, toolName?: string): HookDefinition[] {
+    const hooks = [...(this.getHooks('global')[event] || []), ...(this.getHooks('project')[event] || [])];
+    if (!toolName) {
+      return hooks;
+    }
+    return hooks.filter(hook => {
+      if (!hook.matcher || hook.matcher === '*') {
+        return true;
+      }
+      try {
+        return new RegExp(`^(?:${hook.matcher})$`).test(toolName);
+      } catch {
+        logger.warn(`Ignoring hook with invalid matcher: ${hook.matcher}`);
+        return false;
+      }
+    });
+  }
+
+  public describeHook(hook: HookDefinition): string {
+    const matcher = hook.matcher && hook.matcher !== '*' ? ` \`${hook.matcher}\`` : '';
+    return `${matcher ? `${matcher} → ` : ''}\`${hook.command}\`${hook.timeout ? ` (${hook.timeout}s)` : ''}`;
+  }
+
+  /**
+   * Run the hooks of an event in order. A hook blocks by exiting with code 2 or by
+   * printing {"decision": "block", "reason": "..."}; it can also print
+   * {"feedback": "..."} for the model and, for PreToolUse, {"toolInput": {...}} to
+   * replace the tool arguments. Blocking stops the remaining hooks.
+   */
+  public async run(event: HookEvent, input: HookInput, options: { sessionId?: string | null; signal?: AbortSignal } = {}): Promise<HookOutcome> {
+    const outcome: HookOutcome = { blocked: false, feedback: [] };
+    const hooks = this.getMatchingHooks(event, input.tool_name);
+
+    for (const hook of hooks) {
+      const payload = {
+        hook_event_name: event,
+        session_id: options.sessionId ?? null,
+        cwd: getWorkspaceRoot(),
+        ...input,
+        ...(outcome.toolInput ? { tool_input: outcome.toolInput } : {})
+      };
+      const env: Record<string, string> = { GROQ_HOOK_EVENT: event, GROQ_PROJECT_DIR: getWorkspaceRoot() };
+      if (input.tool_name) {
+        env.GROQ_TOOL_NAME = input.tool_name;
+      }
+      if (typeof payload.tool_input?.file_path === 'string') {
+        env.GROQ_FILE_PATH = payload.tool_input.file_path;
+      }
+
+      let result;
+      try {
+        result = await runCommand(hook.command, {
+          cwd: getWorkspaceRoot(),
+          timeoutMs: (hook.timeout || DEFAULT_TIMEOUT_SECONDS) * 1000,
+          input: JSON.stringify(payload),
+          env,
+          signal: options.signal
+        });
+      } catch (error) {
+        logger.warn(`${event} hook failed to start: ${hook.command}`, error);
+        continue;
+      }
+
+      if (result.interrupted) {
+        break;
+      }
+      if (result.timedOut) {
+        logger.warn(`${event} hook timed out: ${hook.command}`);
+        continue;
+      }
+      if (result.exitCode === BLOCK_EXIT_CODE) {
+        outcome.blocked = true;
+        outcome.reason = result.stderr.trim() || result.stdout.trim() || `Blocked by ${event} hook: ${hook.command}`;
+        break;
+      }
+      if (result.exitCode !== 0) {
+        logger.warn(`${event} hook exited with code ${result.exitCode}: ${hook.command}`, result.stderr.trim());
+        continue;
+      }
+
+      this.applyOutput(event, result.stdout.trim(), outcome);
+      if (outcome.blocked) {
+        break;
+      }
+    }
+
+    return outcome;
+  }
+
+  private applyOutput(event: HookEvent, stdout: string, outcome: HookOutcome): void {
+    if (!stdout) {
+      return;
+    }
+
+    let output: any = null;
+    if (stdout.startsWith('{')) {
+      try {
+        output = JSON.parse(stdout);
+      } catch {
+        // Not JSON after all, treated as text below
+      }
+    }
+
+    if (!output) {
+      if (CONTEXT_EVENTS.includes(event)) {
+        outcome.feedback.push(stdout);
+      }
+      return;
+    }
+
+    if (output.decision === 'block') {
+      outcome.blocked = true;
+      outcome.reason = typeof output.reason === 'string' && output.reason ? output.reason : `Blocked by ${event} hook`;
+    }
+    if (event === 'PreToolUse' && output.toolInput && typeof output.toolInput === 'object' && !Array.isArray(output.toolInput)) {
+      outcome.toolInput = output.toolInput;
+    }
+    if (typeof output.feedback === 'string' && output.feedback.trim()) {
+      outcome.feedback.push(output.feedback.trim());
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IGNORE_PATTERNS } from './constants.js';
+import { getWorkspaceRoot, leavesDirectory } from '../tools/workspace.js';
+
+// Read in every directory; .groqignore comes last so it can override .gitignore
+export const IGNORE_FILES = ['.gitignore', '.groqignore'];
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+  // Directory of the file the rule came from, relative to the root, '' for the root
+  base: string;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Turn a gitignore glob into a regex for paths relative to the ignore file's
+ * directory. Patterns with a slash (other than a trailing one) are anchored to
+ * that directory, the others match a name at any depth below it.
+ */
+function compilePattern(pattern: string): RegExp {
+  const anchored = pattern.includes('/');
+  const glob = pattern.startsWith('/') ? pattern.substring(1) : pattern;
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*' && (i === 0 || glob[i - 1] === '/')) {
+      if (glob[i + 2] === '/') {
+        // "**/" matches zero or more directories
+        source += '(?:.*/)?';
+        i += 2;
+        continue;
+      }
+      if (i + 2 === glob.length) {
+        // A trailing "/**" matches everything inside
+        source += '.*';
+        break;
+      }
+    }
+
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegex(glob[++i]);
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      const range = glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${range}]`;
+      i = end;
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`);
+}
+
+/**
+ * Rules of one ignore file, in file order
+ */
+export function parseIgnorePatterns(lines: Iterable<string>, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of lines) {
+    // Trailing spaces don't count unless escaped
+    let line = rawLine.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const negate = line.startsWith('!');
+    if (negate || line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.substring(1);
+    }
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.replace(/\/+$/, '');
+    }
+    if (!line) {
+      continue;
+    }
+    rules.push({ regex: compilePattern(line), negate, directoryOnly, base });
+  }
+  return rules;
+}
+
+/**
+ * Directory whose ignore files apply to a path: the enclosing git repository,
+ * or the workspace, or the directory itself
+ */
+function findRoot(directory: string): string {
+  for (let current = directory; ; current = path.dirname(current)) {
+    if (fs.existsSync(path.join(current, '.git'))) {
+      return current;
+    }
+    if (path.dirname(current) === current) {
+      break;
+    }
+  }
+  const workspaceRoot = getWorkspaceRoot();
+  const relative = path.relative(workspaceRoot, directory);
+  return leavesDirectory(relative) ? directory : workspaceRoot;
+}
+
+function readLines(filePath: string): string[] {
+  try {
+    return fs.readFileSync(filePath, 'utf8').split('\n');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Decides which files are ignored the way git does: the built-in patterns, then
+ * .git/info/exclude, then .gitignore and .groqignore in every directory from the
+ * root down, the last matching rule winning. A file inside an ignored directory
+ * stays ignored even if a rule re-includes it. Ignore files are read once per
+ * instance, so create one per listing or search.
+ */
+export class IgnoreRules {
+  private root: string;
+  // Rules that apply inside each directory, relative to the root
+  private directoryRules = new Map<string, IgnoreRule[]>();
+  private ignoredDirectories = new Map<string, boolean>();
+
+  constructor(directory: string = getWorkspaceRoot()) {
+    this.root = findRoot(path.resolve(directory));
+  }
+
+  /**
+   * Whether a file or directory is ignored, also when one of its parents is
+   */
+  isIgnored(filePath: string, isDirectory: boolean): boolean {
+    const relative = this.toRelative(filePath);
+    if (relative === null) {
+      return false;
+    }
+
+    const segments = relative.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      if (this.isDirectoryIgnored(segments.slice(0, i).join('/'))) {
+        return true;
+      }
+    }
+    return isDirectory ? this.isDirectoryIgnored(relative) : this.matches(relative, false);
+  }
+
+  private toRelative(filePath: string): string | null {
+    const relative = path.relative(this.root, path.resolve(filePath));
+    if (!relative || leavesDirectory(relative)) {
+      return null;
+    }
+    return relative.split(path.sep).join('/');
+  }
+
+  private isDirectoryIgnored(relative: string): boolean {
+    if (!this.ignoredDirectories.has(relative)) {
+      this.ignoredDirectories.set(relative, this.matches(relative, true));
+    }
+    return this.ignoredDirectories.get(relative)!;
+  }
+
+  private matches(relative: string, isDirectory: boolean): boolean {
+    const rules = this.getRules(path.posix.dirname(relative) === '.' ? '' : path.posix.dirname(relative));
+    for (let i = rules.length - 1; i >= 0; i--) {
+      const rule = rules[i];
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      const subject = rule.base ? relative.substring(rule.base.length + 1) : relative;
+      if (rule.regex.test(subject)) {
+        return !rule.negate;
+      }
+    }
+    return false;
+  }
+
+  private getRules(directory: string): IgnoreRule[] {
+    const cached = this.directoryRules.get(directory);
+    if (cached) {
+      return cached;
+    }
+
+    let rules: IgnoreRule[];
+    if (directory === '') {
+      rules = [
+        ...parseIgnorePatterns(IGNORE_PATTERNS),
+        ...parseIgnorePatterns(readLines(path.join(this.root, '.git', 'info', 'exclude')))
+      ];
+    } else {
+      const parent = path.posix.dirname(directory);
+      rules = [...this.getRules(parent === '.' ? '' : parent)];
+    }
+    for (const file of IGNORE_FILES) {
+      rules.push(...parseIgnorePatterns(readLines(path.join(this.root, directory, file)), directory));
+    }
+
+    this.directoryRules.set(directory, rules);
+    return rules;
+  }
+}
@@ -2,6 +2,12 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { logger } from './logger.js';
+import type { OpenAICompatibleEndpoint } from '../providers/openai-compatible.js';
+import type { McpServerConfig } from '../tools/mcp-client.js';
+import type { RetrySettings, FailoverSettings } from '../core/retry-policy.js';
+import type { ModelRoutes } from '../core/model-router.js';
+import type { ModelPrice } from './pricing.js';
+import type { BudgetSettings } from './usage-ledger.js';
 
 interface Config {
   groqApiKey?: string;
@@ -19,6 +25,23 @@ interface Config {
   // Provider-specific settings
   ollamaBaseUrl?: string;
   lmstudioBaseUrl?: string;
+  // Named OpenAI-compatible endpoints, selectable with /switch <name>
+  openaiEndpoints?: OpenAICompatibleEndpoint[];
+  // Directories outside the workspace that file tools may access
+  allowedDirectories?: string[];
+  // MCP servers whose tools are offered to the model, by name
+  mcpServers?: Record<string, McpServerConfig>;
+  // Retrying failed model requests and switching providers when one is down
+  retry?: RetrySettings;
+  failover?: FailoverSettings;
+  // Provider and model per kind of request (planning, edits, summaries, titles)
+  routing?: ModelRoutes;
+  // Prices per model in USD per million tokens, on top of the built-in Groq prices
+  pricing?: Record<string, ModelPrice>;
+  // Daily and per-session spending limits
+  budgets?: BudgetSettings;
+  // Project files the user trusted to run commands, by path, with a hash of the trusted content
+  trustedProjectFiles?: Record<string, string>;
   // Session persistence
   lastSession?: {
     provider: string;
@@ -283,6 +306,111 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Get all configured OpenAI-compatible endpoints
+   */
+  public getOpenAIEndpoints(): OpenAICompatibleEndpoint[] {
+    const endpoints = this.getConfig().openaiEndpoints;
+    if (!Array.isArray(endpoints)) {
+      return [];
+    }
+    return endpoints.filter(endpoint => endpoint && typeof endpoint.name === 'string' && typeof endpoint.baseUrl === 'string');
+  }
+
+  /**
+   * Add or replace an OpenAI-compatible endpoint by name
+   */
+  public setOpenAIEndpoint(endpoint: OpenAICompatibleEndpoint): void {
+    const endpoints = this.getOpenAIEndpoints().filter(existing => existing.name !== endpoint.name);
+    this.updateConfig({ openaiEndpoints: [...endpoints, endpoint] });
+  }
+
+  /**
+   * Remove an OpenAI-compatible endpoint by name
+   */
+  public removeOpenAIEndpoint(name: string): boolean {
+    const endpoints = this.getOpenAIEndpoints();
+    const remaining = endpoints.filter(endpoint => endpoint.name !== name);
+    if (remaining.length === endpoints.length) {
+      return false;
+    }
+    this.updateConfig({ openaiEndpoints: remaining });
+    return true;
+  }
+
+  /**
+   * Extra directories file tools may access besides the workspace
+   */
+  public getAllowedDirectories(): string[] {
+    const directories = this.getConfig().allowedDirectories;
+    if (!Array.isArray(directories)) {
+      return [];
+    }
+    return directories
+      .filter(dir => typeof dir === 'string' && dir.trim())
+      .map(dir => dir.startsWith('~') ? path.join(os.homedir(), dir.slice(1)) : dir);
+  }
+
+  /**
+   * MCP servers configured for every project
+   */
+  public getMcpServers(): Record<string, McpServerConfig> {
+    const servers = this.getConfig().mcpServers;
+    return servers && typeof servers === 'object' && !Array.isArray(servers) ? servers : {};
+  }
+
+  /**
+   * Retry settings for failed model requests
+   */
+  public getRetrySettings(): RetrySettings {
+    const retry = this.getConfig().retry;
+    return retry && typeof retry === 'object' ? retry : {};
+  }
+
+  /**
+   * Failover is off unless the config enables it
+   */
+  public getFailoverSettings(): FailoverSettings {
+    const failover = this.getConfig().failover;
+    return failover && typeof failover === 'object' ? failover : {};
+  }
+
+  /**
+   * Model routing rules, validated by the model router
+   */
+  public getRouting(): ModelRoutes {
+    const routing = this.getConfig().routing;
+    return routing && typeof routing === 'object' ? routing : {};
+  }
+
+  /**
+   * Configured model prices, checked by the pricing table before its own
+   */
+  public getPricing(): Record<string, ModelPrice> {
+    const pricing = this.getConfig().pricing;
+    return pricing && typeof pricing === 'object' ? pricing : {};
+  }
+
+  /**
+   * Spending limits; none are set by default
+   */
+  public getBudgets(): BudgetSettings {
+    const budgets = this.getConfig().budgets;
+    return budgets && typeof budgets === 'object' ? budgets : {};
+  }
+
+  /**
+   * Hashes of the project files the user trusted, by absolute path
+   */
+  public getTrustedProjectFiles(): Record<string, string> {
+    const files = this.getConfig().trustedProjectFiles;
+    return files && typeof files === 'object' && !Array.isArray(files) ? files : {};
+  }
+
+  public setTrustedProjectFile(filePath: string, hash: string): void {
+    this.updateConfig({ trustedProjectFiles: { ...this.getTrustedProjectFiles(), [filePath]: hash } });
+  }
+
   /**
    * Save the current session state
    */
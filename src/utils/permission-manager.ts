@@ -0,0 +1,278 @@
+import { logger } from './logger.js';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { isMcpTool } from '../tools/mcp-manager.js';
+import { getWorkspaceRoot, leavesDirectory } from '../tools/workspace.js';
+import { isProjectFileTrusted, trustProjectFile } from './project-trust.js';
+
+export type PermissionAction = 'allow' | 'deny' | 'ask';
+export type PermissionScope = 'project' | 'global';
+
+/**
+ * A rule for one tool (or "*" for all tools). The pattern is matched against the
+ * command for execute_command and start_background_command and against the
+ * project-relative path for file tools.
+ * A leading "!" inverts the pattern, e.g. "!src/**" matches paths outside src/.
+ */
+export interface PermissionRule {
+  tool: string;
+  pattern?: string;
+  action: PermissionAction;
+}
+
+export interface PermissionDecision {
+  action: PermissionAction;
+  rule: PermissionRule;
+  scope: PermissionScope;
+}
+
+interface PermissionsFile {
+  rules: PermissionRule[];
+}
+
+const PERMISSIONS_FILE = 'permissions.json';
+const ACTIONS: PermissionAction[] = ['allow', 'deny', 'ask'];
+// deny beats ask, ask beats allow, regardless of where the rules are defined
+const ACTION_PRIORITY: Record<PermissionAction, number> = { deny: 3, ask: 2, allow: 1 };
+// Chained or redirected commands could smuggle anything past an allow pattern like "npm test*"
+const SHELL_OPERATORS = /[;&|`<>\n]|\$\(/;
+
+/**
+ * Loads tool permission rules from <project>/.groq/permissions.json and
+ * ~/.groq/permissions.json and decides whether a tool call is allowed, denied or needs asking.
+ * The project file comes with the repository, so its allow rules only apply once the
+ * user trusts it; its deny and ask rules can only add prompts and always apply.
+ */
+export class PermissionManager {
+  private static instance: PermissionManager;
+  private globalPath: string;
+
+  private constructor() {
+    this.globalPath = path.join(os.homedir(), '.groq', PERMISSIONS_FILE);
+  }
+
+  // The workspace can be set after the manager is created, so it's looked up each time
+  private get projectPath(): string {
+    return path.join(getWorkspaceRoot(), '.groq', PERMISSIONS_FILE);
+  }
+
+  public static getInstance(): PermissionManager {
+    if (!PermissionManager.instance) {
+      PermissionManager.instance = new PermissionManager();
+    }
+    return PermissionManager.instance;
+  }
+
+  public getRulesPath(scope: PermissionScope): string {
+    return scope === 'project' ? this.projectPath : this.globalPath;
+  }
+
+  /**
+   * Rules of one scope, read fresh from disk so edits apply immediately. Allow rules
+   * of an untrusted project file are left out unless includeUntrusted is set.
+   */
+  public getRules(scope: PermissionScope, includeUntrusted: boolean = false): PermissionRule[] {
+    // Running from the home directory makes both files the same one
+    if (scope === 'project' && this.projectPath === this.globalPath) {
+      return [];
+    }
+
+    const rulesPath = this.getRulesPath(scope);
+    if (!fs.existsSync(rulesPath)) {
+      return [];
+    }
+
+    try {
+      const content = fs.readFileSync(rulesPath, 'utf8');
+      const data: PermissionsFile = JSON.parse(content);
+      if (!Array.isArray(data.rules)) {
+        return [];
+      }
+      const rules = data.rules.filter(rule => rule && typeof rule.tool === 'string' && ACTIONS.includes(rule.action));
+      if (scope === 'project' && !includeUntrusted && !isProjectFileTrusted(rulesPath, content)) {
+        return rules.filter(rule => rule.action !== 'allow');
+      }
+      return rules;
+    } catch (error) {
+      logger.warn(`Failed to read permission rules from ${rulesPath}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Whether the project has a rules file whose allow rules don't apply until it is trusted
+   */
+  public hasUntrustedProjectRules(): boolean {
+    const rulesPath = this.projectPath;
+    if (rulesPath === this.globalPath || !fs.existsSync(rulesPath)) {
+      return false;
+    }
+    try {
+      return !isProjectFileTrusted(rulesPath, fs.readFileSync(rulesPath, 'utf8'));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Add a rule unless an identical one already exists. A project file the user
+   * trusted, or one this creates, stays trusted after the change.
+   */
+  public addRule(rule: PermissionRule, scope: PermissionScope = 'project'): void {
+    const rules = this.getRules(scope, true);
+    if (rules.some(existing => existing.tool === rule.tool && existing.pattern === rule.pattern && existing.action === rule.action)) {
+      return;
+    }
+
+    const rulesPath = this.getRulesPath(scope);
+    const keepTrusted = scope === 'project' && !this.hasUntrustedProjectRules();
+    fs.mkdirSync(path.dirname(rulesPath), { recursive: true });
+    fs.writeFileSync(rulesPath, JSON.stringify({ rules: [...rules, rule] }, null, 2));
+    if (keepTrusted) {
+      trustProjectFile(rulesPath);
+    }
+    logger.debug(`Added ${scope} permission rule:`, rule);
+  }
+
+  /**
+   * Strictest matching rule across project and global rules, or null when no rule applies
+   */
+  public evaluate(toolName: string, toolArgs: Record<string, any>): PermissionDecision | null {
+    let decision: PermissionDecision | null = null;
+
+    for (const scope of ['project', 'global'] as PermissionScope[]) {
+      for (const rule of this.getRules(scope)) {
+        if (!this.matchesRule(rule, toolName, toolArgs)) {
+          continue;
+        }
+        if (!decision || ACTION_PRIORITY[rule.action] > ACTION_PRIORITY[decision.action]) {
+          decision = { action: rule.action, rule, scope };
+        }
+      }
+    }
+
+    return decision;
+  }
+
+  /**
+   * Allow rule covering similar calls, offered as "always allow" when asking for approval
+   */
+  public suggestRule(toolName: string, toolArgs: Record<string, any>): PermissionRule | null {
+    const subject = this.getSubject(toolName, toolArgs);
+    if (!subject) {
+      // MCP tools have no path or command to narrow the rule down to
+      return isMcpTool(toolName) ? { tool: toolName, action: 'allow' } : null;
+    }
+
+    if (subject.kind === 'command') {
+      if (SHELL_OPERATORS.test(subject.value)) {
+        return null;
+      }
+      const tokens = subject.value.split(' ');
+      if (tokens.length === 1) {
+        return { tool: toolName, pattern: tokens[0], action: 'allow' };
+      }
+      // Keep subcommands like "npm test" or "git status", but not flags or arguments
+      const prefix = tokens[1].startsWith('-') ? tokens[0] : `${tokens[0]} ${tokens[1]}`;
+      return { tool: toolName, pattern: `${prefix}*`, action: 'allow' };
+    }
+
+    // Subjects use / as separator, normalize gives back the platform's
+    if (leavesDirectory(path.normalize(subject.value))) {
+      return null; // Don't grant standing access outside the project
+    }
+    const directory = path.posix.dirname(subject.value);
+    const pattern = directory === '.' ? subject.value : `${directory}/**`;
+    return { tool: toolName, pattern, action: 'allow' };
+  }
+
+  public describeRule(rule: PermissionRule): string {
+    return rule.pattern ? `${rule.action} ${rule.tool}(${rule.pattern})` : `${rule.action} ${rule.tool}`;
+  }
+
+  private matchesRule(rule: PermissionRule, toolName: string, toolArgs: Record<string, any>): boolean {
+    if (!this.globToRegExp(rule.tool, 'command').test(toolName)) {
+      return false;
+    }
+
+    const subject = this.getSubject(toolName, toolArgs);
+    // Checked first, so allow rules without a pattern don't let chained commands through either
+    if (subject?.kind === 'command' && rule.action === 'allow' && SHELL_OPERATORS.test(subject.value)) {
+      return false;
+    }
+    if (!rule.pattern) {
+      return true;
+    }
+    if (!subject) {
+      return false;
+    }
+
+    const negated = rule.pattern.startsWith('!');
+    const pattern = negated ? rule.pattern.slice(1) : rule.pattern;
+    const matches = subject.kind === 'command'
+      ? this.globToRegExp(pattern, 'command').test(subject.value)
+      : this.matchesPath(pattern, subject.value);
+    return negated ? !matches : matches;
+  }
+
+  /**
+   * Patterns without a slash match the file name anywhere, like .gitignore
+   */
+  private matchesPath(pattern: string, relativePath: string): boolean {
+    let normalized = pattern.replace(/^\.\//, '').replace(/^\//, '');
+    if (normalized.endsWith('/')) {
+      normalized += '**';
+    }
+    if (!normalized.includes('/')) {
+      return this.globToRegExp(normalized, 'path').test(path.posix.basename(relativePath));
+    }
+    return this.globToRegExp(normalized, 'path').test(relativePath);
+  }
+
+  /**
+   * What a rule pattern is matched against for each tool
+   */
+  private getSubject(toolName: string, toolArgs: Record<string, any>): { kind: 'command' | 'path'; value: string } | null {
+    if (toolName === 'execute_command' || toolName === 'start_background_command') {
+      return typeof toolArgs?.command === 'string'
+        ? { kind: 'command', value: toolArgs.command.trim().replace(/[ \t]+/g, ' ') }
+        : null;
+    }
+
+    const target = toolArgs?.file_path ?? toolArgs?.directory ?? (toolName === 'list_files' || toolName === 'search_files' ? '.' : undefined);
+    if (typeof target !== 'string') {
+      return null;
+    }
+    const relativePath = path.relative(getWorkspaceRoot(), path.resolve(target)).split(path.sep).join('/');
+    return { kind: 'path', value: relativePath || '.' };
+  }
+
+  /**
+   * In commands "*" matches anything; in paths "*" stays within a directory and "**" crosses them
+   */
+  private globToRegExp(glob: string, kind: 'command' | 'path'): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '*') {
+        if (glob[i + 1] === '*') {
+          i++;
+          if (kind === 'path' && glob[i + 1] === '/') {
+            i++;
+            source += '(?:.*/)?';
+          } else {
+            source += '.*';
+          }
+        } else {
+          source += kind === 'path' ? '[^/]*' : '.*';
+        }
+      } else if (char === '?') {
+        source += kind === 'path' ? '[^/]' : '.';
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}$`);
+  }
+}
@@ -0,0 +1,61 @@
+import { ConfigManager } from './local-settings.js';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Groq on-demand prices, see https://groq.com/pricing
+const GROQ_PRICES: Record<string, ModelPrice> = {
+  'moonshotai/kimi-k2-instruct': { input: 1.0, output: 3.0 },
+  'moonshotai/kimi-k2-instruct-0905': { input: 1.0, output: 3.0 },
+  'openai/gpt-oss-120b': { input: 0.15, output: 0.75 },
+  'openai/gpt-oss-20b': { input: 0.1, output: 0.5 },
+  'qwen/qwen3-32b': { input: 0.29, output: 0.59 },
+  'meta-llama/llama-4-maverick-17b-128e-instruct': { input: 0.2, output: 0.6 },
+  'meta-llama/llama-4-scout-17b-16e-instruct': { input: 0.11, output: 0.34 },
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'deepseek-r1-distill-llama-70b': { input: 0.75, output: 0.99 },
+  'gemma2-9b-it': { input: 0.2, output: 0.2 }
+};
+
+// Models running on this machine cost nothing per token
+const LOCAL_PROVIDERS = ['ollama', 'lmstudio'];
+
+function isValidPrice(price: any): price is ModelPrice {
+  return price && typeof price.input === 'number' && typeof price.output === 'number';
+}
+
+/**
+ * Price of a model, from "pricing" in ~/.groq/config.json or the built-in Groq
+ * table, or null when it's unknown
+ */
+export function getModelPrice(provider: string, model: string, configManager: ConfigManager = new ConfigManager()): ModelPrice | null {
+  const configured = configManager.getPricing()[model];
+  if (isValidPrice(configured)) {
+    return configured;
+  }
+  if (LOCAL_PROVIDERS.includes(provider)) {
+    return { input: 0, output: 0 };
+  }
+  return provider === 'groq' ? GROQ_PRICES[model] || null : null;
+}
+
+/**
+ * Estimated cost in USD of a request, or null when the model has no price
+ */
+export function estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number, configManager?: ConfigManager): number | null {
+  const price = getModelPrice(provider, model, configManager);
+  if (!price) {
+    return null;
+  }
+  return (promptTokens * price.input + completionTokens * price.output) / 1000000;
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { logger } from './logger.js';
+import { getWorkspaceRoot } from '../tools/workspace.js';
+
+export const MEMORY_FILE = 'GROQ.md';
+// Keeps one oversized file from filling the context window
+const MAX_MEMORY_FILE_CHARS = 20000;
+
+export type MemoryScope = 'project' | 'user';
+
+export interface MemoryFile {
+  path: string;
+  scope: MemoryScope;
+  content: string;
+  truncated: boolean;
+}
+
+/**
+ * ~/.groq/GROQ.md, instructions that apply to every project
+ */
+export function getUserMemoryPath(): string {
+  return path.join(os.homedir(), '.groq', MEMORY_FILE);
+}
+
+/**
+ * GROQ.md at the workspace root, where /memory add and /init write
+ */
+export function getProjectMemoryPath(): string {
+  return path.join(getWorkspaceRoot(), MEMORY_FILE);
+}
+
+function readMemoryFile(filePath: string, scope: MemoryScope): MemoryFile | null {
+  try {
+    if (!fs.statSync(filePath, { throwIfNoEntry: false })?.isFile()) {
+      return null;
+    }
+    const content = fs.readFileSync(filePath, 'utf8').trim();
+    if (!content) {
+      return null;
+    }
+    const truncated = content.length > MAX_MEMORY_FILE_CHARS;
+    return { path: filePath, scope, content: truncated ? content.substring(0, MAX_MEMORY_FILE_CHARS) : content, truncated };
+  } catch (error) {
+    logger.warn(`Failed to read memory file ${filePath}`, error);
+    return null;
+  }
+}
+
+/**
+ * Memory files in the order they apply: the user file, then GROQ.md from the
+ * outermost parent directory down to the workspace root, so closer files come last
+ */
+export function loadMemoryFiles(): MemoryFile[] {
+  const files: MemoryFile[] = [];
+  const userFile = readMemoryFile(getUserMemoryPath(), 'user');
+  if (userFile) {
+    files.push(userFile);
+  }
+
+  const projectFiles: MemoryFile[] = [];
+  let directory = getWorkspaceRoot();
+  while (true) {
+    const filePath = path.join(directory, MEMORY_FILE);
+    // The user file lives in ~/.groq, but don't load it twice if groq runs from there
+    const file = filePath !== getUserMemoryPath() ? readMemoryFile(filePath, 'project') : null;
+    if (file) {
+      projectFiles.unshift(file);
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      break;
+    }
+    directory = parent;
+  }
+
+  return [...files, ...projectFiles];
+}
+
+/**
+ * Section appended to the system message, empty when there are no memory files
+ */
+export function buildMemoryPrompt(files: MemoryFile[] = loadMemoryFiles()): string {
+  if (files.length === 0) {
+    return '';
+  }
+
+  const sections = files.map(file => {
+    const location = file.scope === 'user' ? `user memory (${file.path})` : `project memory (${file.path})`;
+    return `## ${location}\n${file.content}${file.truncated ? '\n[truncated]' : ''}`;
+  });
+
+  return `PROJECT MEMORY:
+The user keeps instructions for you in ${MEMORY_FILE} files. Follow them; when they conflict, files listed later (closer to the project) take precedence.
+
+${sections.join('\n\n')}`;
+}
+
+/**
+ * Append a note as a list item, creating the file if needed
+ */
+export function appendMemoryNote(scope: MemoryScope, note: string): string {
+  const filePath = scope === 'user' ? getUserMemoryPath() : getProjectMemoryPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : `# ${scope === 'user' ? 'User' : 'Project'} memory\n`;
+  const separator = existing.endsWith('\n') ? '' : '\n';
+  fs.writeFileSync(filePath, `${existing}${separator}- ${note.trim()}\n`);
+  return filePath;
+}
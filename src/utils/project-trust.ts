@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ConfigManager } from './local-settings.js';
+
+/**
+ * Project files that make the CLI run commands, like .groq/mcp.json and
+ * .groq/hooks.json, come with the repository, so they only take effect once the
+ * user trusts them. Trust covers the content it was given for: after the file
+ * changes, e.g. with a pull, it has to be trusted again.
+ */
+
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Whether the user trusted this content of the file
+ */
+export function isProjectFileTrusted(filePath: string, content: string): boolean {
+  return new ConfigManager().getTrustedProjectFiles()[path.resolve(filePath)] === hashContent(content);
+}
+
+/**
+ * Trust the file as it is now
+ */
+export function trustProjectFile(filePath: string): void {
+  const content = fs.readFileSync(filePath, 'utf8');
+  new ConfigManager().setTrustedProjectFile(path.resolve(filePath), hashContent(content));
+}
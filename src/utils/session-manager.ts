@@ -0,0 +1,190 @@
+import { logger } from './logger.js';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import type { MessageContent } from '../providers/index.js';
+import { getPromptText } from './attachments.js';
+
+export interface SessionMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: MessageContent;
+  tool_calls?: any[];
+  tool_call_id?: string;
+}
+
+export interface SessionRecord {
+  id: string;
+  title: string;
+  provider: string;
+  model: string;
+  agent: string;
+  cwd: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: SessionMessage[];
+}
+
+export type SessionSummary = Omit<SessionRecord, 'messages'> & { messageCount: number };
+
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Stores conversations under ~/.groq/sessions, one JSON file per session
+ */
+export class SessionManager {
+  private static instance: SessionManager;
+  private sessionsDir: string;
+
+  private constructor() {
+    this.sessionsDir = path.join(os.homedir(), '.groq', 'sessions');
+    this.ensureSessionsDirectory();
+  }
+
+  public static getInstance(): SessionManager {
+    if (!SessionManager.instance) {
+      SessionManager.instance = new SessionManager();
+    }
+    return SessionManager.instance;
+  }
+
+  private ensureSessionsDirectory(): void {
+    if (!fs.existsSync(this.sessionsDir)) {
+      fs.mkdirSync(this.sessionsDir, { recursive: true });
+      logger.debug('Created sessions directory:', this.sessionsDir);
+    }
+  }
+
+  private getSessionPath(id: string): string {
+    return path.join(this.sessionsDir, `${id}.json`);
+  }
+
+  /**
+   * Generate a sortable, short session id
+   */
+  public createId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`;
+  }
+
+  /**
+   * Derive a title from the first user message
+   */
+  public deriveTitle(messages: SessionMessage[]): string {
+    const firstPrompt = messages.map(msg => msg.role === 'user' ? getPromptText(msg.content).trim() : '').find(Boolean);
+    if (!firstPrompt) {
+      return 'Untitled session';
+    }
+    const singleLine = firstPrompt.replace(/\s+/g, ' ');
+    return singleLine.length > TITLE_MAX_LENGTH ? `${singleLine.substring(0, TITLE_MAX_LENGTH - 1)}…` : singleLine;
+  }
+
+  /**
+   * Write a session to disk, refreshing its update time
+   */
+  public saveSession(session: SessionRecord): SessionRecord {
+    this.ensureSessionsDirectory();
+    const saved: SessionRecord = { ...session, updatedAt: new Date().toISOString() };
+    fs.writeFileSync(this.getSessionPath(session.id), JSON.stringify(saved, null, 2), { mode: 0o600 });
+    logger.debug(`Saved session ${session.id} with ${session.messages.length} messages`);
+    return saved;
+  }
+
+  public loadSession(id: string): SessionRecord | null {
+    const sessionPath = this.getSessionPath(id);
+    if (!fs.existsSync(sessionPath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(sessionPath, 'utf8'));
+    } catch (error) {
+      logger.error(`Error loading session ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List sessions, most recently updated first
+   */
+  public listSessions(): SessionSummary[] {
+    if (!fs.existsSync(this.sessionsDir)) {
+      return [];
+    }
+
+    const sessions: SessionSummary[] = [];
+    for (const file of fs.readdirSync(this.sessionsDir)) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      const session = this.loadSession(file.slice(0, -'.json'.length));
+      if (session) {
+        const { messages, ...summary } = session;
+        sessions.push({ ...summary, messageCount: messages?.length || 0 });
+      }
+    }
+
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Resolve a full id, unique id prefix or 1-based index from listSessions()
+   */
+  public resolveId(idOrPrefix: string): string | null {
+    const sessions = this.listSessions();
+
+    if (/^\d+$/.test(idOrPrefix)) {
+      const index = parseInt(idOrPrefix, 10) - 1;
+      if (index >= 0 && index < sessions.length) {
+        return sessions[index].id;
+      }
+    }
+
+    const exact = sessions.find(session => session.id === idOrPrefix);
+    if (exact) {
+      return exact.id;
+    }
+
+    const matches = sessions.filter(session => session.id.startsWith(idOrPrefix));
+    return matches.length === 1 ? matches[0].id : null;
+  }
+
+  public getLatestSession(): SessionRecord | null {
+    const [latest] = this.listSessions();
+    return latest ? this.loadSession(latest.id) : null;
+  }
+
+  public renameSession(id: string, title: string): boolean {
+    const session = this.loadSession(id);
+    if (!session) {
+      return false;
+    }
+    this.saveSession({ ...session, title });
+    return true;
+  }
+
+  public deleteSession(id: string): boolean {
+    const sessionPath = this.getSessionPath(id);
+    if (!fs.existsSync(sessionPath)) {
+      return false;
+    }
+    fs.unlinkSync(sessionPath);
+    logger.info(`Deleted session: ${id}`);
+    return true;
+  }
+
+  /**
+   * Copy a session under a new id so both can continue independently
+   */
+  public forkSession(id: string): SessionRecord | null {
+    const session = this.loadSession(id);
+    if (!session) {
+      return null;
+    }
+    const now = new Date().toISOString();
+    return this.saveSession({
+      ...session,
+      id: this.createId(),
+      title: `${session.title} (fork)`,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+}
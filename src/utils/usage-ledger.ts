@@ -0,0 +1,241 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from './local-settings.js';
+import { estimateCost, formatCost } from './pricing.js';
+import { logger } from './logger.js';
+
+/**
+ * One model request, as stored in the ledger
+ */
+export interface UsageRecord {
+  timestamp: string;
+  provider: string;
+  model: string;
+  session: string | null;
+  agent: string;
+  // What the request was for: plan, edit, summarize or title
+  task?: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Estimated USD, null when the model has no price
+  cost: number | null;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  // Requests whose model has no price, left out of the cost
+  unpriced: number;
+}
+
+export type UsageGrouping = 'day' | 'provider' | 'model' | 'session' | 'agent';
+
+export const USAGE_GROUPINGS: UsageGrouping[] = ['day', 'provider', 'model', 'session', 'agent'];
+
+/**
+ * Spending limits from "budgets" in ~/.groq/config.json, in USD or tokens
+ */
+export interface BudgetSettings {
+  daily?: number;
+  session?: number;
+  dailyTokens?: number;
+  sessionTokens?: number;
+  // warn (the default) reports an exceeded budget once, stop also ends the agent loop
+  action?: 'warn' | 'stop';
+}
+
+export interface BudgetStatus {
+  scope: 'daily' | 'session';
+  unit: 'cost' | 'tokens';
+  limit: number;
+  used: number;
+}
+
+/**
+ * Local date of a timestamp as YYYY-MM-DD, the ledger's day
+ */
+export function getDayKey(date: Date = new Date()): string {
+  return date.toLocaleDateString('en-CA');
+}
+
+export function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  if (record.cost === null) {
+    totals.unpriced++;
+  } else {
+    totals.cost += record.cost;
+  }
+}
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of records) {
+    addRecord(totals, record);
+  }
+  return totals;
+}
+
+/**
+ * Totals per day, provider, model, session or agent, most expensive first
+ */
+export function groupUsage(records: UsageRecord[], by: UsageGrouping): Array<{ key: string; totals: UsageTotals }> {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = by === 'day' ? getDayKey(new Date(record.timestamp)) : (record[by] || 'none');
+    if (!groups.has(key)) {
+      groups.set(key, emptyTotals());
+    }
+    addRecord(groups.get(key)!, record);
+  }
+
+  const entries = [...groups.entries()].map(([key, totals]) => ({ key, totals }));
+  return by === 'day'
+    ? entries.sort((a, b) => b.key.localeCompare(a.key))
+    : entries.sort((a, b) => b.totals.cost - a.totals.cost || (b.totals.promptTokens + b.totals.completionTokens) - (a.totals.promptTokens + a.totals.completionTokens));
+}
+
+/**
+ * e.g. "$0.42 · 120.5k in / 8.2k out · 14 requests"
+ */
+export function formatTotals(totals: UsageTotals): string {
+  const tokens = (count: number) => count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+  const cost = totals.unpriced === totals.requests && totals.requests > 0 ? 'no price' : formatCost(totals.cost);
+  const unpriced = totals.unpriced > 0 && totals.unpriced < totals.requests ? ` (${totals.unpriced} unpriced)` : '';
+  return `${cost}${unpriced} · ${tokens(totals.promptTokens)} in / ${tokens(totals.completionTokens)} out · ${totals.requests} request${totals.requests === 1 ? '' : 's'}`;
+}
+
+export function formatBudget(status: BudgetStatus): string {
+  const scope = status.scope === 'daily' ? 'Daily' : 'Session';
+  const amount = (value: number) => status.unit === 'cost' ? formatCost(value) : `${value} tokens`;
+  return `${scope} budget of ${amount(status.limit)} exceeded: ${amount(status.unit === 'cost' ? status.used : Math.round(status.used))} used`;
+}
+
+/**
+ * Records the tokens and estimated cost of every model request under
+ * ~/.groq/usage, one JSON Lines file per day
+ */
+export class UsageLedger {
+  private static instance: UsageLedger;
+  private usageDir: string;
+  private configManager = new ConfigManager();
+  // Sessions can span days, so their totals are read once and then kept up to date
+  private sessionTotals = new Map<string, UsageTotals>();
+
+  private constructor() {
+    this.usageDir = path.join(os.homedir(), '.groq', 'usage');
+  }
+
+  public static getInstance(): UsageLedger {
+    if (!UsageLedger.instance) {
+      UsageLedger.instance = new UsageLedger();
+    }
+    return UsageLedger.instance;
+  }
+
+  public getUsageDir(): string {
+    return this.usageDir;
+  }
+
+  /**
+   * Add a request to today's file, with its cost estimated from the pricing table
+   */
+  public record(entry: Omit<UsageRecord, 'timestamp' | 'cost'>): UsageRecord {
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      ...entry,
+      cost: estimateCost(entry.provider, entry.model, entry.promptTokens, entry.completionTokens, this.configManager)
+    };
+
+    try {
+      fs.mkdirSync(this.usageDir, { recursive: true });
+      fs.appendFileSync(this.getDayPath(getDayKey()), `${JSON.stringify(record)}\n`);
+    } catch (error) {
+      logger.warn('Failed to record usage', error);
+    }
+
+    if (record.session && this.sessionTotals.has(record.session)) {
+      addRecord(this.sessionTotals.get(record.session)!, record);
+    }
+    return record;
+  }
+
+  /**
+   * Records from the given day on, or all of them
+   */
+  public getRecords(since?: Date): UsageRecord[] {
+    if (!fs.existsSync(this.usageDir)) {
+      return [];
+    }
+    const firstDay = since ? getDayKey(since) : '';
+    return fs.readdirSync(this.usageDir)
+      .filter(file => file.endsWith('.jsonl') && file.replace('.jsonl', '') >= firstDay)
+      .sort()
+      .flatMap(file => this.readDay(path.join(this.usageDir, file)));
+  }
+
+  public getDayTotals(day: string = getDayKey()): UsageTotals {
+    return sumUsage(this.readDay(this.getDayPath(day)));
+  }
+
+  public getSessionTotals(sessionId: string): UsageTotals {
+    if (!this.sessionTotals.has(sessionId)) {
+      this.sessionTotals.set(sessionId, sumUsage(this.getRecords().filter(record => record.session === sessionId)));
+    }
+    return { ...this.sessionTotals.get(sessionId)! };
+  }
+
+  /**
+   * Budgets that have been used up, today's and the session's
+   */
+  public getExceededBudgets(sessionId: string | null, budgets: BudgetSettings): BudgetStatus[] {
+    const exceeded: BudgetStatus[] = [];
+    const check = (scope: BudgetStatus['scope'], totals: UsageTotals, costLimit?: number, tokenLimit?: number) => {
+      if (typeof costLimit === 'number' && totals.cost >= costLimit) {
+        exceeded.push({ scope, unit: 'cost', limit: costLimit, used: totals.cost });
+      }
+      const tokens = totals.promptTokens + totals.completionTokens;
+      if (typeof tokenLimit === 'number' && tokens >= tokenLimit) {
+        exceeded.push({ scope, unit: 'tokens', limit: tokenLimit, used: tokens });
+      }
+    };
+
+    if (budgets.daily !== undefined || budgets.dailyTokens !== undefined) {
+      check('daily', this.getDayTotals(), budgets.daily, budgets.dailyTokens);
+    }
+    if (sessionId && (budgets.session !== undefined || budgets.sessionTokens !== undefined)) {
+      check('session', this.getSessionTotals(sessionId), budgets.session, budgets.sessionTokens);
+    }
+    return exceeded;
+  }
+
+  private getDayPath(day: string): string {
+    return path.join(this.usageDir, `${day}.jsonl`);
+  }
+
+  private readDay(filePath: string): UsageRecord[] {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+    const records: UsageRecord[] = [];
+    for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash, skip it
+      }
+    }
+    return records;
+  }
+}
@@ -0,0 +1,145 @@
+import test from 'ava';
+import { tokenize, splitArguments, parseArguments, validateArguments } from '../dist/commands/arguments.js';
+
+const session = {
+	command: 'session',
+	description: 'Manage saved sessions',
+	subcommands: [
+		{ name: 'list', aliases: ['ls'], description: 'List saved sessions' },
+		{ name: 'rename', description: 'Rename a session', args: [{ name: 'id' }, { name: 'title', rest: true }] },
+		{ name: 'delete', aliases: ['rm'], description: 'Delete a saved session', args: [{ name: 'id', required: true }] }
+	],
+	handler: () => {}
+};
+
+const usage = {
+	command: 'usage',
+	description: 'Show token usage',
+	args: [{ name: 'period' }],
+	flags: [
+		{ name: 'by', alias: 'b', takesValue: true },
+		{ name: 'json' }
+	],
+	handler: () => {}
+};
+
+const ask = {
+	command: 'ask',
+	description: 'Ask something',
+	args: [{ name: 'question', required: true, rest: true }],
+	flags: [{ name: 'model', takesValue: true }],
+	handler: () => {}
+};
+
+test('keeps double and single quoted words together', t => {
+	t.deepEqual(splitArguments('open "my session" \'two words\''), ['open', 'my session', 'two words']);
+});
+
+test('joins quoted parts with the text around them', t => {
+	t.deepEqual(splitArguments('--title="a b"c'), ['--title=a bc']);
+});
+
+test('keeps stray quotes as typed', t => {
+	t.deepEqual(splitArguments("it's fine"), ["it's", 'fine']);
+});
+
+test('marks tokens that start with a quote', t => {
+	const tokens = tokenize('list "list"');
+
+	t.false(tokens[0].quoted);
+	t.true(tokens[1].quoted);
+	t.is(tokens[1].start, 5);
+	t.is(tokens[1].end, 11);
+});
+
+test('backslashes escape quotes and spaces', t => {
+	t.deepEqual(splitArguments('say "a \\"quoted\\" word" a\\ b it\\\'s'), ['say', 'a "quoted" word', 'a b', "it's"]);
+});
+
+test('other backslashes are kept, so Windows paths work', t => {
+	t.deepEqual(splitArguments('C:\\Users\\me "C:\\Program Files\\app"'), ['C:\\Users\\me', 'C:\\Program Files\\app']);
+});
+
+test('single quotes take backslashes literally', t => {
+	t.deepEqual(splitArguments("'a\\b'"), ['a\\b']);
+});
+
+test('parses a subcommand by name or alias', t => {
+	t.is(parseArguments(session, 'ls').subcommand, 'list');
+	t.is(parseArguments(session, 'LIST').subcommand, 'list');
+	t.is(parseArguments(session, '"list"').subcommand, undefined);
+});
+
+test('fills named arguments and a rest argument', t => {
+	const parsed = parseArguments(session, 'rename 3 Auth   refactor');
+
+	t.is(parsed.subcommand, 'rename');
+	t.is(parsed.named.id, '3');
+	t.is(parsed.named.title, 'Auth   refactor');
+	t.deepEqual(parsed.positional, ['3', 'Auth', 'refactor']);
+});
+
+test('a rest argument given as one quoted string loses its quotes', t => {
+	t.is(parseArguments(session, 'rename 3 "Auth refactor"').named.title, 'Auth refactor');
+});
+
+test('parses --flag=value, --flag value and aliases', t => {
+	t.deepEqual(parseArguments(usage, 'week --by=model').flags, { by: 'model' });
+	t.deepEqual(parseArguments(usage, '--by provider week').flags, { by: 'provider' });
+	t.deepEqual(parseArguments(usage, '-b day').flags, { by: 'day' });
+	t.is(parseArguments(usage, '--by provider week').named.period, 'week');
+});
+
+test('boolean flags take no value', t => {
+	const parsed = parseArguments(usage, '--json today');
+
+	t.deepEqual(parsed.flags, { json: true });
+	t.is(parsed.named.period, 'today');
+});
+
+test('a quoted flag value keeps its spaces', t => {
+	t.is(parseArguments(usage, '--by="two words"').flags.by, 'two words');
+});
+
+test('unknown flags are kept as positional arguments', t => {
+	const parsed = parseArguments(usage, '--verbose');
+
+	t.deepEqual(parsed.flags, {});
+	t.is(parsed.named.period, '--verbose');
+});
+
+test('-- ends flag parsing', t => {
+	const parsed = parseArguments(usage, '-- --json');
+
+	t.deepEqual(parsed.flags, {});
+	t.is(parsed.named.period, '--json');
+});
+
+test('flags after a rest argument belong to it', t => {
+	const parsed = parseArguments(ask, '--model fast what does --model do');
+
+	t.is(parsed.flags.model, 'fast');
+	t.is(parsed.named.question, 'what does --model do');
+});
+
+test('keeps the raw text after the subcommand', t => {
+	const parsed = parseArguments(session, ' rename  "a b" c ');
+
+	t.is(parsed.raw, 'rename  "a b" c');
+	t.is(parsed.text, '"a b" c');
+});
+
+test('reports a missing required positional', t => {
+	t.is(validateArguments(session, parseArguments(session, 'delete')), 'Missing id');
+	t.is(validateArguments(ask, parseArguments(ask, '--model fast')), 'Missing question');
+	t.is(validateArguments(session, parseArguments(session, 'rm 2')), null);
+});
+
+test('reports an unknown subcommand', t => {
+	t.is(validateArguments(session, parseArguments(session, 'frobnicate')), 'Unknown subcommand for /session: frobnicate');
+	t.is(validateArguments(session, parseArguments(session, '')), null);
+});
+
+test('commands with their own arguments accept any first word', t => {
+	t.is(validateArguments(usage, parseArguments(usage, 'month')), null);
+});
@@ -0,0 +1,132 @@
+import test from 'ava';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CheckpointManager } from '../dist/core/checkpoint-manager.js';
+
+// A temporary directory with the given files, and a checkpoint manager for it
+function createWorkspace(t, files = {}) {
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'groq-checkpoint-'));
+	t.teardown(() => fs.rmSync(root, { recursive: true, force: true }));
+	for (const [file, content] of Object.entries(files)) {
+		fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+		fs.writeFileSync(path.join(root, file), content);
+	}
+	return {
+		manager: new CheckpointManager(),
+		file: relative => path.join(root, relative),
+		read: relative => fs.readFileSync(path.join(root, relative), 'utf8'),
+		exists: relative => fs.existsSync(path.join(root, relative))
+	};
+}
+
+test('undoing a created file removes it', async t => {
+	const { manager, file, exists } = createWorkspace(t);
+
+	await manager.capture('create_file', file('new.txt'), 1);
+	fs.writeFileSync(file('new.txt'), 'created');
+	const undone = await manager.undoLast();
+
+	t.is(undone.toolName, 'create_file');
+	t.false(exists('new.txt'));
+	t.deepEqual(manager.list(), []);
+});
+
+test('undoing an edit restores the previous content and mode', async t => {
+	const { manager, file, read } = createWorkspace(t, { 'a.sh': 'echo before\n' });
+	fs.chmodSync(file('a.sh'), 0o755);
+
+	await manager.capture('edit_file', file('a.sh'), 1);
+	fs.writeFileSync(file('a.sh'), 'echo after\n');
+	fs.chmodSync(file('a.sh'), 0o644);
+	await manager.undoLast();
+
+	t.is(read('a.sh'), 'echo before\n');
+	t.is(fs.statSync(file('a.sh')).mode & 0o777, 0o755);
+});
+
+test('undoing a delete brings back a file', async t => {
+	const { manager, file, read } = createWorkspace(t, { 'keep.txt': 'kept' });
+
+	await manager.capture('delete_file', file('keep.txt'), 1);
+	fs.rmSync(file('keep.txt'));
+	await manager.undoLast();
+
+	t.is(read('keep.txt'), 'kept');
+});
+
+test('undoing a delete brings back a directory with its contents', async t => {
+	const { manager, file, read } = createWorkspace(t, { 'dir/a.txt': 'a', 'dir/sub/b.txt': 'b' });
+	fs.symlinkSync('a.txt', file('dir/link'));
+
+	await manager.capture('delete_file', file('dir'), 1);
+	fs.rmSync(file('dir'), { recursive: true });
+	await manager.undoLast();
+
+	t.is(read('dir/a.txt'), 'a');
+	t.is(read('dir/sub/b.txt'), 'b');
+	t.is(fs.readlinkSync(file('dir/link')), 'a.txt');
+});
+
+test('undo goes back one change at a time, newest first', async t => {
+	const { manager, file, read, exists } = createWorkspace(t, { 'a.txt': 'v1' });
+
+	await manager.capture('edit_file', file('a.txt'), 1);
+	fs.writeFileSync(file('a.txt'), 'v2');
+	await manager.capture('edit_file', file('a.txt'), 1);
+	fs.writeFileSync(file('a.txt'), 'v3');
+	await manager.capture('create_file', file('b.txt'), 1);
+	fs.writeFileSync(file('b.txt'), 'b');
+
+	await manager.undoLast();
+	t.false(exists('b.txt'));
+	t.is(read('a.txt'), 'v3');
+	await manager.undoLast();
+	t.is(read('a.txt'), 'v2');
+	await manager.undoLast();
+	t.is(read('a.txt'), 'v1');
+	t.is(await manager.undoLast(), null);
+});
+
+test('rewinding restores the given turn and every later one', async t => {
+	const { manager, file, read, exists } = createWorkspace(t, { 'a.txt': 'turn 0' });
+
+	await manager.capture('edit_file', file('a.txt'), 1);
+	fs.writeFileSync(file('a.txt'), 'turn 1');
+	await manager.capture('edit_file', file('a.txt'), 2);
+	fs.writeFileSync(file('a.txt'), 'turn 2');
+	await manager.capture('create_file', file('b.txt'), 2);
+	fs.writeFileSync(file('b.txt'), 'turn 2');
+	await manager.capture('delete_file', file('a.txt'), 3);
+	fs.rmSync(file('a.txt'));
+
+	const restored = await manager.rewindTo(2);
+
+	t.deepEqual(restored.map(checkpoint => checkpoint.turn), [3, 2, 2]);
+	t.is(read('a.txt'), 'turn 1');
+	t.false(exists('b.txt'));
+	t.deepEqual(manager.list().map(checkpoint => checkpoint.turn), [1]);
+});
+
+test('a path replaced by another kind of entry is restored', async t => {
+	const { manager, file, read } = createWorkspace(t, { 'a.txt': 'file' });
+
+	await manager.capture('delete_file', file('a.txt'), 1);
+	fs.rmSync(file('a.txt'));
+	fs.mkdirSync(file('a.txt'));
+	fs.writeFileSync(file('a.txt/inner'), 'x');
+	await manager.undoLast();
+
+	t.is(read('a.txt'), 'file');
+});
+
+test('discarded checkpoints are not undone', async t => {
+	const { manager, file, read } = createWorkspace(t, { 'a.txt': 'before' });
+
+	const checkpoint = await manager.capture('edit_file', file('a.txt'), 1);
+	manager.discard(checkpoint);
+	fs.writeFileSync(file('a.txt'), 'after');
+
+	t.is(await manager.undoLast(), null);
+	t.is(read('a.txt'), 'after');
+});
@@ -0,0 +1,188 @@
+import test from 'ava';
+import { ContextManager } from '../dist/core/context-manager.js';
+
+// 8192 tokens leave 2048 for output, so 6144 for the prompt: compaction starts above
+// 4915 tokens and aims for 3072
+const CONTEXT_LENGTH = 8192;
+
+// One turn: a user message, a tool call with its result, and the answer
+function turn(index, outputChars = 100) {
+	const id = `call_${index}`;
+	return [
+		{ role: 'user', content: `Question ${index}` },
+		{ role: 'assistant', content: '', tool_calls: [{ id, type: 'function', function: { name: 'read_file', arguments: '{}' } }] },
+		{ role: 'tool', tool_call_id: id, content: 'x'.repeat(outputChars) },
+		{ role: 'assistant', content: `Answer ${index}` }
+	];
+}
+
+function conversation(...turns) {
+	return [{ role: 'system', content: 'System prompt' }, ...turns.flat()];
+}
+
+// Every tool result must follow the assistant message that called it
+function assertToolPairs(t, messages) {
+	const calledIds = new Set();
+	for (const message of messages) {
+		for (const call of message.tool_calls || []) {
+			calledIds.add(call.id);
+		}
+		if (message.role === 'tool') {
+			t.true(calledIds.has(message.tool_call_id), `tool result ${message.tool_call_id} has no call before it`);
+		}
+	}
+	for (const message of messages) {
+		for (const call of message.tool_calls || []) {
+			t.true(messages.some(other => other.role === 'tool' && other.tool_call_id === call.id), `tool call ${call.id} has no result`);
+		}
+	}
+}
+
+test('estimates about four characters per token', t => {
+	const manager = new ContextManager();
+
+	t.is(manager.estimateTextTokens('a'.repeat(400)), 100);
+	t.is(manager.estimateTextTokens('abc'), 1);
+	t.is(manager.estimateMessageTokens({ role: 'user', content: 'a'.repeat(400) }), 104);
+});
+
+test('counts images and tool calls of a message', t => {
+	const manager = new ContextManager();
+	const toolCalls = [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{}' } }];
+
+	const image = { role: 'user', content: [{ type: 'text', text: 'a'.repeat(40) }, { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] };
+	t.is(manager.estimateMessageTokens(image), 4 + 10 + 1000);
+	t.is(manager.estimateMessageTokens({ role: 'assistant', content: '', tool_calls: toolCalls }), 4 + manager.estimateTextTokens(JSON.stringify(toolCalls)));
+});
+
+test('reserves output tokens and tool schemas from the input budget', t => {
+	const manager = new ContextManager();
+	const tools = [{ type: 'function', function: { name: 'x'.repeat(396) } }];
+
+	t.is(manager.getMaxOutputTokens(CONTEXT_LENGTH), 2048);
+	t.is(manager.getMaxOutputTokens(128000), 8000);
+	t.is(manager.getInputBudget(CONTEXT_LENGTH), 6144);
+	t.is(manager.getInputBudget(CONTEXT_LENGTH, tools), 6144 - manager.estimateTextTokens(JSON.stringify(tools)));
+});
+
+test('calibrates estimates to the prompt tokens the provider reports', t => {
+	const manager = new ContextManager();
+	// 99 tokens of text and 4 of message overhead
+	const messages = [{ role: 'user', content: 'a'.repeat(396) }];
+
+	manager.calibrate(messages, undefined, 206);
+	t.is(manager.estimateTextTokens('a'.repeat(400)), 200);
+	t.is(manager.estimateTokens(messages), 99 * 2 + 4);
+});
+
+test('keeps calibration within bounds and ignores missing counts', t => {
+	const manager = new ContextManager();
+	const messages = [{ role: 'user', content: 'a'.repeat(396) }];
+
+	manager.calibrate(messages, undefined, 0);
+	t.is(manager.estimateTextTokens('a'.repeat(400)), 100);
+	manager.calibrate(messages, undefined, 10000);
+	t.is(manager.estimateTextTokens('a'.repeat(400)), 300);
+	manager.calibrate(messages, undefined, 1);
+	t.is(manager.estimateTextTokens('a'.repeat(400)), 50);
+});
+
+test('needs compaction above 80% of the input budget', t => {
+	const manager = new ContextManager();
+
+	t.false(manager.needsCompaction(conversation(turn(1, 18000)), CONTEXT_LENGTH));
+	t.true(manager.needsCompaction(conversation(turn(1, 20000)), CONTEXT_LENGTH));
+});
+
+test('first truncates large tool outputs of older turns', async t => {
+	const manager = new ContextManager();
+	const messages = conversation(turn(1, 20000), turn(2), turn(3, 6000));
+	let summarized = false;
+
+	const result = await manager.compact(messages, CONTEXT_LENGTH, { summarize: async () => {
+		summarized = true;
+		return 'summary';
+	} });
+
+	t.false(summarized);
+	t.is(result.removedMessages, 0);
+	t.is(result.truncatedOutputs, 1);
+	t.is(result.messages.length, messages.length);
+	t.regex(result.messages[3].content, /characters truncated to save context/);
+	// Recent turns keep their outputs
+	t.is(result.messages[11].content, messages[11].content);
+	t.true(result.tokensAfter < result.tokensBefore);
+	assertToolPairs(t, result.messages);
+});
+
+test('then summarizes older turns, keeping the recent ones whole', async t => {
+	const manager = new ContextManager();
+	const messages = conversation(turn(1, 4000), turn(2, 4000), turn(3, 4000), turn(4, 4000), turn(5), turn(6));
+	let summarizedMessages;
+
+	const result = await manager.compact(messages, CONTEXT_LENGTH, { summarize: async older => {
+		summarizedMessages = older;
+		return 'What happened so far';
+	} });
+
+	t.is(summarizedMessages.length, 16);
+	t.true(result.summarized);
+	t.is(result.removedMessages, 16);
+	t.is(result.messages[0], messages[0]);
+	t.regex(result.messages[1].content, /^Summary of the earlier conversation \(16 messages compacted\):\nWhat happened so far/);
+	t.deepEqual(result.messages.slice(2), messages.slice(17));
+	assertToolPairs(t, result.messages);
+});
+
+test('drops older turns when summarizing fails', async t => {
+	const manager = new ContextManager();
+	const messages = conversation(turn(1, 4000), turn(2, 4000), turn(3, 4000), turn(4, 4000), turn(5), turn(6));
+
+	const result = await manager.compact(messages, CONTEXT_LENGTH, { summarize: async () => {
+		throw new Error('provider down');
+	} });
+
+	t.false(result.summarized);
+	t.is(result.removedMessages, 16);
+	t.is(result.messages[1].content, '16 earlier messages were removed to fit the context window.');
+	assertToolPairs(t, result.messages);
+});
+
+test('finally shortens tool outputs of the recent turns', async t => {
+	const manager = new ContextManager();
+	const messages = conversation(turn(1), turn(2, 20000), turn(3, 20000));
+
+	const result = await manager.compact(messages, CONTEXT_LENGTH);
+
+	t.is(result.removedMessages, 4);
+	t.is(result.truncatedOutputs, 2);
+	t.is(result.messages.length, 10);
+	t.true(result.messages.filter(message => message.role === 'tool').every(message => message.content.length < 20000));
+	assertToolPairs(t, result.messages);
+});
+
+test('force summarizes all but the last turn even when it fits', async t => {
+	const manager = new ContextManager();
+	const messages = conversation(turn(1), turn(2), turn(3));
+
+	const result = await manager.compact(messages, CONTEXT_LENGTH, { force: true, summarize: async () => 'Short summary' });
+
+	t.true(result.summarized);
+	t.is(result.removedMessages, 8);
+	t.deepEqual(result.messages.slice(2), messages.slice(9));
+	assertToolPairs(t, result.messages);
+});
+
+test('an earlier summary is folded into the next one', async t => {
+	const manager = new ContextManager();
+	const first = await manager.compact(conversation(turn(1), turn(2), turn(3)), CONTEXT_LENGTH, { force: true, summarize: async () => 'First summary' });
+	let summarizedMessages;
+
+	await manager.compact([...first.messages, ...turn(4)], CONTEXT_LENGTH, { force: true, summarize: async older => {
+		summarizedMessages = older;
+		return 'Second summary';
+	} });
+
+	t.regex(summarizedMessages[0].content, /First summary/);
+	t.is(summarizedMessages.length, 5);
+});
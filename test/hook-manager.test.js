@@ -0,0 +1,153 @@
+import test from 'ava';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HookManager, MAX_STOP_HOOK_CONTINUATIONS, shouldContinueAfterStop } from '../dist/utils/hook-manager.js';
+import { setWorkspaceRoot } from '../dist/tools/workspace.js';
+import { trustProjectFile } from '../dist/utils/project-trust.js';
+
+// Home and project directories of their own, so no real hooks or trust apply (ava runs
+// each file in a child process, where HOME is what os.homedir() returns)
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'groq-hooks-'));
+const home = path.join(root, 'home');
+const project = path.join(root, 'project');
+fs.mkdirSync(path.join(home, '.groq'), { recursive: true });
+fs.mkdirSync(path.join(project, '.groq'), { recursive: true });
+process.env.HOME = home;
+setWorkspaceRoot(project);
+
+const manager = HookManager.getInstance();
+const globalPath = path.join(home, '.groq', 'hooks.json');
+const projectPath = path.join(project, '.groq', 'hooks.json');
+
+function writeHooks(filePath, hooks) {
+	fs.writeFileSync(filePath, JSON.stringify({ hooks }));
+}
+
+// Hook command running a Node.js script that gets the hook input as `input`
+const node = script => `"${process.execPath}" -e ${JSON.stringify(`const input = JSON.parse(require("fs").readFileSync(0, "utf8")); ${script}`)}`;
+const print = output => `echo '${JSON.stringify(output)}'`;
+
+test.beforeEach(() => {
+	fs.rmSync(globalPath, { force: true });
+	fs.rmSync(projectPath, { force: true });
+	fs.rmSync(path.join(home, '.groq', 'config.json'), { force: true });
+});
+
+test.after.always(() => {
+	fs.rmSync(root, { recursive: true, force: true });
+});
+
+test.serial('no hooks means nothing is blocked', async t => {
+	t.deepEqual(await manager.run('PreToolUse', { tool_name: 'execute_command', tool_input: { command: 'ls' } }), { blocked: false, feedback: [] });
+});
+
+test.serial('exit code 2 blocks with stderr as the reason', async t => {
+	writeHooks(globalPath, { PreToolUse: [{ command: 'echo "no pushing" >&2; exit 2' }] });
+
+	const outcome = await manager.run('PreToolUse', { tool_name: 'execute_command', tool_input: { command: 'git push' } });
+
+	t.true(outcome.blocked);
+	t.is(outcome.reason, 'no pushing');
+});
+
+test.serial('a block decision stops the remaining hooks', async t => {
+	writeHooks(globalPath, { PreToolUse: [
+		{ command: print({ decision: 'block', reason: 'not now' }) },
+		{ command: print({ feedback: 'should not run' }) }
+	] });
+
+	const outcome = await manager.run('PreToolUse', { tool_name: 'edit_file', tool_input: {} });
+
+	t.true(outcome.blocked);
+	t.is(outcome.reason, 'not now');
+	t.deepEqual(outcome.feedback, []);
+});
+
+test.serial('other failures don\'t block', async t => {
+	writeHooks(globalPath, { PreToolUse: [{ command: 'exit 1' }, { command: print({ feedback: 'still ran' }) }] });
+
+	const outcome = await manager.run('PreToolUse', { tool_name: 'edit_file', tool_input: {} });
+
+	t.false(outcome.blocked);
+	t.deepEqual(outcome.feedback, ['still ran']);
+});
+
+test.serial('PreToolUse hooks can rewrite the arguments for the next hooks', async t => {
+	writeHooks(globalPath, { PreToolUse: [
+		{ command: node('console.log(JSON.stringify({ toolInput: { command: input.tool_input.command + " --dry-run" } }))') },
+		{ command: node('console.log(JSON.stringify({ feedback: input.tool_input.command + " in " + process.env.GROQ_TOOL_NAME }))') }
+	] });
+
+	const outcome = await manager.run('PreToolUse', { tool_name: 'execute_command', tool_input: { command: 'npm publish' } });
+
+	t.false(outcome.blocked);
+	t.deepEqual(outcome.toolInput, { command: 'npm publish --dry-run' });
+	t.deepEqual(outcome.feedback, ['npm publish --dry-run in execute_command']);
+});
+
+test.serial('only PreToolUse hooks can rewrite arguments', async t => {
+	writeHooks(globalPath, { PostToolUse: [{ command: print({ toolInput: { command: 'rm -rf /' } }) }] });
+
+	const outcome = await manager.run('PostToolUse', { tool_name: 'execute_command', tool_input: { command: 'ls' }, tool_result: {} });
+
+	t.is(outcome.toolInput, undefined);
+});
+
+test.serial('matchers select tools by their whole name', async t => {
+	writeHooks(globalPath, { PreToolUse: [{ matcher: 'edit_file|create_file', command: 'exit 2' }] });
+
+	t.true((await manager.run('PreToolUse', { tool_name: 'create_file', tool_input: {} })).blocked);
+	t.false((await manager.run('PreToolUse', { tool_name: 'create_file_later', tool_input: {} })).blocked);
+	t.false((await manager.run('PreToolUse', { tool_name: 'read_file', tool_input: {} })).blocked);
+});
+
+test.serial('plain output becomes feedback only for prompt and session events', async t => {
+	writeHooks(globalPath, { UserPromptSubmit: [{ command: 'echo "branch: main"' }], PostToolUse: [{ command: 'echo "formatted"' }] });
+
+	t.deepEqual((await manager.run('UserPromptSubmit', { prompt: 'hi' })).feedback, ['branch: main']);
+	t.deepEqual((await manager.run('PostToolUse', { tool_name: 'edit_file', tool_result: {} })).feedback, []);
+});
+
+test.serial('untrusted project hooks are ignored', async t => {
+	writeHooks(projectPath, { PreToolUse: [{ command: 'exit 2' }] });
+
+	t.true(manager.hasUntrustedProjectHooks());
+	t.deepEqual(manager.getHooks('project'), {});
+	t.is(manager.getHooks('project', true).PreToolUse.length, 1);
+	t.false((await manager.run('PreToolUse', { tool_name: 'edit_file', tool_input: {} })).blocked);
+});
+
+test.serial('trusted project hooks run until the file changes', async t => {
+	writeHooks(projectPath, { PreToolUse: [{ command: 'exit 2' }] });
+	trustProjectFile(projectPath);
+
+	t.false(manager.hasUntrustedProjectHooks());
+	t.true((await manager.run('PreToolUse', { tool_name: 'edit_file', tool_input: {} })).blocked);
+
+	writeHooks(projectPath, { PreToolUse: [{ command: 'echo changed >&2; exit 2' }] });
+	t.true(manager.hasUntrustedProjectHooks());
+	t.false((await manager.run('PreToolUse', { tool_name: 'edit_file', tool_input: {} })).blocked);
+});
+
+test.serial('Stop hooks send the agent back to work at most MAX_STOP_HOOK_CONTINUATIONS times', async t => {
+	writeHooks(globalPath, { Stop: [{ command: 'echo "tests still fail" >&2; exit 2' }] });
+
+	// What the agent does after each final answer
+	let continuations = 0;
+	for (;;) {
+		const outcome = await manager.run('Stop', { last_message: 'Done', stop_hook_active: continuations > 0 });
+		t.true(outcome.blocked);
+		if (!shouldContinueAfterStop(outcome, continuations)) {
+			break;
+		}
+		continuations++;
+	}
+
+	t.is(continuations, MAX_STOP_HOOK_CONTINUATIONS);
+});
+
+test('Stop hooks that don\'t block let the agent finish', t => {
+	t.false(shouldContinueAfterStop({ blocked: false, feedback: [] }, 0));
+	t.true(shouldContinueAfterStop({ blocked: true, feedback: [] }, MAX_STOP_HOOK_CONTINUATIONS - 1));
+});
@@ -0,0 +1,170 @@
+import test from 'ava';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IgnoreRules, parseIgnorePatterns } from '../dist/utils/ignore-rules.js';
+
+// A git repository in a temporary directory with the given files
+function createRepo(t, files) {
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'groq-ignore-'));
+	t.teardown(() => fs.rmSync(root, { recursive: true, force: true }));
+	fs.mkdirSync(path.join(root, '.git', 'info'), { recursive: true });
+	for (const [file, content] of Object.entries(files)) {
+		fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+		fs.writeFileSync(path.join(root, file), content);
+	}
+	const rules = new IgnoreRules(root);
+	return {
+		file: relative => rules.isIgnored(path.join(root, relative), false),
+		dir: relative => rules.isIgnored(path.join(root, relative), true)
+	};
+}
+
+test('parses patterns, skipping comments and blank lines', t => {
+	const rules = parseIgnorePatterns(['# comment', '', '*.log', '!keep.log', 'out/', '\\#notes', '\\!bang', 'trailing   '], 'sub');
+
+	t.is(rules.length, 6);
+	t.deepEqual(rules.map(rule => rule.negate), [false, true, false, false, false, false]);
+	t.deepEqual(rules.map(rule => rule.directoryOnly), [false, false, true, false, false, false]);
+	t.true(rules.every(rule => rule.base === 'sub'));
+	t.true(rules[3].regex.test('#notes'));
+	t.true(rules[4].regex.test('!bang'));
+	t.true(rules[5].regex.test('trailing'));
+});
+
+test('a negation re-includes a file', t => {
+	const repo = createRepo(t, { '.gitignore': '*.log\n!keep.log\n' });
+
+	t.true(repo.file('debug.log'));
+	t.true(repo.file('logs/debug.log'));
+	t.false(repo.file('keep.log'));
+	t.false(repo.file('logs/keep.log'));
+});
+
+test('the last matching rule wins', t => {
+	const repo = createRepo(t, { '.gitignore': '!keep.log\n*.log\n' });
+
+	t.true(repo.file('keep.log'));
+});
+
+test('a file in an ignored directory stays ignored when re-included', t => {
+	const repo = createRepo(t, { '.gitignore': 'out/\n!out/keep.txt\n' });
+
+	t.true(repo.file('out/keep.txt'));
+});
+
+test('a directory can be re-included with its files', t => {
+	const repo = createRepo(t, { '.gitignore': 'generated/*\n!generated/schema/\n' });
+
+	t.true(repo.file('generated/a.ts'));
+	t.false(repo.dir('generated'));
+	t.false(repo.dir('generated/schema'));
+	t.false(repo.file('generated/schema/types.ts'));
+});
+
+test('a trailing slash only matches directories', t => {
+	const repo = createRepo(t, { '.gitignore': 'out/\n' });
+
+	t.true(repo.dir('out'));
+	t.true(repo.dir('src/out'));
+	t.true(repo.file('out/index.js'));
+	t.false(repo.file('out'));
+	t.false(repo.file('src/out'));
+});
+
+test('patterns with a slash are anchored to their file', t => {
+	const repo = createRepo(t, { '.gitignore': '/todo.txt\ndocs/*.md\n' });
+
+	t.true(repo.file('todo.txt'));
+	t.false(repo.file('src/todo.txt'));
+	t.true(repo.file('docs/intro.md'));
+	t.false(repo.file('docs/guide/intro.md'));
+	t.false(repo.file('src/docs/intro.md'));
+});
+
+test('patterns without a slash match at any depth', t => {
+	const repo = createRepo(t, { '.gitignore': 'tmp\n*.bak\n' });
+
+	t.true(repo.file('tmp'));
+	t.true(repo.dir('a/b/tmp'));
+	t.true(repo.file('a/b/tmp/file.js'));
+	t.true(repo.file('a/file.bak'));
+	t.false(repo.file('a/file.bak.js'));
+});
+
+test('** matches any number of directories', t => {
+	const repo = createRepo(t, { '.gitignore': '**/fixtures/*.json\nlogs/**\na/**/z.txt\n' });
+
+	t.true(repo.file('fixtures/a.json'));
+	t.true(repo.file('test/unit/fixtures/a.json'));
+	t.false(repo.file('test/fixtures/nested/a.json'));
+	t.true(repo.file('logs/2024/01.txt'));
+	t.true(repo.file('a/z.txt'));
+	t.true(repo.file('a/b/c/z.txt'));
+});
+
+test('rules in nested files apply below their directory', t => {
+	const repo = createRepo(t, {
+		'.gitignore': '*.log\n',
+		'packages/app/.gitignore': '*.txt\n/local.json\n!important.log\n'
+	});
+
+	t.true(repo.file('packages/app/notes.txt'));
+	t.true(repo.file('packages/app/src/notes.txt'));
+	t.false(repo.file('notes.txt'));
+	t.false(repo.file('packages/notes.txt'));
+	t.true(repo.file('packages/app/local.json'));
+	t.false(repo.file('packages/app/src/local.json'));
+	t.false(repo.file('packages/app/important.log'));
+	t.true(repo.file('important.log'));
+});
+
+test('.groqignore is read after .gitignore', t => {
+	const repo = createRepo(t, {
+		'.gitignore': 'secrets/\n*.env\n',
+		'.groqignore': 'fixtures/large/\n!example.env\n'
+	});
+
+	t.true(repo.dir('fixtures/large'));
+	t.true(repo.file('prod.env'));
+	t.false(repo.file('example.env'));
+});
+
+test('.git/info/exclude is applied', t => {
+	const repo = createRepo(t, { '.git/info/exclude': 'scratch/\n' });
+
+	t.true(repo.dir('scratch'));
+	t.true(repo.dir('.git'));
+});
+
+test('ignores common build and dependency directories by default', t => {
+	const repo = createRepo(t, {});
+
+	for (const directory of ['node_modules', 'dist', 'build', '.next', '.cache', 'venv', '__pycache__', 'packages/web/.next']) {
+		t.true(repo.dir(directory), directory);
+	}
+	t.true(repo.file('app.log'));
+	t.false(repo.file('src/index.ts'));
+	t.false(repo.dir('src'));
+});
+
+test('a project ignore file can re-include a default directory', t => {
+	const repo = createRepo(t, { '.gitignore': '!dist/\n' });
+
+	t.false(repo.dir('dist'));
+	t.false(repo.file('dist/index.js'));
+	t.true(repo.dir('node_modules'));
+});
+
+test('paths outside the root are not ignored', t => {
+	const repo = createRepo(t, { '.gitignore': '*\n' });
+
+	t.false(repo.file('../elsewhere.txt'));
+});
+
+test('names starting with two dots are inside the root', t => {
+	const repo = createRepo(t, { '.gitignore': '*.md\n' });
+
+	t.true(repo.file('..notes.md'));
+	t.true(repo.file('..drafts/todo.md'));
+});
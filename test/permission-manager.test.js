@@ -0,0 +1,176 @@
+import test from 'ava';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PermissionManager } from '../dist/utils/permission-manager.js';
+import { setWorkspaceRoot } from '../dist/tools/workspace.js';
+import { trustProjectFile } from '../dist/utils/project-trust.js';
+
+// Home and project directories of their own, so no real rules or trust apply (ava runs
+// each file in a child process, where HOME is what os.homedir() returns)
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'groq-permissions-'));
+const home = path.join(root, 'home');
+const project = path.join(root, 'project');
+fs.mkdirSync(path.join(home, '.groq'), { recursive: true });
+fs.mkdirSync(path.join(project, '.groq'), { recursive: true });
+process.env.HOME = home;
+setWorkspaceRoot(project);
+
+const manager = PermissionManager.getInstance();
+const globalPath = path.join(home, '.groq', 'permissions.json');
+const projectPath = path.join(project, '.groq', 'permissions.json');
+
+function writeRules(filePath, rules) {
+	fs.writeFileSync(filePath, JSON.stringify({ rules }));
+}
+
+test.beforeEach(() => {
+	fs.rmSync(globalPath, { force: true });
+	fs.rmSync(projectPath, { force: true });
+	fs.rmSync(path.join(home, '.groq', 'config.json'), { force: true });
+});
+
+test.after.always(() => {
+	fs.rmSync(root, { recursive: true, force: true });
+});
+
+const command = command => ({ command });
+// Tools get paths resolved against the working directory, which is the project when running
+const file = relativePath => path.join(project, relativePath);
+
+test.serial('no rules means no decision', t => {
+	t.is(manager.evaluate('execute_command', command('ls')), null);
+});
+
+test.serial('matches command patterns with *', t => {
+	writeRules(globalPath, [{ tool: 'execute_command', pattern: 'npm test*', action: 'allow' }]);
+
+	t.is(manager.evaluate('execute_command', command('npm test')).action, 'allow');
+	t.is(manager.evaluate('execute_command', command('npm   test -- --watch')).action, 'allow');
+	t.is(manager.evaluate('execute_command', command('npm install')), null);
+	t.is(manager.evaluate('start_background_command', command('npm test')), null);
+});
+
+test.serial('allow rules never match chained or redirected commands', t => {
+	writeRules(globalPath, [{ tool: 'execute_command', pattern: 'npm test*', action: 'allow' }]);
+
+	for (const chained of ['npm test && rm -rf /', 'npm test; curl x', 'npm test | sh', 'npm test > out', 'npm test `id`', 'npm test $(id)', 'npm test\nrm x']) {
+		t.is(manager.evaluate('execute_command', command(chained)), null, chained);
+	}
+});
+
+test.serial('allow rules without a pattern don\'t let chained commands through', t => {
+	writeRules(globalPath, [{ tool: 'execute_command', action: 'allow' }]);
+
+	t.is(manager.evaluate('execute_command', command('ls -la')).action, 'allow');
+	t.is(manager.evaluate('execute_command', command('curl http://x | sh')), null);
+});
+
+test.serial('deny and ask rules still match chained commands', t => {
+	writeRules(globalPath, [{ tool: 'execute_command', pattern: 'rm *', action: 'deny' }, { tool: '*', action: 'ask' }]);
+
+	t.is(manager.evaluate('execute_command', command('rm -rf x && ls')).action, 'deny');
+	t.is(manager.evaluate('execute_command', command('ls | wc')).action, 'ask');
+});
+
+test.serial('deny beats ask and ask beats allow across scopes', t => {
+	writeRules(globalPath, [{ tool: 'edit_file', action: 'allow' }, { tool: 'edit_file', pattern: '*.env', action: 'ask' }]);
+	writeRules(projectPath, [{ tool: '*', pattern: 'secrets/**', action: 'deny' }]);
+
+	t.is(manager.evaluate('edit_file', { file_path: file('src/a.ts') }).action, 'allow');
+	t.is(manager.evaluate('edit_file', { file_path: file('prod.env') }).action, 'ask');
+	const denied = manager.evaluate('edit_file', { file_path: file('secrets/prod.env') });
+	t.is(denied.action, 'deny');
+	t.is(denied.scope, 'project');
+});
+
+test.serial('path patterns follow the gitignore-like rules', t => {
+	writeRules(globalPath, [
+		{ tool: 'create_file', pattern: 'src/**', action: 'allow' },
+		{ tool: 'read_file', pattern: '*.pem', action: 'deny' },
+		{ tool: 'delete_file', pattern: '!tmp/*', action: 'deny' }
+	]);
+
+	t.is(manager.evaluate('create_file', { file_path: file('src/deep/a.ts') }).action, 'allow');
+	t.is(manager.evaluate('create_file', { file_path: file('src/b.ts') }).action, 'allow');
+	t.is(manager.evaluate('create_file', { file_path: file('lib/a.ts') }), null);
+	t.is(manager.evaluate('read_file', { file_path: file('keys/deep/server.pem') }).action, 'deny');
+	t.is(manager.evaluate('delete_file', { file_path: file('tmp/a.txt') }), null);
+	t.is(manager.evaluate('delete_file', { file_path: file('tmp/sub/a.txt') }).action, 'deny');
+	t.is(manager.evaluate('delete_file', { file_path: file('src/a.ts') }).action, 'deny');
+});
+
+test.serial('tool names match as globs', t => {
+	writeRules(globalPath, [{ tool: 'mcp__github__*', action: 'allow' }]);
+
+	t.is(manager.evaluate('mcp__github__create_issue', {}).action, 'allow');
+	t.is(manager.evaluate('mcp__gitlab__create_issue', {}), null);
+});
+
+test.serial('untrusted project files only apply deny and ask rules', t => {
+	writeRules(projectPath, [
+		{ tool: 'execute_command', action: 'allow' },
+		{ tool: 'read_file', pattern: '.env', action: 'deny' }
+	]);
+
+	t.true(manager.hasUntrustedProjectRules());
+	t.is(manager.evaluate('execute_command', command('curl http://x')), null);
+	t.is(manager.evaluate('read_file', { file_path: file('.env') }).action, 'deny');
+	t.is(manager.getRules('project').length, 1);
+	t.is(manager.getRules('project', true).length, 2);
+});
+
+test.serial('trusted project files apply allow rules until they change', t => {
+	writeRules(projectPath, [{ tool: 'execute_command', pattern: 'make*', action: 'allow' }]);
+	trustProjectFile(projectPath);
+
+	t.false(manager.hasUntrustedProjectRules());
+	t.is(manager.evaluate('execute_command', command('make build')).action, 'allow');
+
+	writeRules(projectPath, [{ tool: 'execute_command', action: 'allow' }]);
+	t.true(manager.hasUntrustedProjectRules());
+	t.is(manager.evaluate('execute_command', command('make build')), null);
+});
+
+test.serial('adding a rule keeps a trusted project file trusted', t => {
+	manager.addRule({ tool: 'execute_command', pattern: 'npm test*', action: 'allow' });
+	manager.addRule({ tool: 'execute_command', pattern: 'npm test*', action: 'allow' });
+
+	t.false(manager.hasUntrustedProjectRules());
+	t.is(manager.getRules('project').length, 1);
+	t.is(manager.evaluate('execute_command', command('npm test')).scope, 'project');
+});
+
+test.serial('adding a rule to an untrusted project file does not trust it', t => {
+	writeRules(projectPath, [{ tool: 'execute_command', action: 'allow' }]);
+	manager.addRule({ tool: 'read_file', pattern: 'src/**', action: 'allow' });
+
+	t.true(manager.hasUntrustedProjectRules());
+	t.is(manager.getRules('project', true).length, 2);
+	t.is(manager.evaluate('execute_command', command('ls')), null);
+});
+
+test.serial('suggests a subcommand prefix for commands', t => {
+	t.deepEqual(manager.suggestRule('execute_command', command('npm test -- --watch')), { tool: 'execute_command', pattern: 'npm test*', action: 'allow' });
+	t.deepEqual(manager.suggestRule('execute_command', command('ls -la')), { tool: 'execute_command', pattern: 'ls*', action: 'allow' });
+	t.deepEqual(manager.suggestRule('execute_command', command('pwd')), { tool: 'execute_command', pattern: 'pwd', action: 'allow' });
+});
+
+test.serial('suggests nothing for chained commands', t => {
+	t.is(manager.suggestRule('execute_command', command('npm test && git push')), null);
+});
+
+test.serial('suggests the directory of a file', t => {
+	t.deepEqual(manager.suggestRule('edit_file', { file_path: file('src/core/agent.ts') }), { tool: 'edit_file', pattern: 'src/core/**', action: 'allow' });
+	t.deepEqual(manager.suggestRule('edit_file', { file_path: file('README.md') }), { tool: 'edit_file', pattern: 'README.md', action: 'allow' });
+});
+
+test.serial('suggests nothing outside the project', t => {
+	t.is(manager.suggestRule('edit_file', { file_path: path.join(root, 'elsewhere.txt') }), null);
+	t.deepEqual(manager.suggestRule('edit_file', { file_path: file('..notes/todo.md') }), { tool: 'edit_file', pattern: '..notes/**', action: 'allow' });
+});
+
+test.serial('suggests the whole tool for MCP tools', t => {
+	t.deepEqual(manager.suggestRule('mcp__docs__search', { query: 'x' }), { tool: 'mcp__docs__search', action: 'allow' });
+	t.is(manager.suggestRule('unknown_tool', {}), null);
+});
@@ -0,0 +1,148 @@
+import test from 'ava';
+import os from 'os';
+import { runCommand, startBackgroundJob, readBackgroundOutput, stopBackgroundJob, listBackgroundJobs } from '../dist/tools/process-manager.js';
+import { executeCommand } from '../dist/tools/tools.js';
+
+// Shell command running a Node.js script, so the tests don't depend on other programs
+const node = script => `"${process.execPath}" -e ${JSON.stringify(script)}`;
+const cwd = os.tmpdir();
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+function isAlive(pid) {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Poll until the condition holds, background jobs report their output asynchronously
+async function waitFor(condition, timeoutMs = 5000) {
+	const deadline = Date.now() + timeoutMs;
+	while (!condition()) {
+		if (Date.now() > deadline) {
+			throw new Error('Timed out waiting for condition');
+		}
+		await sleep(20);
+	}
+}
+
+test('runs a command and reports its exit code and output', async t => {
+	const result = await runCommand(node('process.stdout.write("out"); process.stderr.write("err"); process.exit(3)'), { cwd, timeoutMs: 10000 });
+
+	t.is(result.exitCode, 3);
+	t.is(result.stdout, 'out');
+	t.is(result.stderr, 'err');
+	t.false(result.timedOut);
+	t.false(result.interrupted);
+});
+
+test('writes input to the command and streams its output', async t => {
+	const chunks = [];
+	const result = await runCommand(node('process.stdin.pipe(process.stdout)'), { cwd, timeoutMs: 10000, input: 'piped', onOutput: chunk => chunks.push(chunk) });
+
+	t.is(result.stdout, 'piped');
+	t.is(chunks.join(''), 'piped');
+});
+
+test('keeps the end of long output with a note about what was dropped', async t => {
+	const result = await runCommand(node('process.stdout.write("a".repeat(60000) + "end")'), { cwd, timeoutMs: 10000 });
+
+	t.true(result.stdout.startsWith('[... 10003 earlier characters dropped ...]\n'));
+	t.true(result.stdout.endsWith('aend'));
+	t.is(result.stdout.split('\n')[1].length, 50000);
+});
+
+test('kills the whole process group on timeout', async t => {
+	const script = 'const child = require("child_process").spawn(process.execPath, ["-e", "setInterval(() => {}, 1000)"], { stdio: "ignore" }); console.log(child.pid); setInterval(() => {}, 1000)';
+	const result = await runCommand(node(script), { cwd, timeoutMs: 3000 });
+	const grandchild = Number(result.stdout.trim());
+	// Signalling pid 0 would hit this test's own process group
+	t.true(grandchild > 0, 'the grandchild pid was not printed before the timeout');
+	if (!(grandchild > 0)) {
+		return;
+	}
+	t.teardown(() => {
+		if (isAlive(grandchild)) {
+			process.kill(grandchild, 'SIGKILL');
+		}
+	});
+
+	t.true(result.timedOut);
+	t.is(result.exitCode, null);
+	t.is(result.signal, 'SIGTERM');
+	await waitFor(() => !isAlive(grandchild));
+	t.false(isAlive(grandchild));
+});
+
+test('aborting resolves right away as interrupted', async t => {
+	const controller = new AbortController();
+	const running = runCommand(node('console.log("started"); setInterval(() => {}, 1000)'), { cwd, timeoutMs: 10000, signal: controller.signal, onOutput: () => controller.abort() });
+
+	const result = await running;
+
+	t.true(result.interrupted);
+	t.false(result.timedOut);
+	t.is(result.stdout, 'started\n');
+});
+
+test('the command tool takes its timeout in seconds', async t => {
+	const started = Date.now();
+	const result = await executeCommand(node('setInterval(() => {}, 1000)'), 'bash', cwd, 1);
+
+	t.false(result.success);
+	t.regex(result.error, /timed out after 1s/);
+	t.true(Date.now() - started < 5000);
+});
+
+test('background jobs run until stopped, their output read in parts', async t => {
+	const job = startBackgroundJob(node('console.log("first"); setTimeout(() => console.log("second"), 200); setInterval(() => {}, 1000)'), cwd);
+	t.teardown(() => stopBackgroundJob(job.id));
+	// Each read returns only what is new
+	let read = '';
+	const readUntil = text => waitFor(() => (read += readBackgroundOutput(job.id).output).includes(text));
+
+	t.true(job.running);
+	t.true(listBackgroundJobs().some(listed => listed.id === job.id));
+
+	await readUntil('first');
+	t.is(read, 'first\n');
+	await readUntil('second');
+	t.is(read, 'first\nsecond\n');
+	t.is(readBackgroundOutput(job.id).output, '');
+	t.is(readBackgroundOutput(job.id, 2).output, 'second\n');
+	t.is(readBackgroundOutput(job.id, 10).output, 'first\nsecond\n');
+
+	const stopped = await stopBackgroundJob(job.id);
+	t.false(stopped.running);
+	t.is(stopped.signal, 'SIGTERM');
+	t.false(isAlive(job.pid));
+});
+
+test('background jobs report how they exited', async t => {
+	const job = startBackgroundJob(node('console.log("done"); process.exit(4)'), cwd);
+
+	await waitFor(() => !listBackgroundJobs().find(listed => listed.id === job.id).running);
+	const { job: finished, output } = readBackgroundOutput(job.id);
+
+	t.is(finished.exitCode, 4);
+	t.is(output, 'done\n');
+	t.is((await stopBackgroundJob(job.id)).exitCode, 4);
+});
+
+test('reading after output was dropped says so', async t => {
+	const job = startBackgroundJob(node('process.stdout.write("a".repeat(60000))'), cwd);
+
+	await waitFor(() => !listBackgroundJobs().find(listed => listed.id === job.id).running);
+	const { output, truncated } = readBackgroundOutput(job.id);
+
+	t.true(truncated);
+	t.is(output.length, 50000);
+	t.false(readBackgroundOutput(job.id).truncated);
+});
+
+test('unknown jobs are reported as missing', async t => {
+	t.is(readBackgroundOutput('does-not-exist'), null);
+	t.is(await stopBackgroundJob('does-not-exist'), null);
+});
@@ -0,0 +1,114 @@
+import test from 'ava';
+import { parseToolCalls, chatWithTools } from '../dist/providers/prompt-tools.js';
+import { ProviderError } from '../dist/providers/base.js';
+
+test('parses a <tool_call> block and removes it from the content', t => {
+	const { content, toolCalls } = parseToolCalls('Reading it now.\n<tool_call>\n{"name": "read_file", "arguments": {"file_path": "src/a.ts"}}\n</tool_call>');
+
+	t.is(content, 'Reading it now.');
+	t.is(toolCalls.length, 1);
+	t.is(toolCalls[0].type, 'function');
+	t.is(toolCalls[0].function.name, 'read_file');
+	t.deepEqual(JSON.parse(toolCalls[0].function.arguments), { file_path: 'src/a.ts' });
+	t.is(toolCalls[0].parseError, undefined);
+});
+
+test('parses a fenced tool_call block', t => {
+	const { content, toolCalls } = parseToolCalls('```tool_call\n{"name": "list_files", "arguments": {"directory": "."}}\n```');
+
+	t.is(content, '');
+	t.is(toolCalls.length, 1);
+	t.is(toolCalls[0].function.name, 'list_files');
+	t.deepEqual(JSON.parse(toolCalls[0].function.arguments), { directory: '.' });
+});
+
+test('parses several blocks of both forms with distinct ids', t => {
+	const { toolCalls } = parseToolCalls([
+		'<tool_call>{"name": "read_file", "arguments": {"file_path": "a"}}</tool_call>',
+		'```tool_call\n{"name": "read_file", "parameters": {"file_path": "b"}}\n```'
+	].join('\n'));
+
+	t.is(toolCalls.length, 2);
+	t.not(toolCalls[0].id, toolCalls[1].id);
+	t.deepEqual(JSON.parse(toolCalls[1].function.arguments), { file_path: 'b' });
+});
+
+test('defaults missing arguments to an empty object', t => {
+	const { toolCalls } = parseToolCalls('<tool_call>{"name": "git_status"}</tool_call>');
+
+	t.is(toolCalls[0].function.arguments, '{}');
+});
+
+test('malformed JSON gives an error instead of raw arguments', t => {
+	const { content, toolCalls } = parseToolCalls('<tool_call>\n{"name": "edit_file", "arguments": {"file_path": "a.ts",}\n</tool_call>');
+
+	t.is(content, '');
+	t.is(toolCalls.length, 1);
+	t.is(toolCalls[0].function.name, 'edit_file');
+	t.is(toolCalls[0].function.arguments, '{}');
+	t.regex(toolCalls[0].parseError, /not valid JSON/);
+});
+
+test('leaves blocks without a tool name in the content', t => {
+	const text = 'Example:\n<tool_call>\n{"arguments": {}}\n</tool_call>';
+	const { content, toolCalls } = parseToolCalls(text);
+
+	t.is(toolCalls.length, 0);
+	t.is(content, text);
+});
+
+test('returns plain text unchanged', t => {
+	const { content, toolCalls } = parseToolCalls('  No tools needed.  ');
+
+	t.is(content, 'No tools needed.');
+	t.deepEqual(toolCalls, []);
+});
+
+// Provider that rejects native tools the way Ollama and LM Studio do for models without them
+function createToolRejectingProvider() {
+	const requests = [];
+	let supportsTools = true;
+	return {
+		requests,
+		name: 'fake',
+		supportsToolsForModel: async () => supportsTools,
+		supportsVisionForModel: async () => false,
+		async chat(options) {
+			requests.push(options);
+			if (options.tools) {
+				supportsTools = false;
+				throw new ProviderError('HTTP 400: model does not support tools', 'fake', 'TOOLS_UNSUPPORTED', 400);
+			}
+			return {
+				id: 'response',
+				choices: [{ message: { role: 'assistant', content: '<tool_call>\n{"name": "list_files", "arguments": {}}\n</tool_call>' }, finish_reason: 'stop' }]
+			};
+		}
+	};
+}
+
+test('falls back to prompt-based tools when the model rejects native ones', async t => {
+	const provider = createToolRejectingProvider();
+	const tools = [{ type: 'function', function: { name: 'list_files', description: 'List files', parameters: { type: 'object', properties: {} } } }];
+
+	const response = await chatWithTools(provider, { model: 'm', messages: [{ role: 'user', content: 'hi' }], tools });
+
+	t.is(provider.requests.length, 2);
+	t.is(provider.requests[1].tools, undefined);
+	t.regex(provider.requests[1].messages[0].content, /list_files/);
+	t.is(response.choices[0].finish_reason, 'tool_calls');
+	t.is(response.choices[0].message.tool_calls[0].function.name, 'list_files');
+});
+
+test('passes on other provider errors', async t => {
+	const provider = {
+		name: 'fake',
+		supportsToolsForModel: async () => true,
+		supportsVisionForModel: async () => false,
+		chat: async () => {
+			throw new ProviderError('HTTP 400: bad request', 'fake', 'HTTP_ERROR', 400);
+		}
+	};
+
+	await t.throwsAsync(chatWithTools(provider, { model: 'm', messages: [], tools: [{ type: 'function', function: { name: 'x' } }] }), { message: /bad request/ });
+});
@@ -0,0 +1,102 @@
+import test from 'ava';
+import { classifyFailure, getRetryDelay, findEquivalentModel } from '../dist/core/retry-policy.js';
+import { ProviderError } from '../dist/providers/base.js';
+
+const httpError = (statusCode, retryAfterMs) => new ProviderError(`HTTP ${statusCode}`, 'groq', 'HTTP_ERROR', statusCode, retryAfterMs);
+
+const connectionError = code => Object.assign(new Error(`connect ${code} 127.0.0.1:11434`), { code });
+
+test('classifies 429 as a rate limit', t => {
+	t.is(classifyFailure(httpError(429)), 'rate_limit');
+});
+
+test('classifies 5xx as server errors', t => {
+	for (const status of [500, 502, 503, 504, 529]) {
+		t.is(classifyFailure(httpError(status)), 'server', `status ${status}`);
+	}
+});
+
+test('classifies 408 and 425 as timeouts', t => {
+	t.is(classifyFailure(httpError(408)), 'timeout');
+	t.is(classifyFailure(httpError(425)), 'timeout');
+});
+
+test('classifies an aborted request as a timeout', t => {
+	const error = new Error('The operation was aborted');
+	error.name = 'AbortError';
+
+	t.is(classifyFailure(error), 'timeout');
+});
+
+test('classifies connection errors by code, cause and message', t => {
+	t.is(classifyFailure(connectionError('ECONNREFUSED')), 'connection');
+	t.is(classifyFailure(new Error('fetch failed', { cause: { code: 'ECONNRESET' } })), 'connection');
+	t.is(classifyFailure(new Error('socket hang up')), 'connection');
+	t.is(classifyFailure(new ProviderError('Could not connect', 'ollama', 'CONNECTION_ERROR')), 'connection');
+});
+
+test('classifies other 4xx and unknown errors as fatal', t => {
+	for (const status of [400, 401, 403, 404, 413, 422]) {
+		t.is(classifyFailure(httpError(status)), 'fatal', `status ${status}`);
+	}
+	t.is(classifyFailure(new Error('Something else')), 'fatal');
+	t.is(classifyFailure('not an error'), 'fatal');
+});
+
+test('reads the status of errors from the Groq SDK', t => {
+	t.is(classifyFailure(Object.assign(new Error('Rate limit reached'), { status: 429, headers: {} })), 'rate_limit');
+	t.is(classifyFailure(Object.assign(new Error('Invalid API Key'), { status: 401, headers: {} })), 'fatal');
+});
+
+test('does not retry fatal errors', t => {
+	t.is(getRetryDelay(httpError(400), 0, {}), null);
+	t.is(getRetryDelay(httpError(401), 0, {}), null);
+});
+
+test('waits as long as Retry-After asks', t => {
+	t.is(getRetryDelay(httpError(429, 2500), 0, {}), 2500);
+	t.is(getRetryDelay(httpError(503, 0), 1, {}), 0);
+});
+
+test('does not sit out Retry-After waits over 60 seconds', t => {
+	t.is(getRetryDelay(httpError(429, 60000), 0, {}), 60000);
+	t.is(getRetryDelay(httpError(429, 60001), 0, {}), null);
+	t.is(getRetryDelay(httpError(429, 24 * 60 * 60 * 1000), 0, {}), null);
+});
+
+test('backs off exponentially with jitter', t => {
+	const settings = { initialDelayMs: 1000, maxDelayMs: 30000 };
+	for (let attempt = 0; attempt < 3; attempt++) {
+		const delay = getRetryDelay(httpError(500), attempt, settings);
+		const full = 1000 * 2 ** attempt;
+		t.true(delay >= full / 2 && delay <= full, `attempt ${attempt}: ${delay}`);
+	}
+});
+
+test('caps the backoff at maxDelayMs', t => {
+	const delay = getRetryDelay(connectionError('ECONNRESET'), 9, { maxRetries: 10, initialDelayMs: 1000, maxDelayMs: 4000 });
+
+	t.true(delay >= 2000 && delay <= 4000, `${delay}`);
+});
+
+test('stops after maxRetries attempts', t => {
+	t.not(getRetryDelay(httpError(502), 2, {}), null);
+	t.is(getRetryDelay(httpError(502), 3, {}), null);
+	t.is(getRetryDelay(httpError(502), 0, { maxRetries: 0 }), null);
+	t.is(getRetryDelay(httpError(429, 1000), 1, { maxRetries: 1 }), null);
+});
+
+test('finds the same model on another provider', t => {
+	const settings = {
+		models: [
+			{ groq: 'llama-3.3-70b-versatile', ollama: 'llama3.3:70b' },
+			{ groq: 'openai/gpt-oss-20b', lmstudio: 'gpt-oss-20b' }
+		]
+	};
+
+	t.is(findEquivalentModel('llama-3.3-70b-versatile', 'ollama', settings), 'llama3.3:70b');
+	t.is(findEquivalentModel('llama3.3:70b', 'groq', settings), 'llama-3.3-70b-versatile');
+	t.is(findEquivalentModel('gpt-oss-20b', 'ollama', settings), null);
+	t.is(findEquivalentModel('unknown', 'groq', settings), null);
+	t.is(findEquivalentModel('llama3.3:70b', 'groq', {}), null);
+});
@@ -0,0 +1,84 @@
+import test from 'ava';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { setWorkspaceRoot, setAllowedDirectories, validateWorkspacePath, isWorkspaceBoundary, leavesDirectory } from '../dist/tools/workspace.js';
+
+const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'groq-workspace-')));
+const workspace = path.join(root, 'workspace');
+const outside = path.join(root, 'outside');
+fs.mkdirSync(path.join(workspace, 'src'), { recursive: true });
+fs.mkdirSync(outside);
+fs.writeFileSync(path.join(outside, 'secret.txt'), 'secret');
+setWorkspaceRoot(workspace);
+
+test.afterEach.always(() => {
+	setAllowedDirectories([]);
+});
+
+test.after.always(() => {
+	fs.rmSync(root, { recursive: true, force: true });
+});
+
+test('leavesDirectory only counts whole .. segments', t => {
+	t.true(leavesDirectory('..'));
+	t.true(leavesDirectory(path.join('..', 'x')));
+	t.true(leavesDirectory(path.resolve('/elsewhere')));
+	t.false(leavesDirectory(''));
+	t.false(leavesDirectory('..notes'));
+	t.false(leavesDirectory(path.join('..notes', 'x')));
+	t.false(leavesDirectory(path.join('src', '..', 'x')));
+});
+
+test.serial('allows paths inside the workspace, also new ones', t => {
+	t.is(validateWorkspacePath(workspace), null);
+	t.is(validateWorkspacePath(path.join(workspace, 'src', 'index.ts')), null);
+	t.is(validateWorkspacePath(path.join(workspace, 'new', 'deep', 'file.ts')), null);
+});
+
+test.serial('allows names that only start with two dots', t => {
+	t.is(validateWorkspacePath(path.join(workspace, '..notes')), null);
+	t.is(validateWorkspacePath(path.join(workspace, '..config', 'a.json')), null);
+	t.is(validateWorkspacePath(path.join(workspace, '...')), null);
+});
+
+test.serial('rejects traversal out of the workspace', t => {
+	t.regex(validateWorkspacePath(path.join(workspace, '..', 'outside', 'secret.txt')), /outside the workspace/);
+	t.regex(validateWorkspacePath(path.join(workspace, 'src', '..', '..')), /outside the workspace/);
+	t.regex(validateWorkspacePath(outside), /outside the workspace/);
+	// A sibling whose name starts with the workspace's is still outside
+	t.regex(validateWorkspacePath(`${workspace}-other`), /outside the workspace/);
+});
+
+test.serial('rejects symlinks that lead out of the workspace', t => {
+	fs.symlinkSync(outside, path.join(workspace, 'linked-dir'));
+	fs.symlinkSync(path.join(outside, 'secret.txt'), path.join(workspace, 'linked-file'));
+	fs.symlinkSync(path.join(outside, 'missing.txt'), path.join(workspace, 'dangling'));
+
+	t.regex(validateWorkspacePath(path.join(workspace, 'linked-dir', 'secret.txt')), /symlink/);
+	t.regex(validateWorkspacePath(path.join(workspace, 'linked-dir', 'new.txt')), /symlink/);
+	t.regex(validateWorkspacePath(path.join(workspace, 'linked-file')), /symlink/);
+	t.regex(validateWorkspacePath(path.join(workspace, 'dangling')), /symlink/);
+});
+
+test.serial('allows symlinks that stay inside the workspace', t => {
+	fs.symlinkSync(path.join(workspace, 'src'), path.join(workspace, 'source'));
+
+	t.is(validateWorkspacePath(path.join(workspace, 'source', 'index.ts')), null);
+});
+
+test.serial('allows the extra allowed directories', t => {
+	setAllowedDirectories([outside]);
+
+	t.is(validateWorkspacePath(path.join(outside, 'secret.txt')), null);
+	t.is(validateWorkspacePath(path.join(workspace, 'linked-dir', 'secret.txt')), null);
+	t.regex(validateWorkspacePath(root), /outside the workspace/);
+});
+
+test.serial('knows the workspace and allowed directories themselves', t => {
+	setAllowedDirectories([outside]);
+
+	t.true(isWorkspaceBoundary(workspace));
+	t.true(isWorkspaceBoundary(outside));
+	t.false(isWorkspaceBoundary(path.join(workspace, 'src')));
+});